@@ -0,0 +1,100 @@
+// Large design for checking the editor stays responsive:
+//
+//   npx tsx scripts/benchmark.ts [output.json]
+//
+// Builds a grid of 2,000 resistors joined by 4,000 wires and times the
+// derivations the editor repeats on every edit, in schematic and layout.
+// The output file, when given, can be opened with Import in the editor to
+// try dragging and panning.
+
+import { writeFileSync } from "node:fs";
+import { emptyDesign, type Design, type SchematicComponent, type Wire } from "../src/core/design";
+import { runDrc } from "../src/core/drc";
+import { designBom, moveComponents } from "../src/core/edit";
+import { runErc } from "../src/core/erc";
+import { flattenDesign, hierarchicalNetlist } from "../src/core/hierarchy";
+import { defaultPlacement, placedPads, ratsnest } from "../src/core/layout";
+import { annotate, defaultPins, defaultProps } from "../src/core/parts";
+import { copperClusters, resolveCopperNets } from "../src/core/routing";
+import { analyzeWires } from "../src/core/wires";
+
+const COLUMNS = 50;
+const ROWS = 40;
+const WIRES = 4000;
+const PITCH = 80;
+
+// Resistors in rows; each joins its right-hand neighbour, the one below,
+// and diagonally the one after that until there are enough wires
+export function benchmarkDesign(): Design {
+  const grid: SchematicComponent[][] = [];
+  for (let row = 0; row < ROWS; row++) {
+    grid.push(
+      Array.from({ length: COLUMNS }, (_, col): SchematicComponent => {
+        const x = col * PITCH;
+        const y = row * PITCH;
+        return {
+          id: `r${row}-${col}`,
+          kind: "resistor",
+          x,
+          y,
+          rotation: 0,
+          label: "RESISTOR",
+          ref: "",
+          props: { ...defaultProps("resistor"), value: "10k", footprint: "R_0603" },
+          pins: defaultPins("resistor"),
+          placement: defaultPlacement((x / PITCH) * 3, (y / PITCH) * 3),
+        };
+      })
+    );
+  }
+  const wires: Wire[] = [];
+  const join = (a: SchematicComponent, pa: number, b: SchematicComponent, pb: number) => {
+    if (wires.length >= WIRES) return;
+    wires.push({
+      id: `w${wires.length}`,
+      from: { componentId: a.id, pinId: a.pins[pa].id },
+      to: { componentId: b.id, pinId: b.pins[pb].id },
+      points: [],
+    });
+  };
+  for (let row = 0; row < ROWS; row++) {
+    for (let col = 0; col < COLUMNS; col++) {
+      const c = grid[row][col];
+      if (col + 1 < COLUMNS) join(c, 1, grid[row][col + 1], 0);
+      if (row + 1 < ROWS) join(c, 0, grid[row + 1][col], 0);
+    }
+  }
+  for (let row = 0; row + 1 < ROWS; row++) {
+    for (let col = 0; col + 1 < COLUMNS; col++) join(grid[row][col], 1, grid[row + 1][col + 1], 1);
+  }
+  return { ...emptyDesign(), components: annotate(grid.flat()), wires };
+}
+
+function time<T>(label: string, run: () => T): T {
+  const start = performance.now();
+  const result = run();
+  console.log(`${label.padEnd(24)}${(performance.now() - start).toFixed(1).padStart(8)} ms`);
+  return result;
+}
+
+if (process.argv[1]?.endsWith("benchmark.ts")) {
+  const design = benchmarkDesign();
+  console.log(`${design.components.length} components, ${design.wires.length} wires`);
+  const flat = time("flatten", () => flattenDesign(design));
+  const wires = time("analyze wires", () => analyzeWires(flat));
+  const nets = time("netlist", () => hierarchicalNetlist(flat, wires));
+  time("bill of materials", () => designBom(design));
+  time("electrical rules", () => runErc(flat, nets));
+  const pads = time("pads", () => placedPads(flat));
+  const netOfPin = new Map(nets.flatMap((n) => n.pins.map((k) => [k, n.name] as const)));
+  const board = time("copper nets", () => resolveCopperNets(flat.board, pads, netOfPin));
+  time("ratsnest", () => ratsnest(nets, pads, copperClusters(board, pads)));
+  time("design rules", () => runDrc({ ...flat, board }, nets, pads));
+  const ids = design.components.slice(0, 100).map((c) => c.id);
+  time("move 100 components", () => moveComponents(design, ids, 10, 10));
+  const output = process.argv[2];
+  if (output) {
+    writeFileSync(output, JSON.stringify(design));
+    console.log(`wrote ${output}`);
+  }
+}
@@ -0,0 +1,148 @@
+// The command-line tool as CI runs it, in a child process:
+//
+//   npx tsx --test scripts/fluxlite.test.ts
+
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, test } from "node:test";
+import { type Design, emptyDesign } from "../src/core/design";
+import { connect, placeComponent } from "../src/core/edit";
+import { withSheet } from "../src/core/hierarchy";
+
+const dir = mkdtempSync(join(tmpdir(), "fluxlite-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function fluxlite(...args: string[]) {
+  const run = spawnSync(
+    process.execPath,
+    ["--import", "tsx", join(import.meta.dirname, "fluxlite.ts"), ...args],
+    { encoding: "utf8" }
+  );
+  return { status: run.status, stdout: run.stdout, stderr: run.stderr };
+}
+
+const out = (name: string) => join(dir, name);
+
+const file = (name: string, data: unknown) => {
+  const path = join(dir, name);
+  writeFileSync(path, typeof data === "string" ? data : JSON.stringify(data));
+  return path;
+};
+
+// R1 pin 2 wired to R2 pin 1, with a supply on R1 pin 1
+function divider(): Design {
+  let d = placeComponent(emptyDesign(), null, "resistor", { x: 0, y: 0 });
+  d = placeComponent(d, null, "resistor", { x: 100, y: 0 });
+  d = placeComponent(d, null, "power", { x: -20, y: -40 });
+  const [r1, r2, vcc] = d.components;
+  const pin = (c: typeof r1, i: number) => ({ componentId: c.id, pinId: c.pins[i].id });
+  d = withSheet(d, null, connect(d, pin(r1, 1), pin(r2, 0)));
+  return withSheet(d, null, connect(d, pin(vcc, 0), pin(r1, 0)));
+}
+
+// VCC wired straight to GND: an ERC error
+function shorted(): Design {
+  let d = placeComponent(emptyDesign(), null, "power", { x: 0, y: 0 });
+  d = placeComponent(d, null, "ground", { x: 0, y: 100 });
+  const [vcc, gnd] = d.components;
+  return withSheet(
+    d,
+    null,
+    connect(
+      d,
+      { componentId: vcc.id, pinId: vcc.pins[0].id },
+      { componentId: gnd.id, pinId: gnd.pins[0].id }
+    )
+  );
+}
+
+test("bad usage exits 2", () => {
+  const design = file("usage.json", divider());
+  assert.equal(fluxlite().status, 2);
+  assert.match(fluxlite("frobnicate", design).stderr, /usage: fluxlite validate/);
+  assert.equal(fluxlite("export", design).status, 2);
+  const wrong = fluxlite("export", design, out("out.docx"));
+  assert.equal(wrong.status, 2);
+  assert.match(wrong.stderr, /cannot write \.docx/);
+});
+
+test("validate passes a clean design and fails on ERC errors", () => {
+  const clean = fluxlite("validate", file("clean.json", divider()));
+  assert.equal(clean.status, 0);
+  assert.match(clean.stdout, /3 parts, 0 sheets, .* 0 ERC errors/);
+  const bad = fluxlite("validate", file("short.json", shorted()));
+  assert.equal(bad.status, 1);
+  assert.match(bad.stdout, /error: .*\[power-short\]/);
+});
+
+test("unreadable designs exit 1; repair mode drops dangling wires", () => {
+  assert.equal(fluxlite("validate", file("broken.json", "{ not json")).status, 1);
+  const d = divider();
+  const dangling = file("dangling.json", {
+    ...d,
+    wires: [
+      ...d.wires,
+      { id: "w", from: { componentId: "gone", pinId: "p" }, to: null, points: [] },
+    ],
+  });
+  const refused = fluxlite("validate", dangling);
+  assert.equal(refused.status, 1);
+  assert.match(refused.stderr, /no component gone on this sheet/);
+  const repaired = fluxlite("validate", dangling, "--repair");
+  assert.equal(repaired.status, 0);
+  assert.match(repaired.stderr, /repaired wires\[2\]\.from/);
+});
+
+test("netlist and bom print to standard output", () => {
+  const design = file("print.json", divider());
+  const netlist = fluxlite("netlist", design);
+  assert.equal(netlist.status, 0);
+  assert.equal(netlist.stdout, "Net-(R1-2)\tR1.2 R2.1\nVCC\tVCC.+V R1.1\n");
+  const bom = fluxlite("bom", design);
+  assert.equal(bom.status, 0);
+  assert.match(bom.stdout, /R1 R2/);
+});
+
+test("export writes the format the extension names", () => {
+  const design = file("export.json", divider());
+  for (const name of ["out.json", "out.csv", "out.svg", "out.pdf", "out.net"]) {
+    const run = fluxlite("export", design, out(name));
+    assert.equal(run.status, 0, run.stderr);
+    assert.ok(existsSync(out(name)), name);
+  }
+  assert.match(readFileSync(out("out.svg"), "utf8"), /^<svg/);
+});
+
+test("patch applies edits and turns away bad patches", () => {
+  const design = file("patch.json", divider());
+  const edits = file("edits.json", [{ op: "set", component: "R1", field: "value", value: "4k7" }]);
+  assert.equal(fluxlite("patch", design, edits, out("patched.json")).status, 0);
+  const patched = JSON.parse(readFileSync(out("patched.json"), "utf8")) as Design;
+  assert.equal(patched.components.find((c) => c.ref === "R1")?.props.value, "4k7");
+
+  const stale = file("stale.json", [{ op: "set", component: "R9", field: "value", value: "1k" }]);
+  assert.equal(fluxlite("patch", design, stale, out("never.json")).status, 2);
+  const typo = file("typo.json", [{ op: "sett" }]);
+  const run = fluxlite("patch", design, typo, out("never.json"));
+  assert.equal(run.status, 2);
+  assert.match(run.stderr, /patch\[0\]\.op/);
+  assert.ok(!existsSync(out("never.json")));
+});
+
+test("every command fails on ERC errors but still writes its output", () => {
+  const design = file("erc.json", shorted());
+  const netlist = fluxlite("netlist", design);
+  assert.equal(netlist.status, 1);
+  assert.match(netlist.stdout, /^GND/);
+  assert.match(netlist.stderr, /error: .*\[power-short\]/);
+  assert.equal(fluxlite("bom", design).status, 1);
+  assert.equal(fluxlite("export", design, out("erc.csv")).status, 1);
+  assert.ok(existsSync(out("erc.csv")));
+  const edits = file("erc-edits.json", [{ op: "rename-net", from: "VCC", to: "V5" }]);
+  const patched = fluxlite("patch", design, edits, out("erc-patched.json"));
+  assert.equal(patched.status, 1);
+  assert.match(patched.stderr, /erc-patched\.json: error: /);
+});
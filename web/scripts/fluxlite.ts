@@ -0,0 +1,201 @@
+// Design files from the command line, for CI and scripts:
+//
+//   npx tsx scripts/fluxlite.ts validate <design>
+//   npx tsx scripts/fluxlite.ts netlist <design>
+//   npx tsx scripts/fluxlite.ts bom <design>
+//   npx tsx scripts/fluxlite.ts export <design> <output>
+//   npx tsx scripts/fluxlite.ts patch <design> <patch.json> <output>
+//
+// Designs are read from fluxlite JSON or a KiCad schematic (.kicad_sch).
+// Outputs take their format from the extension: .json, .csv (BOM), .cir
+// (SPICE deck), .svg (schematic plot, one file per sheet), .pdf (schematic
+// plot), .kicad_sch (one file per sheet, next to the output) or .net (KiCad
+// netlist). Patch files are described in src/core/patch.ts.
+// --repair drops dangling wires and sheet symbols instead of refusing the file.
+//
+// Every command runs ERC on the design it read (patch: on the result).
+// validate lists every violation; the others print ERC errors to stderr and
+// still write their output.
+//
+// Exit status: 0 when all is well, 1 when the design cannot be read or has
+// ERC errors, 2 on bad usage or a bad patch.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import type { Design } from "../src/core/design";
+import { designBom, designNetlist } from "../src/core/edit";
+import { runErc } from "../src/core/erc";
+import { flattenDesign } from "../src/core/hierarchy";
+import { readKicadSchematic, writeKicadNetlist, writeKicadSchematic } from "../src/core/kicad";
+import { normalizeDesign, parseDesign } from "../src/core/normalize";
+import { bomToCsv } from "../src/core/parts";
+import { applyPatch, PatchError, parsePatch } from "../src/core/patch";
+import { writePdf } from "../src/core/pdf";
+import { pageSvg, plotSchematic, type PlotOptions } from "../src/core/plot";
+import { buildCircuit, toSpiceDeck } from "../src/core/spice";
+import { DesignFormatError, formatIssue } from "../src/core/validate";
+
+class UsageError extends Error {}
+
+const USAGE = `usage: fluxlite validate <design> [--repair]
+       fluxlite netlist <design> [--repair]
+       fluxlite bom <design> [--repair]
+       fluxlite export <design> <output> [--repair]
+       fluxlite patch <design> <patch.json> <output> [--repair]`;
+
+const OUTPUTS = [".json", ".csv", ".cir", ".svg", ".pdf", ".kicad_sch", ".net"];
+
+// Design in a file, with notes on anything dropped or not carried over
+function readDesign(file: string, repair: boolean): { design: Design; notes: string[] } {
+  const text = readFileSync(file, "utf8");
+  if (extname(file) === ".kicad_sch") {
+    const { design, report } = readKicadSchematic(text);
+    return { design: normalizeDesign(design), notes: report };
+  }
+  const { design, repairs } = parseDesign(text, { repair });
+  return { design, notes: repairs.map((r) => `repaired ${formatIssue(r)}`) };
+}
+
+const plotOptions = (file: string): PlotOptions => ({
+  paper: "A4",
+  fit: true,
+  monochrome: false,
+  title: {
+    project: basename(file, extname(file)),
+    revision: "",
+    date: new Date().toISOString().slice(0, 10),
+  },
+});
+
+// Write in the format the extension names; returns the files written
+function writeDesign(design: Design, file: string): string[] {
+  const ext = extname(file);
+  const base = basename(file, ext);
+  const write = (name: string, data: string | Uint8Array) => {
+    const path = join(dirname(file), name);
+    writeFileSync(path, data);
+    return path;
+  };
+  const flat = flattenDesign(design);
+  switch (ext) {
+    case ".json":
+      return [write(`${base}.json`, JSON.stringify(design, null, 2))];
+    case ".csv":
+      return [write(`${base}.csv`, bomToCsv(designBom(design)))];
+    case ".cir":
+      return [write(`${base}.cir`, toSpiceDeck(buildCircuit(flat, designNetlist(design))))];
+    case ".svg": {
+      const pages = plotSchematic(design, plotOptions(file));
+      return pages.map((page, i) =>
+        write(pages.length > 1 ? `${base}-${i + 1}.svg` : `${base}.svg`, pageSvg(page))
+      );
+    }
+    case ".pdf":
+      return [write(`${base}.pdf`, writePdf(plotSchematic(design, plotOptions(file)), base))];
+    case ".kicad_sch":
+      return writeKicadSchematic(design, flat, base).map((f) => write(f.name, f.data));
+    case ".net":
+      return [write(`${base}.net`, writeKicadNetlist(flat, designNetlist(design)))];
+    default:
+      throw new UsageError(`cannot write ${ext || "files without an extension"}`);
+  }
+}
+
+function readPatch(file: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new PatchError(`${file}: ${err instanceof Error ? err.message : err}`);
+  }
+  return parsePatch(data);
+}
+
+// Nets as "NAME<tab>R1.1 R2.2", pins by designator and pin name
+function netlistText(design: Design) {
+  const flat = flattenDesign(design);
+  const components = new Map(flat.components.map((c) => [c.id, c]));
+  return designNetlist(design)
+    .map((net) => {
+      const pins = net.pins.map((k) => {
+        const [cid, pid] = k.split(":");
+        const c = components.get(cid);
+        const index = c?.pins.findIndex((p) => p.id === pid) ?? -1;
+        if (!c || index < 0) return k;
+        return `${c.ref || c.label}.${c.pins[index].name || index + 1}`;
+      });
+      return `${net.name}\t${pins.join(" ")}`;
+    })
+    .join("\n");
+}
+
+// Format check plus ERC; ERC errors fail, warnings are only printed
+function validate(file: string, design: Design): number {
+  const flat = flattenDesign(design);
+  const nets = designNetlist(design);
+  const violations = runErc(flat, nets);
+  for (const v of violations) console.log(`${file}: ${v.severity}: ${v.message} [${v.rule}]`);
+  const errors = violations.filter((v) => v.severity === "error").length;
+  const warnings = violations.length - errors;
+  console.log(
+    `${file}: ${flat.components.length} parts, ${design.sheets.length} sheets, ${nets.length} nets; ` +
+      `${errors} ERC errors, ${warnings} warnings`
+  );
+  return errors ? 1 : 0;
+}
+
+// ERC errors only, on stderr so netlist and bom output stays clean
+function ercStatus(file: string, design: Design): number {
+  const errors = runErc(flattenDesign(design), designNetlist(design)).filter(
+    (v) => v.severity === "error"
+  );
+  for (const v of errors) console.error(`${file}: error: ${v.message} [${v.rule}]`);
+  return errors.length ? 1 : 0;
+}
+
+function main(args: string[]): number {
+  const repair = args.includes("--repair");
+  const [given, ...files] = args.filter((a) => !a.startsWith("--"));
+  // "convert" is the earlier name of export
+  const command = given === "convert" ? "export" : given;
+  const arity: Record<string, number> = { validate: 1, netlist: 1, bom: 1, export: 2, patch: 3 };
+  try {
+    if (!(command in arity) || files.length !== arity[command]) throw new UsageError(USAGE);
+    const output = command === "export" ? files[1] : command === "patch" ? files[2] : null;
+    // refuse an unknown output before doing any work
+    if (output && !OUTPUTS.includes(extname(output))) {
+      throw new UsageError(`cannot write ${extname(output) || "files without an extension"}`);
+    }
+    // patches are checked before the design is read, so a typo fails fast
+    const patch = command === "patch" ? readPatch(files[1]) : null;
+    const { design, notes } = readDesign(files[0], repair);
+    for (const note of notes) console.warn(note);
+    switch (command) {
+      case "validate":
+        return validate(files[0], design);
+      case "netlist":
+        console.log(netlistText(design));
+        return ercStatus(files[0], design);
+      case "bom":
+        process.stdout.write(bomToCsv(designBom(design)));
+        return ercStatus(files[0], design);
+    }
+    const result = patch ? normalizeDesign(applyPatch(design, patch)) : design;
+    for (const written of writeDesign(result, output!)) console.log(`wrote ${written}`);
+    return ercStatus(patch ? output! : files[0], result);
+  } catch (err) {
+    if (err instanceof UsageError || err instanceof PatchError) {
+      console.error(err.message);
+      return 2;
+    }
+    if (err instanceof DesignFormatError) {
+      for (const issue of err.issues) console.error(`${files[0]}: ${formatIssue(issue)}`);
+      if (err.repairable) console.error("(--repair drops these)");
+      return 1;
+    }
+    console.error(err instanceof Error ? err.message : String(err));
+    return 1;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,132 @@
+// The stand-in relay over real sockets:
+//
+//   npx tsx --test scripts/relay.test.ts
+
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { EventEmitter, once } from "node:events";
+import { request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import { after, before, test } from "node:test";
+import {
+  type ClientMessage,
+  CollabDoc,
+  PEER_COLORS,
+  type Presence,
+  type RelayMessage,
+} from "../src/core/collab";
+import { emptyDesign } from "../src/core/design";
+import { placeComponent } from "../src/core/edit";
+import { frame, readFrames, startRelay } from "./relay";
+
+let relay: Server;
+let port: number;
+
+before(async () => {
+  relay = startRelay(0);
+  await once(relay, "listening");
+  port = (relay.address() as AddressInfo).port;
+});
+
+after(() => relay.close());
+
+// A peer on the relay, with the messages it has been sent but not yet read
+async function connect(room: string, id: string) {
+  const [socket, head] = await new Promise<[Duplex, Buffer]>((resolve, reject) => {
+    const req = request({
+      port,
+      headers: {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Key": randomBytes(16).toString("base64"),
+        "Sec-WebSocket-Version": "13",
+      },
+    });
+    req.on("upgrade", (_, socket, head) => resolve([socket, head]));
+    req.on("error", reject);
+    req.end();
+  });
+  const inbox: RelayMessage[] = [];
+  const arrived = new EventEmitter();
+  let pending = head;
+  const read = (chunk: Buffer) => {
+    const { frames, rest } = readFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const f of frames) if (f.opcode === 0x1) inbox.push(JSON.parse(f.payload.toString()));
+    arrived.emit("message");
+  };
+  socket.on("data", read);
+  const send = (msg: ClientMessage) => socket.write(frame(0x1, Buffer.from(JSON.stringify(msg))));
+  const peer = { id, name: id, color: PEER_COLORS[0] };
+  send({ type: "join", room, peer });
+
+  // The first unread message of a type
+  const next = async <T extends RelayMessage["type"]>(type: T) => {
+    for (;;) {
+      const i = inbox.findIndex((m) => m.type === type);
+      if (i >= 0) return inbox.splice(i, 1)[0] as Extract<RelayMessage, { type: T }>;
+      await once(arrived, "message");
+    }
+  };
+  // as a browser closes: with a close frame, which the relay answers
+  const close = () => socket.write(frame(0x8, Buffer.alloc(0)));
+  return { peer, send, next, close };
+}
+
+// Components of a replica's design; replicas can hold them in any order
+const components = (doc: CollabDoc) =>
+  doc.design().components.sort((x, y) => x.id.localeCompare(y.id));
+
+test("concurrent edits merge and late joiners get the whole room", { timeout: 5000 }, async () => {
+  const a = await connect("merge", "a");
+  const b = await connect("merge", "b");
+  assert.deepEqual((await a.next("welcome")).ops, []);
+  await b.next("welcome");
+
+  // both edit before hearing of the other's edit
+  const docA = new CollabDoc("a");
+  const docB = new CollabDoc("b");
+  a.send({
+    type: "ops",
+    ops: docA.change(placeComponent(emptyDesign(), null, "resistor", { x: 0, y: 0 })),
+  });
+  b.send({
+    type: "ops",
+    ops: docB.change(placeComponent(emptyDesign(), null, "capacitor", { x: 100, y: 0 })),
+  });
+  docA.merge((await a.next("ops")).ops);
+  docB.merge((await b.next("ops")).ops);
+  assert.deepEqual(
+    components(docA)
+      .map((c) => c.kind)
+      .sort(),
+    ["capacitor", "resistor"]
+  );
+  assert.deepEqual(components(docB), components(docA));
+
+  const late = await connect("merge", "c");
+  const welcome = await late.next("welcome");
+  const docC = new CollabDoc("c");
+  docC.merge(welcome.ops);
+  assert.deepEqual(components(docC), components(docA));
+  assert.deepEqual(welcome.peers.map((p) => p.peer.id).sort(), ["a", "b"]);
+  [a, b, late].forEach((p) => p.close());
+});
+
+test("presence and leaving reach the other peers", { timeout: 5000 }, async () => {
+  const a = await connect("presence", "a");
+  const b = await connect("presence", "b");
+  await a.next("welcome");
+  await b.next("welcome");
+
+  const presence: Presence = { view: "", cursor: { x: 10, y: 20 }, selection: ["r1"] };
+  a.send({ type: "presence", presence });
+  const seen = await b.next("presence");
+  assert.equal(seen.peer.id, "a");
+  assert.deepEqual(seen.presence, presence);
+
+  a.close();
+  assert.equal((await b.next("leave")).id, "a");
+  b.close();
+});
@@ -0,0 +1,167 @@
+// Stand-in collaboration relay for local use and tests:
+//
+//   npx tsx scripts/relay.ts [port]
+//
+// Speaks just enough RFC 6455 (text frames, ping, close) over node:http to
+// serve the browser client. Rooms live in memory: each keeps the winning op
+// per entity, so a late joiner gets the merged state without replaying
+// history, plus the last presence of every peer.
+
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import type { Duplex } from "node:stream";
+import {
+  type ClientMessage,
+  mergeOps,
+  type Op,
+  type Peer,
+  type Presence,
+  type RelayMessage,
+} from "../src/core/collab";
+
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+type Client = { socket: Duplex; room: Room | null; peer: Peer | null; presence: Presence | null };
+type Room = { entries: Map<string, { value: unknown; stamp: Op["stamp"] }>; clients: Set<Client> };
+
+export function frame(opcode: number, payload: Buffer) {
+  const len = payload.length;
+  const head =
+    len < 126
+      ? Buffer.from([0x80 | opcode, len])
+      : len < 0x10000
+        ? Buffer.from([0x80 | opcode, 126, len >> 8, len & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigLength(len)]);
+  return Buffer.concat([head, payload]);
+}
+
+function bigLength(len: number) {
+  const b = Buffer.alloc(8);
+  b.writeBigUInt64BE(BigInt(len));
+  return b;
+}
+
+// Complete frames at the front of `buf`; returns them and the unread rest
+export function readFrames(buf: Buffer) {
+  const frames: { fin: boolean; opcode: number; payload: Buffer }[] = [];
+  let at = 0;
+  while (buf.length - at >= 2) {
+    const fin = (buf[at] & 0x80) !== 0;
+    const opcode = buf[at] & 0x0f;
+    const masked = (buf[at + 1] & 0x80) !== 0;
+    let len = buf[at + 1] & 0x7f;
+    let p = at + 2;
+    if (len === 126) {
+      if (buf.length < p + 2) break;
+      len = buf.readUInt16BE(p);
+      p += 2;
+    } else if (len === 127) {
+      if (buf.length < p + 8) break;
+      len = Number(buf.readBigUInt64BE(p));
+      p += 8;
+    }
+    const mask = masked ? buf.subarray(p, p + 4) : null;
+    if (masked) p += 4;
+    if (buf.length < p + len) break;
+    const payload = Buffer.from(buf.subarray(p, p + len));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+    frames.push({ fin, opcode, payload });
+    at = p + len;
+  }
+  return { frames, rest: buf.subarray(at) };
+}
+
+export function startRelay(port: number) {
+  const rooms = new Map<string, Room>();
+
+  const send = (client: Client, msg: RelayMessage) => {
+    if (!client.socket.destroyed) client.socket.write(frame(0x1, Buffer.from(JSON.stringify(msg))));
+  };
+  const broadcast = (room: Room, from: Client, msg: RelayMessage) => {
+    for (const c of room.clients) if (c !== from) send(c, msg);
+  };
+
+  const receive = (client: Client, msg: ClientMessage) => {
+    if (msg.type === "join") {
+      const room = rooms.get(msg.room) ?? { entries: new Map(), clients: new Set<Client>() };
+      rooms.set(msg.room, room);
+      client.room = room;
+      client.peer = msg.peer;
+      const ops = [...room.entries].map(([key, e]) => ({ key, ...e }));
+      const peers = [...room.clients].map((c) => ({ peer: c.peer!, presence: c.presence }));
+      room.clients.add(client);
+      send(client, { type: "welcome", ops, peers });
+      return;
+    }
+    const { room, peer } = client;
+    if (!room || !peer) return;
+    if (msg.type === "ops") {
+      const accepted = mergeOps(room.entries, msg.ops);
+      if (accepted.length) broadcast(room, client, { type: "ops", from: peer.id, ops: accepted });
+    } else if (msg.type === "presence") {
+      client.presence = msg.presence;
+      broadcast(room, client, { type: "presence", peer, presence: msg.presence });
+    }
+  };
+
+  const leave = (client: Client) => {
+    const { room, peer } = client;
+    if (!room || !peer || !room.clients.delete(client)) return;
+    broadcast(room, client, { type: "leave", id: peer.id });
+  };
+
+  const server = createServer((_, res) => {
+    res.writeHead(426, { "Content-Type": "text/plain" });
+    res.end("WebSocket only\n");
+  });
+
+  server.on("upgrade", (req, socket) => {
+    const key = req.headers["sec-websocket-key"];
+    if (typeof key !== "string") {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    const accept = createHash("sha1")
+      .update(key + WS_GUID)
+      .digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    const client: Client = { socket, room: null, peer: null, presence: null };
+    let pending: Buffer = Buffer.alloc(0);
+    // payload of a fragmented message so far
+    let message: Buffer[] = [];
+    socket.on("data", (chunk: Buffer) => {
+      const { frames, rest } = readFrames(Buffer.concat([pending, chunk]));
+      pending = rest;
+      for (const f of frames) {
+        if (f.opcode === 0x8) {
+          socket.end(frame(0x8, Buffer.alloc(0)));
+          return;
+        }
+        if (f.opcode === 0x9) socket.write(frame(0xa, f.payload));
+        if (f.opcode !== 0x1 && f.opcode !== 0x0) continue;
+        message.push(f.payload);
+        if (!f.fin) continue;
+        const text = Buffer.concat(message).toString("utf8");
+        message = [];
+        try {
+          receive(client, JSON.parse(text));
+        } catch {
+          // ignore malformed messages
+        }
+      }
+    });
+    socket.on("close", () => leave(client));
+    socket.on("error", () => socket.destroy());
+  });
+
+  server.listen(port);
+  return server;
+}
+
+if (process.argv[1]?.endsWith("relay.ts")) {
+  const port = Number(process.argv[2] ?? 8787);
+  startRelay(port).on("listening", () => console.log(`relay listening on ws://localhost:${port}`));
+}
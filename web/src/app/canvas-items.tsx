@@ -0,0 +1,534 @@
+"use client";
+
+import { memo } from "react";
+import { arrowHead, frameOutline, NO_CONNECT_SIZE } from "@/core/annotations";
+import type { Peer, Presence } from "@/core/collab";
+import type {
+  Annotation,
+  CopperLayer,
+  LibraryPart,
+  Pin,
+  Point,
+  SchematicComponent,
+  Track,
+  Wire,
+} from "@/core/design";
+import { getFootprint } from "@/core/footprints";
+import { pinAbsPosition } from "@/core/geometry";
+import { SHEET_WIDTH, sheetHeight } from "@/core/hierarchy";
+import { MM } from "@/core/layout";
+import { symbolBounds } from "@/core/library";
+import { pinKey } from "@/core/netlist";
+import { boundsOf } from "@/core/viewport";
+import { PartGraphics } from "./symbol-editor";
+
+// Canvas drawings of design items. Each is memoized on plain data props, so
+// an edit or a drag frame only re-renders the items it changed. They take
+// no handlers: the canvas finds what was pressed through data-component-id,
+// data-pin-id, data-wire-id/data-segment and data-annotation-id.
+
+export type LayerVisibility = Record<CopperLayer | "silkscreen" | "ratsnest", boolean>;
+
+const DEFAULT_BOUNDS = { x: -36, y: -36, w: 72, h: 72 };
+
+// How far a symbol reaches from its origin, in any rotation
+export function symbolReach(c: SchematicComponent, part?: LibraryPart) {
+  const sheet = c.kind === "sheet" ? sheetHeight(c.pins.length) / 2 : 0;
+  const area = part
+    ? symbolBounds(part)
+    : sheet
+      ? { x: -SHEET_WIDTH / 2, y: -sheet, w: SHEET_WIDTH, h: 2 * sheet }
+      : DEFAULT_BOUNDS;
+  return Math.max(
+    Math.abs(area.x),
+    Math.abs(area.y),
+    Math.abs(area.x + area.w),
+    Math.abs(area.y + area.h)
+  );
+}
+
+export const SchematicSymbol = memo(function SchematicSymbol({
+  c,
+  part,
+  sheetName,
+  selected,
+  netPins,
+}: {
+  c: SchematicComponent;
+  part?: LibraryPart;
+  // name of the child sheet a sheet symbol places
+  sheetName?: string;
+  selected: boolean;
+  // pins of the highlighted net, null when no net is highlighted
+  netPins: ReadonlySet<string> | null;
+}) {
+  const onNet = (p: Pin) => !!netPins?.has(pinKey(c.id, p.id));
+  const dimmed = !!netPins && !c.pins.some(onNet);
+  // library parts put their texts and outline around the drawing
+  const bounds = part ? symbolBounds(part) : DEFAULT_BOUNDS;
+  return (
+    <g
+      transform={`translate(${c.x},${c.y}) rotate(${c.rotation})`}
+      opacity={dimmed ? 0.25 : undefined}
+      data-component-id={c.id}
+      className="cursor-move"
+    >
+      {/* Body */}
+      {c.kind === "resistor" && (
+        <>
+          <line x1={-30} y1={0} x2={-20} y2={0} stroke="#111" strokeWidth={2} />
+          <rect x={-20} y={-8} width={40} height={16} fill="#f9d57a" stroke="#111" />
+          <line x1={20} y1={0} x2={30} y2={0} stroke="#111" strokeWidth={2} />
+        </>
+      )}
+      {c.kind === "capacitor" && (
+        <>
+          <line x1={-20} y1={-10} x2={-20} y2={10} stroke="#111" strokeWidth={2} />
+          <line x1={20} y1={-10} x2={20} y2={10} stroke="#111" strokeWidth={2} />
+          <line x1={-30} y1={0} x2={-20} y2={0} stroke="#111" strokeWidth={2} />
+          <line x1={20} y1={0} x2={30} y2={0} stroke="#111" strokeWidth={2} />
+        </>
+      )}
+      {c.kind === "led" && (
+        <>
+          <circle r={10} fill="#ff6b6b" stroke="#111" />
+          <line x1={-30} y1={0} x2={-10} y2={0} stroke="#111" strokeWidth={2} />
+          <line x1={10} y1={0} x2={30} y2={0} stroke="#111" strokeWidth={2} />
+        </>
+      )}
+      {c.kind === "power" && <polygon points="0,-20 -8,0 8,0" fill="#4ade80" stroke="#111" />}
+      {c.kind === "ground" && (
+        <>
+          <line x1={-10} y1={0} x2={10} y2={0} stroke="#111" />
+          <line x1={-6} y1={4} x2={6} y2={4} stroke="#111" />
+          <line x1={-2} y1={8} x2={2} y2={8} stroke="#111" />
+        </>
+      )}
+      {c.kind === "ic" && (
+        <rect x={-30} y={-30} width={60} height={60} rx={6} fill="#e5e7eb" stroke="#111" />
+      )}
+      {part && <PartGraphics graphics={part.graphics} />}
+      {c.kind === "netlabel" && (
+        <>
+          <line x1={-20} y1={0} x2={-10} y2={0} stroke="#111" strokeWidth={2} />
+          <polygon points="-10,0 -4,-7 30,-7 30,7 -4,7" fill="#dbeafe" stroke="#111" />
+        </>
+      )}
+      {c.kind === "port" && (
+        <>
+          <line x1={-30} y1={0} x2={-20} y2={0} stroke="#111" strokeWidth={2} />
+          <polygon points="-20,-8 10,-8 20,0 10,8 -20,8" fill="#fde68a" stroke="#111" />
+        </>
+      )}
+      {c.kind === "sheet" && (
+        <>
+          <rect
+            x={-SHEET_WIDTH / 2}
+            y={-sheetHeight(c.pins.length) / 2}
+            width={SHEET_WIDTH}
+            height={sheetHeight(c.pins.length)}
+            fill="#ecfeff"
+            stroke="#0e7490"
+            strokeWidth={1.5}
+          />
+          {c.pins.map((p) => (
+            <line
+              key={p.id}
+              x1={p.x}
+              y1={p.y}
+              x2={-SHEET_WIDTH / 2}
+              y2={p.y}
+              stroke="#111"
+              strokeWidth={2}
+            />
+          ))}
+          <text x={0} y={4} textAnchor="middle" fontSize={9} fill="#0e7490">
+            {sheetName ?? "missing sheet"}
+          </text>
+        </>
+      )}
+
+      {/* Label */}
+      <text
+        x={0}
+        y={part ? bounds.y - 6 : c.kind === "sheet" ? -sheetHeight(c.pins.length) / 2 - 6 : -18}
+        textAnchor="middle"
+        fontSize={10}
+        fill="#111"
+      >
+        {c.label}
+      </text>
+      {c.ref && (
+        <text
+          x={0}
+          y={part ? bounds.y + bounds.h + 12 : 26}
+          textAnchor="middle"
+          fontSize={8}
+          fill="#52525b"
+        >
+          {c.ref} {c.props.value}
+        </text>
+      )}
+
+      {/* Pins */}
+      {c.pins.map((p) => {
+        const pos = pinAbsPosition({ ...c, x: 0, y: 0 }, p);
+        return (
+          <g key={p.id}>
+            <circle
+              cx={pos.x}
+              cy={pos.y}
+              r={4}
+              fill={onNet(p) ? "#f59e0b" : "#fff"}
+              stroke="#111"
+              className="cursor-crosshair"
+              data-pin-id={p.id}
+            />
+            <text x={pos.x} y={pos.y - 8} fontSize={8} textAnchor="middle" fill="#111">
+              {p.name}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Selection highlight */}
+      {selected && (
+        <rect
+          x={bounds.x - 4}
+          y={bounds.y - 4}
+          width={bounds.w + 8}
+          height={bounds.h + 8}
+          fill="none"
+          stroke="#16a34a"
+          strokeDasharray={4}
+        />
+      )}
+    </g>
+  );
+});
+
+const points = (path: Point[]) => path.map((p) => `${p.x},${p.y}`).join(" ");
+
+// Notes, drawings and no-connect flags. Thin strokes get a wide invisible
+// twin so they can be grabbed.
+export const AnnotationItem = memo(function AnnotationItem({
+  a,
+  selected,
+}: {
+  a: Annotation;
+  selected: boolean;
+}) {
+  const ink = selected ? "#16a34a" : "#111";
+  const bounds = boundsOf(frameOutline(a))!;
+  const s = NO_CONNECT_SIZE;
+  return (
+    <g
+      transform={`translate(${a.x},${a.y}) rotate(${a.rotation})`}
+      data-annotation-id={a.id}
+      className="cursor-move"
+    >
+      {a.type === "text" && (
+        <text x={0} y={0} fontSize={a.size} fill={ink} className="select-none">
+          {a.text}
+        </text>
+      )}
+      {(a.type === "line" || a.type === "arrow") && (
+        <>
+          <line x1={0} y1={0} x2={a.dx} y2={a.dy} stroke={ink} strokeWidth={1.5} />
+          {a.type === "arrow" && <polygon points={points(arrowHead(a))} fill={ink} />}
+          <line x1={0} y1={0} x2={a.dx} y2={a.dy} stroke="transparent" strokeWidth={8} />
+        </>
+      )}
+      {a.type === "rect" && (
+        <>
+          <rect x={-a.w / 2} y={-a.h / 2} width={a.w} height={a.h} fill="none" stroke={ink} />
+          <rect
+            x={-a.w / 2}
+            y={-a.h / 2}
+            width={a.w}
+            height={a.h}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={8}
+          />
+        </>
+      )}
+      {a.type === "image" && (
+        <image
+          href={a.href}
+          x={-a.w / 2}
+          y={-a.h / 2}
+          width={a.w}
+          height={a.h}
+          preserveAspectRatio="none"
+        />
+      )}
+      {a.type === "no-connect" && (
+        <>
+          <path
+            d={`M${-s},${-s}L${s},${s}M${s},${-s}L${-s},${s}`}
+            stroke="#2563eb"
+            strokeWidth={2}
+          />
+          <text x={-s} y={-s - 4} fontSize={8} fill={ink} className="select-none">
+            {a.name}
+          </text>
+          <circle r={2 * s} fill="transparent" />
+        </>
+      )}
+
+      {/* Selection highlight */}
+      {selected && (
+        <rect
+          x={bounds.x - 4}
+          y={bounds.y - 4}
+          width={bounds.w + 8}
+          height={bounds.h + 8}
+          fill="none"
+          stroke="#16a34a"
+          strokeDasharray={4}
+        />
+      )}
+    </g>
+  );
+});
+
+const samePath = (a: Point[], b: Point[]) =>
+  a === b || (a.length === b.length && a.every((p, i) => p.x === b[i].x && p.y === b[i].y));
+
+// Wire paths are recomputed on every edit; comparing them point by point
+// keeps unchanged wires from re-rendering
+export const WireShape = memo(
+  function WireShape({
+    id,
+    path,
+    selected,
+    onNet,
+    dimmed,
+    grabbable,
+  }: {
+    id: string;
+    path: Point[];
+    selected: boolean;
+    onNet: boolean;
+    dimmed: boolean;
+    // segments can be dragged (the select tool is active)
+    grabbable: boolean;
+  }) {
+    if (path.length < 2) return null;
+    return (
+      <g opacity={dimmed ? 0.25 : undefined}>
+        <polyline
+          points={path.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          stroke={selected ? "#16a34a" : onNet ? "#f59e0b" : "#2563eb"}
+          strokeWidth={onNet ? 3 : 2}
+          strokeLinejoin="round"
+        />
+        {/* wide invisible segments to grab */}
+        {grabbable &&
+          path
+            .slice(1)
+            .map((b, i) => (
+              <line
+                key={i}
+                x1={path[i].x}
+                y1={path[i].y}
+                x2={b.x}
+                y2={b.y}
+                stroke="transparent"
+                strokeWidth={8}
+                className={path[i].y === b.y ? "cursor-ns-resize" : "cursor-ew-resize"}
+                data-wire-id={id}
+                data-segment={i}
+              />
+            ))}
+      </g>
+    );
+  },
+  (a, b) =>
+    a.id === b.id &&
+    a.selected === b.selected &&
+    a.onNet === b.onNet &&
+    a.dimmed === b.dimmed &&
+    a.grabbable === b.grabbable &&
+    samePath(a.path, b.path)
+);
+
+export const FootprintShape = memo(function FootprintShape({
+  c,
+  selected,
+  dimmed,
+  visibility,
+}: {
+  c: SchematicComponent;
+  selected: boolean;
+  dimmed: boolean;
+  visibility: LayerVisibility;
+}) {
+  const fp = getFootprint(c.props.footprint);
+  if (!fp) return null;
+  const p = c.placement;
+  const copper = p.side === "top" ? "#d97706" : "#2563eb";
+  // plated pads show while either copper layer is visible
+  const padVisible = (drill?: number) =>
+    drill ? visibility.top || visibility.bottom : visibility[p.side];
+  const silk = p.side === "top" ? "#f8fafc" : "#94a3b8";
+  return (
+    <g
+      transform={`translate(${p.x},${p.y}) rotate(${p.rotation})${
+        p.side === "bottom" ? " scale(-1,1)" : ""
+      }`}
+      opacity={dimmed ? 0.25 : undefined}
+      data-component-id={c.id}
+      className="cursor-move"
+    >
+      <rect
+        x={-fp.body.w / 2}
+        y={-fp.body.h / 2}
+        width={fp.body.w}
+        height={fp.body.h}
+        fill="transparent"
+        stroke={visibility.silkscreen ? silk : "none"}
+        strokeWidth={0.12}
+      />
+      {fp.pads
+        .filter((pad) => padVisible(pad.drill))
+        .map((pad) =>
+          pad.shape === "round" ? (
+            <circle key={pad.number} cx={pad.x} cy={pad.y} r={pad.w / 2} fill={copper} />
+          ) : (
+            <rect
+              key={pad.number}
+              x={pad.x - pad.w / 2}
+              y={pad.y - pad.h / 2}
+              width={pad.w}
+              height={pad.h}
+              fill={copper}
+            />
+          )
+        )}
+      {fp.pads
+        .filter((pad) => pad.drill && padVisible(pad.drill))
+        .map((pad) => (
+          <circle
+            key={`drill-${pad.number}`}
+            cx={pad.x}
+            cy={pad.y}
+            r={pad.drill! / 2}
+            fill="#0f172a"
+          />
+        ))}
+      <text
+        x={0}
+        y={-fp.body.h / 2 - 0.6}
+        textAnchor="middle"
+        fontSize={1.2}
+        fill={silk}
+        display={visibility.silkscreen ? undefined : "none"}
+        transform={p.side === "bottom" ? "scale(-1,1)" : undefined}
+      >
+        {c.ref}
+      </text>
+      {selected && (
+        <rect
+          x={-fp.body.w / 2 - 0.8}
+          y={-fp.body.h / 2 - 0.8}
+          width={fp.body.w + 1.6}
+          height={fp.body.h + 1.6}
+          fill="none"
+          stroke="#16a34a"
+          strokeWidth={0.15}
+          strokeDasharray="0.5 0.3"
+        />
+      )}
+    </g>
+  );
+});
+
+// Another user's selection outlined and cursor drawn in their color. In
+// layout the parts are the flattened ones and the tracks are drawn too; on a
+// sheet the wires follow their analyzed paths.
+export const RemotePresence = memo(function RemotePresence({
+  peer,
+  presence,
+  layout,
+  components,
+  tracks,
+  wires,
+  paths,
+  zoom,
+}: {
+  peer: Peer;
+  presence: Presence;
+  layout: boolean;
+  components: SchematicComponent[];
+  tracks: Track[];
+  wires: Wire[];
+  paths: Map<string, Point[]>;
+  zoom: number;
+}) {
+  const ids = new Set(presence.selection);
+  const outline = { fill: "none", stroke: peer.color, strokeDasharray: 4, strokeWidth: 2 };
+  const marks = layout
+    ? [
+        ...components
+          .filter((c) => ids.has(c.id))
+          .map((c) => (
+            <circle
+              key={c.id}
+              cx={c.placement.x * MM}
+              cy={c.placement.y * MM}
+              r={6 * MM}
+              {...outline}
+            />
+          )),
+        ...tracks
+          .filter((t) => ids.has(t.id))
+          .map((t) => (
+            <polyline
+              key={t.id}
+              points={points(t.points.map((p) => ({ x: p.x * MM, y: p.y * MM })))}
+              {...outline}
+              strokeWidth={t.width * MM + 4}
+              strokeOpacity={0.5}
+              strokeDasharray={undefined}
+            />
+          )),
+      ]
+    : [
+        ...components
+          .filter((c) => ids.has(c.id))
+          .map((c) => <circle key={c.id} cx={c.x} cy={c.y} r={40} {...outline} />),
+        ...wires
+          .filter((w) => ids.has(w.id))
+          .map((w) => (
+            <polyline
+              key={w.id}
+              points={points(paths.get(w.id) ?? [])}
+              {...outline}
+              strokeWidth={6}
+              strokeOpacity={0.4}
+              strokeDasharray={undefined}
+            />
+          )),
+      ];
+  const cursor = presence.cursor;
+  return (
+    <g pointerEvents="none">
+      {marks}
+      {cursor && (
+        <g transform={`translate(${cursor.x},${cursor.y}) scale(${1 / zoom})`}>
+          <path
+            d="M0 0 L0 16 L4.5 12 L8 19 L10.5 18 L7.5 11 L13 11 Z"
+            fill={peer.color}
+            stroke="white"
+          />
+          <text x={14} y={24} fontSize={11} fill={peer.color}>
+            {peer.name}
+          </text>
+        </g>
+      )}
+    </g>
+  );
+});
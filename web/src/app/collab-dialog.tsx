@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+
+export type CollabSettings = { url: string; room: string; name: string };
+
+// Where to collaborate: the relay, the room everyone editing together joins,
+// and the name shown next to this user's cursor
+export function CollabDialog({
+  initial,
+  onConnect,
+  onClose,
+}: {
+  initial: CollabSettings;
+  onConnect: (settings: CollabSettings) => void;
+  onClose: () => void;
+}) {
+  const [settings, setSettings] = useState(initial);
+  const ready = settings.url.trim() && settings.room.trim() && settings.name.trim();
+
+  const field = "rounded border border-zinc-200 px-1";
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30">
+      <div className="flex w-[380px] flex-col gap-3 rounded bg-white p-4 shadow-xl text-sm">
+        <div className="text-sm font-semibold">Collaborate</div>
+        <label className="flex flex-col">
+          Relay
+          <input
+            className={field}
+            value={settings.url}
+            onChange={(e) => setSettings({ ...settings, url: e.target.value })}
+          />
+        </label>
+        <label className="flex flex-col">
+          Room
+          <input
+            className={field}
+            value={settings.room}
+            onChange={(e) => setSettings({ ...settings, room: e.target.value })}
+          />
+        </label>
+        <label className="flex flex-col">
+          Your name
+          <input
+            className={field}
+            value={settings.name}
+            onChange={(e) => setSettings({ ...settings, name: e.target.value })}
+          />
+        </label>
+        <div className="text-xs text-zinc-500">
+          Joining a room that already has a design replaces the open one with it; an empty room
+          starts from this project.
+        </div>
+        <div className="flex justify-end gap-2">
+          <button className="rounded border border-zinc-200 px-2 py-1" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="rounded border border-blue-500 px-2 py-1 disabled:opacity-40"
+            disabled={!ready}
+            onClick={() =>
+              onConnect({
+                url: settings.url.trim(),
+                room: settings.room.trim(),
+                name: settings.name.trim(),
+              })
+            }
+          >
+            Connect
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { memo, useRef } from "react";
+import type { Point } from "@/core/design";
+import type { Bounds } from "@/core/viewport";
+
+// What the minimap draws, in canvas units: part outlines, wire or track
+// paths and, on the board, its outline
+export type MinimapShapes = { boxes: Bounds[]; paths: Point[][]; outline: Point[] | null };
+
+const WIDTH = 180;
+const HEIGHT = 120;
+
+const points = (path: Point[]) => path.map((p) => `${p.x},${p.y}`).join(" ");
+
+// Drawn once per edit, not on every pan
+const MinimapContent = memo(function MinimapContent({
+  shapes,
+  dark,
+}: {
+  shapes: MinimapShapes;
+  dark: boolean;
+}) {
+  const ink = dark ? "#e2e8f0" : "#52525b";
+  return (
+    <g pointerEvents="none">
+      {shapes.outline && (
+        <polygon
+          points={points(shapes.outline)}
+          fill="#0f172a"
+          stroke="#facc15"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {shapes.paths.map((path, i) => (
+        <polyline
+          key={i}
+          points={points(path)}
+          fill="none"
+          stroke={dark ? "#f59e0b" : "#2563eb"}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+      {shapes.boxes.map((b, i) => (
+        <rect key={i} x={b.x} y={b.y} width={b.w} height={b.h} fill={ink} />
+      ))}
+    </g>
+  );
+});
+
+// Overview of the whole design in a corner of the canvas with the area in
+// view outlined. Pressing moves the view there; dragging keeps it following.
+export function Minimap({
+  bounds,
+  shapes,
+  visible,
+  dark,
+  onCenter,
+}: {
+  // area the minimap covers
+  bounds: Bounds;
+  shapes: MinimapShapes;
+  // area in view
+  visible: Bounds;
+  dark: boolean;
+  onCenter: (at: Point) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  // where in the view rectangle it was grabbed, relative to its centre
+  const grab = useRef<Point | null>(null);
+  const pad = Math.max(bounds.w, bounds.h) * 0.05 + 10;
+
+  const toCanvas = (e: React.PointerEvent): Point => {
+    const svg = svgRef.current!;
+    const at = svg.createSVGPoint();
+    at.x = e.clientX;
+    at.y = e.clientY;
+    const p = at.matrixTransform(svg.getScreenCTM()!.inverse());
+    return { x: p.x, y: p.y };
+  };
+  const center = { x: visible.x + visible.w / 2, y: visible.y + visible.h / 2 };
+
+  return (
+    <svg
+      ref={svgRef}
+      width={WIDTH}
+      height={HEIGHT}
+      viewBox={`${bounds.x - pad} ${bounds.y - pad} ${bounds.w + 2 * pad} ${bounds.h + 2 * pad}`}
+      className={`absolute bottom-3 right-3 z-10 touch-none rounded border border-zinc-300 shadow ${
+        dark ? "bg-slate-800" : "bg-white/90"
+      }`}
+      aria-label="Minimap"
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const p = toCanvas(e);
+        const inside =
+          p.x >= visible.x &&
+          p.x <= visible.x + visible.w &&
+          p.y >= visible.y &&
+          p.y <= visible.y + visible.h;
+        grab.current = inside ? { x: p.x - center.x, y: p.y - center.y } : { x: 0, y: 0 };
+        onCenter({ x: p.x - grab.current.x, y: p.y - grab.current.y });
+      }}
+      onPointerMove={(e) => {
+        if (!grab.current) return;
+        const p = toCanvas(e);
+        onCenter({ x: p.x - grab.current.x, y: p.y - grab.current.y });
+      }}
+      onPointerUp={() => (grab.current = null)}
+      onPointerCancel={() => (grab.current = null)}
+    >
+      <MinimapContent shapes={shapes} dark={dark} />
+      <rect
+        x={visible.x}
+        y={visible.y}
+        width={visible.w}
+        height={visible.h}
+        fill="#3b82f6"
+        fillOpacity={0.12}
+        stroke="#3b82f6"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+        className="cursor-move"
+      />
+    </svg>
+  );
+}
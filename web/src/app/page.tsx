@@ -1,283 +1,1268 @@
 "use client";
 
 import { nanoid } from "nanoid";
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
+import {
+  commit,
+  createHistory,
+  type History,
+  type HistoryEntry,
+  redo,
+  redoLabel,
+  seal,
+  undo,
+  undoLabel,
+} from "@/core/history";
+import {
+  type Annotation,
+  type AnnotationShape,
+  type AnnotationType,
+  type ComponentKind,
+  type CopperLayer,
+  DEFAULT_TRACK_WIDTH,
+  type Design,
+  type DrcRules,
+  type LibraryPart,
+  emptyDesign,
+  type Placement,
+  type Point,
+  type SchematicComponent,
+  type Track,
+  type Via,
+  type Wire,
+  type WireEnd,
+} from "@/core/design";
+import {
+  annotate,
+  bomToCsv,
+  buildBom,
+  FIELD_LABELS,
+  KIND_FIELDS,
+} from "@/core/parts";
+import { runDrc } from "@/core/drc";
+import { applyOps, CollabDoc, type Op, PEER_COLORS, type Peer, type Presence } from "@/core/collab";
+import { CollabSession, type CollabStatus } from "@/core/collab-client";
+import { diffDesigns } from "@/core/diff";
+import {
+  connect,
+  deleteItems,
+  moveComponents,
+  placeAnnotation,
+  placeComponent,
+  rotateComponents,
+} from "@/core/edit";
+import { ANNOTATION_LABELS, annotationOutline, NEW_ANNOTATIONS } from "@/core/annotations";
+import {
+  autoSnapshot,
+  createProject,
+  deleteProject,
+  duplicateProject,
+  importLocalStorage,
+  listProjects,
+  listSnapshots,
+  openProject,
+  type ProjectInfo,
+  renameProject,
+  saveProject,
+  type Snapshot,
+} from "@/core/projects";
+import { decodeShare, encodeShare, SHARE_URL_WARN, shareUrl } from "@/core/share";
+import { buildFabrication, fabricationFiles } from "@/core/fabrication";
+import { FOOTPRINT_NAMES, getFootprint } from "@/core/footprints";
+import { snap } from "@/core/geometry";
+import {
+  flattenDesign,
+  hierarchicalNetlist,
+  locate,
+  placeParts,
+  removeSheet,
+  sheetOf,
+  syncSheetSymbols,
+  withSheet,
+  wouldRecurse,
+} from "@/core/hierarchy";
+import { LAYOUT_GRID, MM, type PlacedPad, placedPads, ratsnest } from "@/core/layout";
+import {
+  BUILTIN_LIBRARY,
+  embedPart,
+  newLibraryPart,
+  parseLibrary,
+  searchParts,
+  serializeLibrary,
+  syncLibraryParts,
+} from "@/core/library";
+import { pinKey } from "@/core/netlist";
+import { normalizeDesign, parseDesign } from "@/core/normalize";
+import { DesignFormatError, formatIssue } from "@/core/validate";
+import {
+  copperClusters,
+  hitPad,
+  resolveCopperNets,
+  route45,
+  VIA_DIAMETER,
+  VIA_DRILL,
+} from "@/core/routing";
+import {
+  cloneFragment,
+  extractFragment,
+  type Fragment,
+  wiresWith,
+} from "@/core/selection";
+import {
+  DEFAULT_ERC_SEVERITIES,
+  ERC_RULES,
+  type ErcSeverities,
+  type ErcSeverity,
+  runErc,
+} from "@/core/erc";
+import { buildCircuit, formatSI, solveDcOperatingPoint, toSpiceDeck } from "@/core/spice";
+import {
+  analyzeWires,
+  hitSegment,
+  pathContains,
+  pinPositions,
+  route90,
+  storedPoints,
+  wireGroup,
+  wirePath,
+} from "@/core/wires";
+import { readKicadSchematic, writeKicadNetlist, writeKicadSchematic } from "@/core/kicad";
+import {
+  boundsOf,
+  centerOn,
+  fitView,
+  type View,
+  visibleArea,
+  zoomAbout,
+} from "@/core/viewport";
+import { makeZip, type ZipEntry } from "@/core/zip";
+import {
+  AnnotationItem,
+  FootprintShape,
+  type LayerVisibility,
+  RemotePresence,
+  SchematicSymbol,
+  symbolReach,
+  WireShape,
+} from "./canvas-items";
+import { CollabDialog, type CollabSettings } from "./collab-dialog";
+import { Minimap, type MinimapShapes } from "./minimap";
+import { PlotDialog } from "./plot-dialog";
+import { ProjectManager } from "./project-manager";
+import { PartGraphics, SymbolEditor } from "./symbol-editor";
 
-type ComponentKind = "resistor" | "capacitor" | "ic" | "power" | "ground" | "led";
+type Mode = "schematic" | "layout";
+type Tool =
+  | { type: "select" }
+  | { type: "place"; kind: ComponentKind; sheetId?: string; partId?: string }
+  | { type: "wire" }
+  | { type: "route" }
+  | { type: "annotate"; shape: AnnotationShape };
 
-type Pin = {
-  id: string;
-  name: string;
-  // pin position relative to component origin
-  x: number;
-  y: number;
+// Track being drawn with the route tool. Segments on the previous layer and
+// the vias between them are kept here until the whole route is committed.
+type RouteInProgress = {
+  net: string;
+  layer: CopperLayer;
+  points: Point[];
+  tracks: Track[];
+  vias: Via[];
 };
 
-type SchematicComponent = {
-  id: string;
-  kind: ComponentKind;
-  x: number;
-  y: number;
-  rotation: number; // degrees
-  label: string;
-  pins: Pin[];
+// What a drag shows before it lands in the design on release, by id: moved
+// parts, wires and annotations of the open sheet, or moved board placements
+type DragPreview = {
+  components: Map<string, SchematicComponent>;
+  wires: Map<string, Wire>;
+  annotations: Map<string, Annotation>;
+  placements: Map<string, Placement>;
 };
 
-type Wire = {
-  id: string;
-  from: { componentId: string; pinId: string } | null;
-  to: { componentId: string; pinId: string } | null;
+const previewOf = (p: Partial<DragPreview>): DragPreview => ({
+  components: new Map(),
+  wires: new Map(),
+  annotations: new Map(),
+  placements: new Map(),
+  ...p,
+});
+
+// Largest side of an imported picture in pixels, and in canvas units when
+// first placed
+const IMAGE_MAX_PX = 1024;
+const IMAGE_SIZE = 200;
+
+// Fields of each annotation kind the properties panel edits: name, label and
+// whether it must stay above zero
+const ANNOTATION_FIELDS: Record<AnnotationType, [string, string, boolean][]> = {
+  text: [
+    ["text", "Text", false],
+    ["size", "Font size", true],
+  ],
+  line: [
+    ["dx", "Length x", false],
+    ["dy", "Length y", false],
+  ],
+  arrow: [
+    ["dx", "Length x", false],
+    ["dy", "Length y", false],
+  ],
+  rect: [
+    ["w", "Width", true],
+    ["h", "Height", true],
+  ],
+  image: [
+    ["w", "Width", true],
+    ["h", "Height", true],
+  ],
+  "no-connect": [["name", "Name", false]],
 };
 
-type Mode = "schematic" | "layout";
-type Tool = { type: "select" } | { type: "place"; kind: ComponentKind } | { type: "wire" };
+// Wire being drawn with the wire tool: where it started (a pin, or null for
+// a free point) and its vertices so far, starting with the start point
+type WireDraft = { from: WireEnd | null; points: Point[] };
+
+const LAYER_COLORS: Record<CopperLayer, string> = { top: "#dc2626", bottom: "#2563eb" };
+
+// Snap and grid pitch: canvas units on the schematic, mm on the board
+type GridPitch = { schematic: number; layout: number };
 
-type Design = {
-  components: SchematicComponent[];
-  wires: Wire[];
+const DEFAULT_GRID: GridPitch = { schematic: 10, layout: LAYOUT_GRID };
+const GRID_CHOICES: { [K in keyof GridPitch]: number[] } = {
+  schematic: [5, 10, 20, 50],
+  layout: [0.25, 0.5, 1, 1.27, 2.54],
 };
 
-function snap(n: number, grid = 10) {
-  return Math.round(n / grid) * grid;
-}
+// Grid lines closer than this many pixels are thinned out
+const GRID_MIN_PX = 8;
 
-function getDefaultPins(kind: ComponentKind): Pin[] {
-  switch (kind) {
-    case "resistor":
-      return [
-        { id: nanoid(), name: "1", x: -20, y: 0 },
-        { id: nanoid(), name: "2", x: 20, y: 0 },
-      ];
-    case "capacitor":
-      return [
-        { id: nanoid(), name: "+", x: -20, y: 0 },
-        { id: nanoid(), name: "-", x: 20, y: 0 },
-      ];
-    case "led":
-      return [
-        { id: nanoid(), name: "A", x: -20, y: 0 },
-        { id: nanoid(), name: "K", x: 20, y: 0 },
-      ];
-    case "power":
-      return [{ id: nanoid(), name: "+V", x: 0, y: -20 }];
-    case "ground":
-      return [{ id: nanoid(), name: "GND", x: 0, y: 20 }];
-    case "ic":
-      return [
-        { id: nanoid(), name: "1", x: -30, y: -20 },
-        { id: nanoid(), name: "2", x: -30, y: 0 },
-        { id: nanoid(), name: "3", x: -30, y: 20 },
-        { id: nanoid(), name: "4", x: 30, y: -20 },
-        { id: nanoid(), name: "5", x: 30, y: 0 },
-        { id: nanoid(), name: "6", x: 30, y: 20 },
-      ];
-  }
-}
+// Items this far outside the view (in canvas units) are still drawn, so
+// texts and outlines reaching past their part's bounds do not pop in
+const CULL_MARGIN = 100;
 
-function rotatePoint(x: number, y: number, deg: number) {
-  const rad = (deg * Math.PI) / 180;
-  const cos = Math.cos(rad);
-  const sin = Math.sin(rad);
-  return { x: x * cos - y * sin, y: x * sin + y * cos };
-}
+// Where the open design comes from: a saved project, or a shared link that
+// opens read-only until it is forked into a project of its own
+type DesignSource = { type: "project"; id: string } | { type: "shared" };
 
-function pinAbsPosition(c: SchematicComponent, p: Pin) {
-  const rotated = rotatePoint(p.x, p.y, c.rotation);
-  return { x: c.x + rotated.x, y: c.y + rotated.y };
+// Design carried by a #view=<payload> link, or by a bare payload from before
+// the viewer existed
+function sharedPayload(hash: string): string | null {
+  if (hash.startsWith("view=")) return hash.slice(5);
+  return hash && !hash.includes("=") ? hash : null;
 }
 
-function encodeDesign(design: Design): string {
-  const json = JSON.stringify(design);
-  return typeof window === "undefined"
-    ? ""
-    : btoa(unescape(encodeURIComponent(json)));
+function untitledName(projects: ProjectInfo[]) {
+  const names = new Set(projects.map((p) => p.name));
+  let n = 1;
+  while (names.has(n === 1 ? "Untitled" : `Untitled ${n}`)) n++;
+  return n === 1 ? "Untitled" : `Untitled ${n}`;
 }
 
-function decodeDesign(encoded: string): Design | null {
-  try {
-    const json = decodeURIComponent(escape(atob(encoded)));
-    const parsed = JSON.parse(json) as Design;
-    return parsed;
-  } catch {
-    return null;
-  }
-}
+// Keys pressed in a form field belong to it, not to the canvas
+const typing = (e: KeyboardEvent) =>
+  e.target instanceof HTMLInputElement ||
+  e.target instanceof HTMLTextAreaElement ||
+  e.target instanceof HTMLSelectElement;
 
 export default function Home() {
-  const [design, setDesign] = useState<Design>({ components: [], wires: [] });
+  const [history, setHistory] = useState<History<Design>>(() =>
+    createHistory<Design>(emptyDesign())
+  );
+  const design = history.present;
   const [mode, setMode] = useState<Mode>("schematic");
+  // child sheet open in the schematic editor; null is the root sheet
+  const [activeSheet, setActiveSheet] = useState<string | null>(null);
   const [tool, setTool] = useState<Tool>({ type: "select" });
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // marquee rectangle in world coordinates while box-selecting
+  const [marquee, setMarquee] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(
+    null
+  );
+  const [routing, setRouting] = useState<RouteInProgress | null>(null);
+  const [routeCursor, setRouteCursor] = useState<Point | null>(null);
+  const [wireDraft, setWireDraft] = useState<WireDraft | null>(null);
+  const [wireCursor, setWireCursor] = useState<Point | null>(null);
+  const [dragPreview, setDragPreview] = useState<DragPreview | null>(null);
+  const [activeLayer, setActiveLayer] = useState<CopperLayer>("top");
+  const [layerVisibility, setLayerVisibility] = useState<LayerVisibility>({
+    top: true,
+    bottom: true,
+    silkscreen: true,
+    ratsnest: true,
+  });
+  const clipboard = useRef<{ fragment: Fragment; pastes: number } | null>(null);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [zoom, setZoom] = useState(1);
   const [isPanning, setIsPanning] = useState(false);
   const panStart = useRef<{ x: number; y: number } | null>(null);
+  // space held down: dragging anywhere pans
+  const [spacePan, setSpacePan] = useState(false);
+  // two-finger gesture in progress: where it started and the view then
+  const pinch = useRef<{ distance: number; mid: Point; view: View } | null>(null);
+  const [grid, setGrid] = useState<GridPitch>(DEFAULT_GRID);
+  const [showMinimap, setShowMinimap] = useState(true);
   const svgRef = useRef<SVGSVGElement | null>(null);
+  // canvas size in pixels, for drawing only what is in view
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
   const [message, setMessage] = useState<string>("");
+  // outcome of the last import: what was dropped or why the file was refused
+  const [report, setReport] = useState<{
+    title: string;
+    lines: string[];
+    action?: { label: string; run: () => void };
+  } | null>(null);
+  const [showOperatingPoint, setShowOperatingPoint] = useState(false);
+  const [ercSeverities, setErcSeverities] = useState<ErcSeverities>(DEFAULT_ERC_SEVERITIES);
+  const [showErcRules, setShowErcRules] = useState(false);
+  const [showDrcRules, setShowDrcRules] = useState(false);
+  // DRC marker last clicked in the list
+  const [focusedDrc, setFocusedDrc] = useState<number | null>(null);
+  // the user's own part library, kept in the browser
+  const [userParts, setUserParts] = useState<LibraryPart[]>([]);
+  const [paletteQuery, setPaletteQuery] = useState("");
+  const [editingPart, setEditingPart] = useState<LibraryPart | null>(null);
+  // null until the last project (or the shared link) has loaded
+  const [source, setSource] = useState<DesignSource | null>(null);
+  const readOnly = source?.type === "shared";
+  const projectId = source?.type === "project" ? source.id : null;
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const [showProjects, setShowProjects] = useState(false);
+  const [showPlot, setShowPlot] = useState(false);
+  // net picked in the netlist or by alt-clicking; the rest of the canvas dims
+  const [highlightNet, setHighlightNet] = useState<string | null>(null);
+  const [partQuery, setPartQuery] = useState("");
+  // snapshots of the open project shown in the project manager
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  // length of the share link for the current design, once encoded
+  const [shareSize, setShareSize] = useState<number | null>(null);
+  // live collaboration: this browser's replica of the room, its relay
+  // connection, and local edits recorded while merging remote ones
+  const collabDoc = useRef<CollabDoc | null>(null);
+  const collabSession = useRef<CollabSession | null>(null);
+  const collabOutbox = useRef<Op[]>([]);
+  // the design as last rendered, for relay messages handled outside React
+  const collabPresent = useRef(history.present);
+  const collabCursor = useRef<{ at: Point | null; time: number }>({ at: null, time: 0 });
+  const [collab, setCollab] = useState<{ room: string; status: CollabStatus } | null>(null);
+  const [remotePeers, setRemotePeers] = useState<
+    Record<string, { peer: Peer; presence: Presence | null }>
+  >({});
+  const [showCollab, setShowCollab] = useState(false);
+
+  const stopCollab = () => {
+    collabSession.current?.close();
+    collabSession.current = null;
+    collabDoc.current = null;
+    collabOutbox.current = [];
+    setCollab(null);
+    setRemotePeers({});
+  };
 
-  // Load from URL hash or localStorage
+  // Make an opened project the working design
+  const showProject = (opened: Awaited<ReturnType<typeof openProject>>) => {
+    stopCollab();
+    setSource({ type: "project", id: opened.info.id });
+    setHistory({ past: opened.past, present: opened.design, future: opened.future, group: null });
+    setActiveSheet(null);
+    setSelectedIds([]);
+  };
+
+  // Load the shared design in the URL hash, or the last opened project
   useEffect(() => {
     if (typeof window === "undefined") return;
-    const hash = window.location.hash.replace(/^#/, "");
-    if (hash) {
-      const decoded = decodeDesign(hash);
-      if (decoded) {
-        setDesign(decoded);
-        return;
-      }
+    const savedErc = localStorage.getItem("fluxlite-erc");
+    if (savedErc) {
+      try {
+        setErcSeverities({ ...DEFAULT_ERC_SEVERITIES, ...JSON.parse(savedErc) });
+      } catch {}
     }
-    const saved = localStorage.getItem("fluxlite-design");
-    if (saved) {
+    const savedGrid = localStorage.getItem("fluxlite-grid");
+    if (savedGrid) {
       try {
-        setDesign(JSON.parse(saved));
+        setGrid({ ...DEFAULT_GRID, ...JSON.parse(savedGrid) });
       } catch {}
     }
+    const savedLibrary = localStorage.getItem("fluxlite-library");
+    if (savedLibrary) setUserParts(parseLibrary(savedLibrary).parts);
+    const payload = sharedPayload(window.location.hash.replace(/^#/, ""));
+    if (payload) {
+      setSource({ type: "shared" });
+      decodeShare(payload)
+        .then((shared) => setHistory(createHistory(shared)))
+        .catch((err) => setMessage(`This share link does not open: ${err.message ?? err}`));
+      return;
+    }
+    (async () => {
+      const problems = await importLocalStorage(localStorage);
+      if (problems.length) {
+        setMessage(`Some saved designs could not be moved to projects: ${problems.join("; ")}`);
+      }
+      let saved = await listProjects();
+      if (saved.length === 0) {
+        await createProject("Untitled", emptyDesign());
+        saved = await listProjects();
+      }
+      setProjects(saved);
+      showProject(await openProject(saved[0].id));
+    })().catch((err) =>
+      setMessage(`Saved project could not be opened: ${err instanceof Error ? err.message : err}`)
+    );
   }, []);
 
-  // Persist to localStorage (debounced-ish)
+  // Persist the open project's design and undo history (debounced-ish).
+  // Shared designs are only viewed, never stored.
   useEffect(() => {
+    if (source?.type !== "project") return;
     const id = setTimeout(() => {
-      if (typeof window !== "undefined") {
-        localStorage.setItem("fluxlite-design", JSON.stringify(design));
-      }
+      saveProject(source.id, history.present, { past: history.past, future: history.future }).catch(
+        (err) => setMessage(`Project could not be saved: ${err instanceof Error ? err.message : err}`)
+      );
     }, 300);
     return () => clearTimeout(id);
-  }, [design]);
+  }, [history.present, history.past, history.future, source]);
 
-  const addComponent = (kind: ComponentKind, x: number, y: number) => {
-    const component: SchematicComponent = {
-      id: nanoid(),
-      kind,
-      x: snap(x),
-      y: snap(y),
-      rotation: 0,
-      label: kind.toUpperCase(),
-      pins: getDefaultPins(kind),
+  // Snapshot the project once editing pauses; autoSnapshot() decides whether
+  // enough time has passed since the last one
+  useEffect(() => {
+    if (source?.type !== "project") return;
+    const id = setTimeout(() => {
+      autoSnapshot(source.id, history.present).catch(() => {});
+    }, 5000);
+    return () => clearTimeout(id);
+  }, [history.present, source]);
+
+  // Encoding is async (deflate), so the share link size trails edits a little
+  useEffect(() => {
+    let current = true;
+    const id = setTimeout(() => {
+      encodeShare(history.present).then((encoded) => {
+        if (current) setShareSize(shareUrl(encoded).length);
+      });
+    }, 500);
+    return () => {
+      current = false;
+      clearTimeout(id);
     };
-    setDesign((d) => ({ ...d, components: [...d.components, component] }));
+  }, [history.present]);
+
+  const saveUserParts = (parts: LibraryPart[]) => {
+    setUserParts(parts);
+    localStorage.setItem("fluxlite-library", serializeLibrary("My parts", parts));
   };
 
-  const deleteSelected = () => {
-    if (!selectedId) return;
-    setDesign((d) => ({
-      components: d.components.filter((c) => c.id !== selectedId),
-      wires: d.wires.filter(
-        (w) => w.from?.componentId !== selectedId && w.to?.componentId !== selectedId
-      ),
-    }));
-    setSelectedId(null);
+  // Everything placeable: the user's parts, the built-ins, then parts that
+  // only exist in this design (opened from someone else's file)
+  const libraryParts = [...userParts, ...BUILTIN_LIBRARY];
+  const allParts = [
+    ...libraryParts,
+    ...design.library.filter((p) => !libraryParts.some((q) => q.id === p.id)),
+  ];
+
+  // Built-in parts are read-only; editing one starts a copy in the user library
+  const editPart = (part: LibraryPart) => {
+    setEditingPart(
+      part.id.startsWith("builtin:") ? { ...part, id: nanoid(), name: `${part.name} copy` } : part
+    );
+  };
+
+  const saveLibraryPart = (part: LibraryPart) => {
+    setEditingPart(null);
+    saveUserParts(
+      userParts.some((p) => p.id === part.id)
+        ? userParts.map((p) => (p.id === part.id ? part : p))
+        : [...userParts, part]
+    );
+    // parts already placed follow the new definition
+    if (design.library.some((p) => p.id === part.id)) apply("Edit part", (d) => embedPart(d, part));
+  };
+
+  const deleteLibraryPart = (id: string) => {
+    saveUserParts(userParts.filter((p) => p.id !== id));
+  };
+
+  const exportLibrary = () => {
+    download("fluxlite-library.json", serializeLibrary("My parts", userParts), "application/json");
+  };
+
+  // Parts from a library file join the user library, replacing same-id parts
+  const importLibrary: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const { parts, errors } = parseLibrary(String(reader.result));
+      const ids = new Set(parts.map((p) => p.id));
+      saveUserParts([...userParts.filter((p) => !ids.has(p.id)), ...parts]);
+      const skipped = errors.length ? `, ${errors.length} skipped: ${errors.join("; ")}` : "";
+      setMessage(`Imported ${parts.length} part${parts.length === 1 ? "" : "s"}${skipped}`);
+      setTimeout(() => setMessage(""), errors.length ? 5000 : 1500);
+    };
+    reader.readAsText(file);
+    e.currentTarget.value = "";
+  };
+
+  // A picture becomes the image tool's shape. It is stored in the design as
+  // a JPEG no larger than IMAGE_MAX_PX, so files stay small and the PDF and
+  // KiCad exports can embed it.
+  const importImage: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const k = Math.min(1, IMAGE_MAX_PX / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * k));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * k));
+      const ctx = canvas.getContext("2d")!;
+      // JPEG has no transparency
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      const scale = IMAGE_SIZE / Math.max(canvas.width, canvas.height);
+      setTool({
+        type: "annotate",
+        shape: {
+          type: "image",
+          href: canvas.toDataURL("image/jpeg", 0.85),
+          w: Math.round(canvas.width * scale),
+          h: Math.round(canvas.height * scale),
+        },
+      });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      setMessage(`${file.name} is not an image this browser can read`);
+      setTimeout(() => setMessage(""), 2000);
+    };
+    img.src = url;
+    e.currentTarget.value = "";
+  };
+
+  const setErcSeverity = (rule: keyof ErcSeverities, severity: ErcSeverity) => {
+    const next = { ...ercSeverities, [rule]: severity };
+    setErcSeverities(next);
+    localStorage.setItem("fluxlite-erc", JSON.stringify(next));
+  };
+
+  const setGridPitch = (kind: keyof GridPitch, pitch: number) => {
+    const next = { ...grid, [kind]: pitch };
+    setGrid(next);
+    localStorage.setItem("fluxlite-grid", JSON.stringify(next));
+  };
+
+  // Every design mutation goes through here so it lands in the undo history.
+  // Commits sharing a coalesce key merge into one step until the group is sealed.
+  const apply = (label: string, recipe: (d: Design) => Design, coalesce?: string) => {
+    if (readOnly) return;
+    setHistory((h) =>
+      commit(h, label, syncSheetSymbols(syncLibraryParts(recipe(h.present))), coalesce)
+    );
   };
 
-  const startWireFromPin = (componentId: string, pinId: string) => {
-    setTool({ type: "wire" });
-    setDesign((d) => ({
+  // undo can remove the open sheet; fall back to the root
+  const sheetId = design.sheets.some((s) => s.id === activeSheet) ? activeSheet : null;
+  const view = sheetOf(design, sheetId);
+  // the whole hierarchy with every sheet instance expanded
+  const flat = useMemo(() => flattenDesign(design), [design]);
+  // wire geometry of the whole hierarchy, shared with the netlist
+  const flatWires = useMemo(() => analyzeWires(flat), [flat]);
+  // wire geometry of the open sheet: full paths, junction dots. A root sheet
+  // without instances flattens to itself, so its analysis is reused.
+  const wireAnalysis = useMemo(
+    () =>
+      sheetId === null &&
+      flat.components.length === design.components.length &&
+      flat.wires.length === design.wires.length
+        ? flatWires
+        : analyzeWires(sheetOf(design, sheetId)),
+    [design, sheetId, flat, flatWires]
+  );
+  // where every pin of the open sheet is, by pinKey()
+  const pinIndex = useMemo(() => pinPositions(view.components), [view.components]);
+
+  // Schematic edits land on the sheet being edited
+  const applySheet = (label: string, recipe: (s: Fragment) => Fragment, coalesce?: string) => {
+    apply(label, (d) => withSheet(d, sheetId, recipe(sheetOf(d, sheetId))), coalesce);
+  };
+
+  const openSheet = (id: string | null) => {
+    setActiveSheet(id);
+    setSelectedIds([]);
+  };
+
+  const addSheet = () => {
+    const id = nanoid();
+    const name = `Sheet${design.sheets.length + 1}`;
+    apply("Add sheet", (d) => ({
       ...d,
-      wires: [...d.wires, { id: nanoid(), from: { componentId, pinId }, to: null }],
+      sheets: [...d.sheets, { id, name, components: [], wires: [], annotations: [] }],
     }));
+    openSheet(id);
   };
 
-  const completeWireToPin = (componentId: string, pinId: string) => {
-    setDesign((d) => {
-      const wires = [...d.wires];
-      for (let i = wires.length - 1; i >= 0; i--) {
-        const w = wires[i];
-        if (w.to === null && w.from) {
-          if (w.from.componentId === componentId && w.from.pinId === pinId) {
-            // same pin - cancel
-            wires.pop();
-            setTool({ type: "select" });
-            return { ...d, wires };
-          }
-          wires[i] = { ...w, to: { componentId, pinId } };
-          break;
-        }
+  const renameSheet = (id: string, name: string) => {
+    apply(
+      "Rename sheet",
+      (d) => ({ ...d, sheets: d.sheets.map((s) => (s.id === id ? { ...s, name } : s)) }),
+      `sheet-name:${id}`
+    );
+  };
+
+  const deleteSheet = (id: string) => {
+    apply("Delete sheet", (d) => removeSheet(d, id));
+    openSheet(null);
+  };
+
+  const sealHistory = () => setHistory((h) => seal(h));
+  const undoDesign = () => !readOnly && setHistory((h) => undo(h));
+  const redoDesign = () => !readOnly && setHistory((h) => redo(h));
+
+  // refId is the child sheet of a sheet symbol or the library part to place
+  const addComponent = (kind: ComponentKind, x: number, y: number, refId?: string) => {
+    const part = kind === "part" ? allParts.find((p) => p.id === refId) : undefined;
+    if (kind === "part" && !part) return;
+    if (kind === "sheet" && refId && wouldRecurse(design, refId, sheetId)) {
+      const name = design.sheets.find((s) => s.id === refId)?.name;
+      setMessage(`${name} cannot be placed inside itself`);
+      setTimeout(() => setMessage(""), 2000);
+      return;
+    }
+    apply(part ? `Add ${part.name}` : `Add ${kind}`, (d) =>
+      placeComponent(d, sheetId, kind, { x, y }, { sheet: refId, part }, grid.schematic)
+    );
+  };
+
+  const deleteSelected = () => {
+    if (selectedIds.length === 0) return;
+    // parts inside sheet instances can only be deleted from their sheet
+    const target = mode === "layout" ? null : sheetId;
+    apply("Delete", (d) => deleteItems(d, target, selectedIds));
+    setSelectedIds([]);
+  };
+
+  const copySelected = () => {
+    if (selectedIds.length === 0) return;
+    clipboard.current = { fragment: extractFragment(view, selectedIds), pastes: 0 };
+  };
+
+  const cutSelected = () => {
+    copySelected();
+    deleteSelected();
+  };
+
+  // Insert a cloned fragment and select the new items
+  const insertFragment = (fragment: Fragment, offset: number, label: string) => {
+    const { components, wires, annotations } = fragment;
+    if (components.length === 0 && wires.length === 0 && annotations.length === 0) return;
+    const clone = cloneFragment(fragment, offset, offset);
+    applySheet(label, (s) => ({
+      components: annotate([...s.components, ...clone.components]),
+      wires: [...s.wires, ...clone.wires],
+      annotations: [...s.annotations, ...clone.annotations],
+    }));
+    setSelectedIds(
+      [...clone.components, ...clone.wires, ...clone.annotations].map((item) => item.id)
+    );
+  };
+
+  const paste = () => {
+    const clip = clipboard.current;
+    if (!clip) return;
+    clip.pastes++;
+    insertFragment(clip.fragment, 20 * clip.pastes, "Paste");
+  };
+
+  const duplicateSelected = () => {
+    insertFragment(extractFragment(view, selectedIds), 20, "Duplicate");
+  };
+
+  // Wire tool: each click adds an orthogonal bend. Clicking a pin or another
+  // wire ends the wire there; double-click or Escape leaves the end free.
+  const wireClick = (pt: Point, end: WireEnd | null = null) => {
+    const at = (end && getPinAbs(end.componentId, end.pinId)) || pt;
+    if (!wireDraft) {
+      setWireDraft({ from: end, points: [at] });
+      setWireCursor(at);
+      return;
+    }
+    const last = wireDraft.points[wireDraft.points.length - 1];
+    const points = [...wireDraft.points, ...route90(last, at)];
+    const onWire = Array.from(wireAnalysis.paths.values()).some((p) => pathContains(p, at));
+    if (end || onWire) finishWire({ ...wireDraft, points }, end);
+    else setWireDraft({ ...wireDraft, points });
+  };
+
+  const finishWire = (draft: WireDraft, to: WireEnd | null) => {
+    setWireDraft(null);
+    setWireCursor(null);
+    setTool({ type: "select" });
+    applySheet("Add wire", (s) => connect(s, draft.from, to, draft.points));
+  };
+
+  const getPinAbs = (componentId: string, pinId: string) =>
+    pinIndex.get(pinKey(componentId, pinId)) ?? null;
+
+  const flatIndex = useMemo(
+    () => new Map(flat.components.map((c) => [c.id, c])),
+    [flat.components]
+  );
+
+  const netlist = useMemo(() => hierarchicalNetlist(flat, flatWires), [flat, flatWires]);
+
+  const circuit = useMemo(() => buildCircuit(flat, netlist), [flat, netlist]);
+
+  const operatingPoint = useMemo(
+    () => (showOperatingPoint ? solveDcOperatingPoint(circuit) : null),
+    [showOperatingPoint, circuit]
+  );
+
+  const ercViolations = useMemo(
+    () => runErc(flat, netlist, ercSeverities),
+    [flat, netlist, ercSeverities]
+  );
+
+  // parts on screen: the open sheet, or every instance on the board
+  const visibleComponents = mode === "layout" ? flat.components : view.components;
+  const componentIndex = useMemo(
+    () => (mode === "layout" ? flatIndex : new Map(view.components.map((c) => [c.id, c]))),
+    [mode, flatIndex, view.components]
+  );
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+
+  // undo can remove the selected component out from under us
+  const selectedComponent =
+    selectedIds.length === 1 ? componentIndex.get(selectedIds[0]) : undefined;
+  const annotationIndex = useMemo(
+    () => new Map(view.annotations.map((a) => [a.id, a])),
+    [view.annotations]
+  );
+  const selectedAnnotation =
+    mode === "schematic" && selectedIds.length === 1
+      ? annotationIndex.get(selectedIds[0])
+      : undefined;
+
+  const bom = useMemo(() => buildBom(flat.components), [flat.components]);
+
+  const pads = useMemo(() => placedPads(flat), [flat]);
+
+  const netOfPin = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const n of netlist) for (const k of n.pins) map.set(k, n.name);
+    return map;
+  }, [netlist]);
+
+  // Nets of the open sheet's pins, by sheet-local pin key. A pin inside a
+  // sheet placed more than once is on one net per instance.
+  const sheetPinNets = useMemo(() => {
+    const nets = new Map<string, string[]>();
+    for (const n of netlist) {
+      for (const k of n.pins) {
+        const [cid, pid] = k.split(":");
+        const at = locate(design, cid);
+        if (at.sheetId !== sheetId) continue;
+        const local = pinKey(at.id, pid);
+        nets.set(local, [...(nets.get(local) ?? []), n.name]);
       }
-      setTool({ type: "select" });
-      return { ...d, wires };
+    }
+    return nets;
+  }, [netlist, design, sheetId]);
+
+  // the flattened design with track and via nets following the schematic
+  const routed = useMemo(
+    () => ({ ...flat, board: resolveCopperNets(flat.board, pads, netOfPin) }),
+    [flat, pads, netOfPin]
+  );
+
+  // Airwires only between pads not yet joined by copper
+  const ratsnestLines = useMemo(
+    () =>
+      mode === "layout" ? ratsnest(netlist, pads, copperClusters(design.board, pads)) : [],
+    [mode, netlist, pads, design.board]
+  );
+
+  // What the highlighted net covers: pins and wires on the open sheet, parts
+  // (flattened ids) and copper on the board
+  const netHighlight = useMemo(() => {
+    const net = netlist.find((n) => n.name === highlightNet);
+    if (!net) return null;
+    const pins = new Set(
+      [...sheetPinNets].filter(([, nets]) => nets.includes(net.name)).map(([k]) => k)
+    );
+    const { wires } = wireGroup(
+      wireAnalysis,
+      [...pins].map((k) => {
+        const [componentId, pinId] = k.split(":");
+        return { pin: { componentId, pinId } };
+      })
+    );
+    const copper = new Set(
+      [...routed.board.tracks, ...routed.board.vias].filter((t) => t.net === net.name).map((t) => t.id)
+    );
+    return { name: net.name, pins, wires, parts: new Set(net.pins.map((k) => k.split(":")[0])), copper };
+  }, [netlist, highlightNet, sheetPinNets, wireAnalysis, routed]);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height })
+    );
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
+
+  // canvas area in view
+  const visible = visibleArea({ pan, zoom }, viewport.width, viewport.height);
+
+  // Zoom about the middle of the canvas
+  const zoomCanvas = (factor: number) => {
+    const middle = { x: viewport.width / 2, y: viewport.height / 2 };
+    setView(zoomAbout({ pan, zoom }, zoom * factor, middle));
+  };
+
+  // Grid drawn at the snap pitch, or a multiple of it when zoomed out
+  let gridStep = mode === "layout" ? grid.layout * MM : grid.schematic;
+  while (gridStep * zoom < GRID_MIN_PX) gridStep *= 2;
+
+  // Whether a box (canvas units, or mm on the board) is near enough the view
+  // to draw; everything is drawn until the canvas size is known
+  const inView = (left: number, top: number, right: number, bottom: number) => {
+    if (!viewport.width) return true;
+    const unit = mode === "layout" ? MM : 1;
+    const margin = CULL_MARGIN / unit;
+    return (
+      right >= visible.x / unit - margin &&
+      left <= (visible.x + visible.w) / unit + margin &&
+      bottom >= visible.y / unit - margin &&
+      top <= (visible.y + visible.h) / unit + margin
+    );
+  };
+
+  const partIndex = useMemo(
+    () => new Map(design.library.map((p) => [p.id, p])),
+    [design.library]
+  );
+  const sheetNames = useMemo(
+    () => new Map(design.sheets.map((s) => [s.id, s.name])),
+    [design.sheets]
+  );
+
+  // The open sheet as drawn: the design with a drag's preview over it. Wires
+  // on dragged parts are rerouted from the moved pins.
+  const shownComponents = useMemo(
+    () =>
+      dragPreview?.components.size
+        ? view.components.map((c) => dragPreview.components.get(c.id) ?? c)
+        : view.components,
+    [view.components, dragPreview]
+  );
+  const shownPaths = useMemo(() => {
+    if (!dragPreview?.components.size && !dragPreview?.wires.size) return wireAnalysis.paths;
+    const pins = new Map(pinIndex);
+    for (const [k, at] of pinPositions([...dragPreview.components.values()])) pins.set(k, at);
+    const moved = (end: WireEnd | null) => !!end && dragPreview.components.has(end.componentId);
+    const paths = new Map(wireAnalysis.paths);
+    for (const w of view.wires) {
+      const preview = dragPreview.wires.get(w.id);
+      if (preview || moved(w.from) || moved(w.to)) paths.set(w.id, wirePath(preview ?? w, pins));
+    }
+    return paths;
+  }, [wireAnalysis, pinIndex, view.wires, dragPreview]);
+
+  // The design at a glance for the minimap, in canvas units
+  const minimap = useMemo(() => {
+    const box = (x: number, y: number, r: number) => ({ x: x - r, y: y - r, w: 2 * r, h: 2 * r });
+    let shapes: MinimapShapes;
+    if (mode === "layout") {
+      const scaled = (p: Point) => ({ x: p.x * MM, y: p.y * MM });
+      shapes = {
+        outline: design.board.outline.map(scaled),
+        paths: design.board.tracks.map((t) => t.points.map(scaled)),
+        boxes: flat.components.flatMap((c) => {
+          const body = getFootprint(c.props.footprint)?.body;
+          if (!body) return [];
+          const r = (Math.max(body.w, body.h) / 2) * MM;
+          return [box(c.placement.x * MM, c.placement.y * MM, r)];
+        }),
+      };
+    } else {
+      shapes = {
+        outline: null,
+        paths: [
+          ...wireAnalysis.paths.values(),
+          // annotations as closed outlines, lines as they are
+          ...view.annotations.map((a) => {
+            const outline = annotationOutline(a);
+            return outline.length > 2 ? [...outline, outline[0]] : outline;
+          }),
+        ],
+        boxes: view.components.map((c) => {
+          const part = c.kind === "part" && c.partId ? partIndex.get(c.partId) : undefined;
+          return box(c.x, c.y, symbolReach(c, part) / 2);
+        }),
+      };
+    }
+    const bounds = boundsOf([
+      ...(shapes.outline ?? []),
+      ...shapes.paths.flat(),
+      ...shapes.boxes.flatMap((b) => [b, { x: b.x + b.w, y: b.y + b.h }]),
+    ]);
+    return { shapes, bounds };
+  }, [
+    mode,
+    design.board,
+    flat.components,
+    wireAnalysis,
+    view.components,
+    view.annotations,
+    partIndex,
+  ]);
+
+  // Board parts and airwires as drawn, following a drag's placements
+  const shownParts = useMemo(
+    () =>
+      dragPreview?.placements.size
+        ? flat.components.map((c) => {
+            const placement = dragPreview.placements.get(c.id);
+            return placement ? { ...c, placement } : c;
+          })
+        : flat.components,
+    [flat.components, dragPreview]
+  );
+  const shownRatsnest = useMemo(() => {
+    if (!dragPreview?.placements.size) return ratsnestLines;
+    const moved = placedPads({
+      ...flat,
+      components: shownParts.filter((c) => dragPreview.placements.has(c.id)),
     });
+    const at = (p: PlacedPad) => moved.get(pinKey(p.componentId, p.pinId)) ?? p;
+    return ratsnestLines.map((l) => ({ ...l, a: at(l.a), b: at(l.b) }));
+  }, [ratsnestLines, dragPreview, flat, shownParts]);
+
+  // Alt-click: highlight the net under the cursor, or clear the highlight
+  const probeNet = (e: React.MouseEvent) => {
+    const raw = clientToWorld(e, false);
+    if (mode === "layout") {
+      const pt = { x: raw.x / MM, y: raw.y / MM };
+      const pad = hitPad(pads.values(), pt);
+      const track = routed.board.tracks.find((t) => hitSegment(t.points, pt, t.width / 2) >= 0);
+      setHighlightNet(
+        pad ? (netOfPin.get(pinKey(pad.componentId, pad.pinId)) ?? null) : track?.net || null
+      );
+      return;
+    }
+    const wire = [...wireAnalysis.paths].find(([, path]) => hitSegment(path, raw, 6) >= 0);
+    const pins = wire ? [...wireGroup(wireAnalysis, [{ wire: wire[0] }]).pins] : [];
+    setHighlightNet(pins.map((k) => sheetPinNets.get(k)?.[0]).find(Boolean) ?? null);
   };
 
-  const currentOpenWire = useMemo(() => design.wires.find((w) => w.to === null), [design.wires]);
-
-  const getPinAbs = (componentId: string, pinId: string) => {
-    const c = design.components.find((c) => c.id === componentId);
-    const p = c?.pins.find((p) => p.id === pinId);
-    if (!c || !p) return null;
-    return pinAbsPosition(c, p);
-  };
-
-  const netlist = useMemo(() => {
-    // Nets are groups of pins connected by wires
-    const adj = new Map<string, Set<string>>(); // pinKey -> set of pinKey
-    const pinKey = (cid: string, pid: string) => `${cid}:${pid}`;
-    for (const w of design.wires) {
-      if (!w.from || !w.to) continue;
-      const a = pinKey(w.from.componentId, w.from.pinId);
-      const b = pinKey(w.to.componentId, w.to.pinId);
-      if (!adj.has(a)) adj.set(a, new Set());
-      if (!adj.has(b)) adj.set(b, new Set());
-      adj.get(a)!.add(b);
-      adj.get(b)!.add(a);
-    }
-    const visited = new Set<string>();
-    const nets: string[][] = [];
-    const keys = Array.from(adj.keys());
-    for (const k of keys) {
-      if (visited.has(k)) continue;
-      const queue = [k];
-      const group: string[] = [];
-      visited.add(k);
-      while (queue.length) {
-        const cur = queue.shift()!;
-        group.push(cur);
-        for (const nxt of adj.get(cur) || []) {
-          if (!visited.has(nxt)) {
-            visited.add(nxt);
-            queue.push(nxt);
-          }
-        }
+  // DRC is the slowest derivation (over a second on large boards), so it
+  // runs on deferred inputs: an edit renders first and the violations catch
+  // up in a background render, shown faded until then
+  const drcMode = useDeferredValue(mode);
+  const drcRouted = useDeferredValue(routed);
+  const drcNetlist = useDeferredValue(netlist);
+  const drcPads = useDeferredValue(pads);
+  const drcViolations = useMemo(
+    () => (drcMode === "layout" ? runDrc(drcRouted, drcNetlist, drcPads) : []),
+    [drcMode, drcRouted, drcNetlist, drcPads]
+  );
+  const drcStale = drcRouted !== routed || drcNetlist !== netlist || drcPads !== pads;
+
+  const setDrcRule = (rule: keyof DrcRules, value: number) => {
+    apply(
+      "Edit DRC rules",
+      (d) => ({ ...d, board: { ...d.board, drcRules: { ...d.board.drcRules, [rule]: value } } }),
+      `drc:${rule}`
+    );
+  };
+
+  const trackWidth = (net: string) => design.board.netWidths[net] ?? DEFAULT_TRACK_WIDTH;
+
+  // Copper the route tool can start from or end on: a pad, a via or a track vertex
+  const hitCopper = (pt: Point, layer: CopperLayer): { point: Point; net: string } | null => {
+    const pad = hitPad(pads.values(), pt, layer);
+    if (pad) {
+      return { point: pad, net: netOfPin.get(pinKey(pad.componentId, pad.pinId)) ?? "" };
+    }
+    const via = design.board.vias.find((v) => Math.hypot(pt.x - v.x, pt.y - v.y) <= v.diameter / 2);
+    if (via) return { point: via, net: via.net };
+    for (const t of design.board.tracks) {
+      if (t.layer !== layer) continue;
+      const vertex = t.points.find((v) => Math.hypot(pt.x - v.x, pt.y - v.y) <= t.width / 2 + 0.2);
+      if (vertex) return { point: vertex, net: t.net };
+    }
+    return null;
+  };
+
+  const commitRoute = (r: RouteInProgress) => {
+    const points = r.points.filter(
+      (p, i) => i === 0 || p.x !== r.points[i - 1].x || p.y !== r.points[i - 1].y
+    );
+    const tracks = [...r.tracks];
+    if (points.length >= 2) {
+      tracks.push({ id: nanoid(), net: r.net, layer: r.layer, width: trackWidth(r.net), points });
+    }
+    if (tracks.length > 0) {
+      apply("Route track", (d) => ({
+        ...d,
+        board: {
+          ...d.board,
+          tracks: [...d.board.tracks, ...tracks],
+          vias: [...d.board.vias, ...r.vias],
+        },
+      }));
+    }
+    setRouting(null);
+  };
+
+  // Route tool click: start on copper, add 45° bends on empty board, finish on copper
+  const routeClick = (pt: Point) => {
+    if (!routing) {
+      const start = hitCopper(pt, activeLayer);
+      if (!start) {
+        setMessage("Start a track on a pad, via or track");
+        setTimeout(() => setMessage(""), 1500);
+        return;
       }
-      nets.push(group);
+      setRouting({
+        net: start.net,
+        layer: activeLayer,
+        points: [{ x: start.point.x, y: start.point.y }],
+        tracks: [],
+        vias: [],
+      });
+      return;
     }
-    return nets.map((g, i) => ({ name: `N${i + 1}`, pins: g }));
-  }, [design.wires]);
+    const last = routing.points[routing.points.length - 1];
+    const end = hitCopper(pt, routing.layer);
+    if (end && (end.point.x !== last.x || end.point.y !== last.y)) {
+      const target = { x: end.point.x, y: end.point.y };
+      commitRoute({
+        ...routing,
+        net: routing.net || end.net,
+        points: [...routing.points, ...route45(last, target)],
+      });
+      return;
+    }
+    setRouting({ ...routing, points: [...routing.points, ...route45(last, pt)] });
+  };
+
+  // Drop a via at the cursor and carry on routing on the other layer
+  const placeVia = () => {
+    if (!routing || !routeCursor) return;
+    const last = routing.points[routing.points.length - 1];
+    const points = [...routing.points, ...route45(last, routeCursor)];
+    const layer: CopperLayer = routing.layer === "top" ? "bottom" : "top";
+    const via: Via = {
+      id: nanoid(),
+      net: routing.net,
+      x: routeCursor.x,
+      y: routeCursor.y,
+      diameter: VIA_DIAMETER,
+      drill: VIA_DRILL,
+    };
+    const track: Track = {
+      id: nanoid(),
+      net: routing.net,
+      layer: routing.layer,
+      width: trackWidth(routing.net),
+      points,
+    };
+    setRouting({
+      ...routing,
+      layer,
+      points: [routeCursor],
+      tracks: points.length >= 2 ? [...routing.tracks, track] : routing.tracks,
+      vias: [...routing.vias, via],
+    });
+    setActiveLayer(layer);
+  };
 
-  const bom = useMemo(() => {
-    const counts = new Map<ComponentKind, number>();
-    for (const c of design.components) {
-      counts.set(c.kind, (counts.get(c.kind) || 0) + 1);
+  const selectBoardItem = (e: React.MouseEvent, id: string) => {
+    if (tool.type !== "select" || e.altKey) return;
+    e.stopPropagation();
+    if (e.shiftKey) {
+      setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+    } else {
+      setSelectedIds([id]);
     }
-    return Array.from(counts.entries()).map(([kind, qty]) => ({ kind, qty }));
-  }, [design.components]);
+  };
+
+  const setNetWidth = (net: string, width: number) => {
+    apply(
+      "Set track width",
+      (d) => ({
+        ...d,
+        board: { ...d.board, netWidths: { ...d.board.netWidths, [net]: width } },
+      }),
+      `width:${net}`
+    );
+  };
+
+  const setView = (v: View) => {
+    setPan(v.pan);
+    setZoom(v.zoom);
+  };
+
+  // The wheel (and a trackpad pinch, which arrives as ctrl+wheel) zooms about
+  // the cursor. Listened to directly: React's wheel listener is passive and
+  // cannot stop the page from zooming along.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      // line-based deltas (Firefox) are about 40 pixels a line
+      const delta = e.deltaMode === 1 ? e.deltaY * 40 : e.deltaY;
+      const factor = Math.pow(e.ctrlKey ? 1.01 : 1.0015, -delta);
+      const at = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      const next = zoomAbout({ pan, zoom }, zoom * factor, at);
+      setPan(next.pan);
+      setZoom(next.zoom);
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [pan, zoom]);
 
-  const onWheel: React.WheelEventHandler<SVGSVGElement> = (e) => {
-    e.preventDefault();
-    const delta = -e.deltaY;
-    const factor = delta > 0 ? 1.1 : 0.9;
-    const newZoom = Math.min(4, Math.max(0.2, zoom * factor));
-    setZoom(newZoom);
+  // Hold space to pan by dragging
+  useEffect(() => {
+    const down = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || typing(e)) return;
+      e.preventDefault();
+      setSpacePan(true);
+    };
+    const up = (e: KeyboardEvent) => {
+      if (e.code === "Space") setSpacePan(false);
+    };
+    window.addEventListener("keydown", down);
+    window.addEventListener("keyup", up);
+    return () => {
+      window.removeEventListener("keydown", down);
+      window.removeEventListener("keyup", up);
+    };
+  }, []);
+
+  // Two fingers on a touch screen pinch to zoom and move together to pan
+  const pinchOf = (touches: React.TouchList) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const [a, b] = [touches[0], touches[1]];
+    return {
+      distance: Math.max(1, Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)),
+      mid: {
+        x: (a.clientX + b.clientX) / 2 - rect.left,
+        y: (a.clientY + b.clientY) / 2 - rect.top,
+      },
+    };
+  };
+
+  const onTouchStart: React.TouchEventHandler<SVGSVGElement> = (e) => {
+    if (e.touches.length !== 2) return;
+    pinch.current = { ...pinchOf(e.touches), view: { pan, zoom } };
+    setMarquee(null);
+  };
+
+  const onTouchMove: React.TouchEventHandler<SVGSVGElement> = (e) => {
+    const start = pinch.current;
+    if (!start || e.touches.length !== 2) return;
+    const now = pinchOf(e.touches);
+    const zoomed = zoomAbout(start.view, (start.view.zoom * now.distance) / start.distance, start.mid);
+    setView({
+      zoom: zoomed.zoom,
+      pan: { x: zoomed.pan.x + now.mid.x - start.mid.x, y: zoomed.pan.y + now.mid.y - start.mid.y },
+    });
+  };
+
+  const onTouchEnd: React.TouchEventHandler<SVGSVGElement> = (e) => {
+    if (e.touches.length < 2) pinch.current = null;
+  };
+
+  // Presses on canvas items, found through the data attributes they carry.
+  // A pin starts a wire (alt: highlights its net); with the select tool a
+  // wire segment or a part starts a drag. Returns whether the press was taken.
+  const pressItem = (e: React.MouseEvent, target: Element) => {
+    const cid = target.closest("[data-component-id]")?.getAttribute("data-component-id");
+    const c = cid ? componentIndex.get(cid) : undefined;
+    const pinId = target.getAttribute("data-pin-id");
+    if (mode === "schematic" && c && pinId) {
+      e.stopPropagation();
+      if (e.altKey) {
+        setHighlightNet(sheetPinNets.get(pinKey(c.id, pinId))?.[0] ?? null);
+      } else if (!readOnly) {
+        setTool({ type: "wire" });
+        wireClick(getPinAbs(c.id, pinId)!, { componentId: c.id, pinId });
+      }
+      return true;
+    }
+    // alt-click probes the net under the cursor instead
+    if (tool.type !== "select" || e.altKey) return false;
+    const wireId = target.getAttribute("data-wire-id");
+    const w = wireId ? view.wires.find((w) => w.id === wireId) : undefined;
+    if (w) {
+      beginWireDrag(e, w, Number(target.getAttribute("data-segment")));
+      return true;
+    }
+    const aid = target.closest("[data-annotation-id]")?.getAttribute("data-annotation-id");
+    const a = aid && mode === "schematic" ? annotationIndex.get(aid) : undefined;
+    if (a) {
+      beginItemDrag(e, a);
+      return true;
+    }
+    if (c) {
+      beginItemDrag(e, c);
+      return true;
+    }
+    return false;
   };
 
   const onMouseDown: React.MouseEventHandler<SVGSVGElement> = (e) => {
     const target = e.target as Element;
-    if ((e.button === 1) || e.shiftKey) {
+    if (e.button === 0 && !spacePan && pressItem(e, target)) return;
+    if (e.button === 1 || e.shiftKey || spacePan) {
       setIsPanning(true);
       panStart.current = { x: e.clientX - pan.x, y: e.clientY - pan.y };
       return;
     }
     if (e.button !== 0) return;
+    if (e.altKey) {
+      probeNet(e);
+      return;
+    }
+    if (mode === "layout" && tool.type === "route") {
+      const raw = clientToWorld(e, false);
+      routeClick({ x: snap(raw.x / MM, grid.layout / 2), y: snap(raw.y / MM, grid.layout / 2) });
+      return;
+    }
     const pt = clientToWorld(e);
     if (tool.type === "place") {
-      addComponent(tool.kind, pt.x, pt.y);
+      addComponent(tool.kind, pt.x, pt.y, tool.sheetId ?? tool.partId);
+      return;
+    }
+    if (mode === "schematic" && tool.type === "wire") {
+      wireClick(pt);
+      return;
+    }
+    if (mode === "schematic" && tool.type === "annotate") {
+      const shape = tool.shape;
+      applySheet(`Add ${ANNOTATION_LABELS[shape.type].toLowerCase()}`, (s) =>
+        placeAnnotation(s, shape, pt, grid.schematic)
+      );
+      setTool({ type: "select" });
       return;
     }
     // selection begins
     if (target.closest('[data-component-id]')) {
       const compEl = target.closest('[data-component-id]') as HTMLElement;
       const cid = compEl.getAttribute('data-component-id');
-      if (cid) setSelectedId(cid);
+      if (cid) setSelectedIds([cid]);
+    } else if (tool.type === "select") {
+      // empty canvas: start a marquee
+      const raw = clientToWorld(e, false);
+      setMarquee({ x0: raw.x, y0: raw.y, x1: raw.x, y1: raw.y });
     } else {
-      setSelectedId(null);
+      setSelectedIds([]);
     }
   };
 
@@ -286,56 +1271,724 @@ export default function Home() {
       const start = panStart.current!;
       setPan({ x: e.clientX - start.x, y: e.clientY - start.y });
     }
+    if (marquee) {
+      const raw = clientToWorld(e, false);
+      setMarquee({ ...marquee, x1: raw.x, y1: raw.y });
+    }
+    if (routing) {
+      const raw = clientToWorld(e, false);
+      setRouteCursor({ x: snap(raw.x / MM, grid.layout / 2), y: snap(raw.y / MM, grid.layout / 2) });
+    }
+    if (wireDraft) setWireCursor(clientToWorld(e));
+    // remote cursors need no more than about twenty updates a second
+    if (collab?.status === "connected" && e.timeStamp - collabCursor.current.time > 50) {
+      collabCursor.current = { at: clientToWorld(e, false), time: e.timeStamp };
+      collabSession.current?.sendPresence({
+        view: presenceView,
+        cursor: collabCursor.current.at,
+        selection: selectedIds,
+      });
+    }
+  };
+
+  const onDoubleClick: React.MouseEventHandler<SVGSVGElement> = (e) => {
+    const cid = (e.target as Element).closest("[data-component-id]")?.getAttribute("data-component-id");
+    const c = cid && mode === "schematic" ? componentIndex.get(cid) : undefined;
+    if (c?.kind === "sheet" && c.sheetId) openSheet(c.sheetId);
+    if (wireDraft) finishWire(wireDraft, null);
   };
 
   const onMouseUp: React.MouseEventHandler<SVGSVGElement> = () => {
     setIsPanning(false);
+    if (marquee) {
+      const [left, right] = [Math.min(marquee.x0, marquee.x1), Math.max(marquee.x0, marquee.x1)];
+      const [top, bottom] = [Math.min(marquee.y0, marquee.y1), Math.max(marquee.y0, marquee.y1)];
+      // layout mode selects by board placement
+      const at = (c: SchematicComponent) =>
+        mode === "layout" ? { x: c.placement.x * MM, y: c.placement.y * MM } : c;
+      const inside = (p: Point) => p.x >= left && p.x <= right && p.y >= top && p.y <= bottom;
+      // schematic wires and annotations are taken when they lie wholly inside
+      const wires =
+        mode === "layout"
+          ? []
+          : view.wires.filter((w) => wireAnalysis.paths.get(w.id)?.every(inside)).map((w) => w.id);
+      const annotations =
+        mode === "layout"
+          ? []
+          : view.annotations.filter((a) => annotationOutline(a).every(inside)).map((a) => a.id);
+      setSelectedIds([
+        ...visibleComponents.filter((c) => inside(at(c))).map((c) => c.id),
+        ...wires,
+        ...annotations,
+      ]);
+      setMarquee(null);
+    }
   };
 
-  const clientToWorld = (e: React.MouseEvent) => {
+  const clientToWorld = (e: React.MouseEvent, snapped = true) => {
     const svg = svgRef.current!;
     const rect = svg.getBoundingClientRect();
     const x = (e.clientX - rect.left - pan.x) / zoom;
     const y = (e.clientY - rect.top - pan.y) / zoom;
-    return { x: snap(x), y: snap(y) };
+    return snapped ? { x: snap(x, grid.schematic), y: snap(y, grid.schematic) } : { x, y };
+  };
+
+  // Select a component and pan so it sits in the middle of the canvas
+  // Ids are flattened (from ERC, BOM, netlist); in the schematic this opens
+  // the sheet the part lives on
+  const focusComponent = (id: string, scale = zoom) => {
+    if (mode === "layout") {
+      const c = flatIndex.get(id);
+      if (!c) return;
+      setSelectedIds([id]);
+      focusPoint(c.placement.x * MM, c.placement.y * MM, scale);
+      return;
+    }
+    const at = locate(design, id);
+    const c = sheetOf(design, at.sheetId).components.find((c) => c.id === at.id);
+    if (!c) return;
+    setActiveSheet(at.sheetId);
+    setSelectedIds([at.id]);
+    focusPoint(c.x, c.y, scale);
+  };
+
+  // Pan so a canvas point sits in the middle of the view, optionally zooming
+  const focusPoint = (x: number, y: number, scale = zoom) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    setView(centerOn({ pan, zoom: scale }, { x, y }, rect.width, rect.height));
+  };
+
+  // Box around the items on screen, or only those in `ids`, in canvas units
+  const itemBounds = (ids?: ReadonlySet<string>) => {
+    const take = (id: string) => !ids || ids.has(id);
+    const points: Point[] = [];
+    const around = (x: number, y: number, r: number) =>
+      points.push({ x: x - r, y: y - r }, { x: x + r, y: y + r });
+    if (mode === "layout") {
+      const board = design.board;
+      if (!ids) points.push(...board.outline);
+      for (const c of flat.components) {
+        const body = getFootprint(c.props.footprint)?.body;
+        if (take(c.id)) around(c.placement.x, c.placement.y, body ? Math.hypot(body.w, body.h) / 2 : 1);
+      }
+      for (const t of board.tracks) if (take(t.id)) points.push(...t.points);
+      for (const v of board.vias) if (take(v.id)) around(v.x, v.y, v.diameter / 2);
+      return boundsOf(points.map((p) => ({ x: p.x * MM, y: p.y * MM })));
+    }
+    for (const c of view.components) {
+      const part = c.kind === "part" && c.partId ? partIndex.get(c.partId) : undefined;
+      if (take(c.id)) around(c.x, c.y, symbolReach(c, part));
+    }
+    for (const [id, path] of wireAnalysis.paths) if (take(id)) points.push(...path);
+    for (const a of view.annotations) if (take(a.id)) points.push(...annotationOutline(a));
+    return boundsOf(points);
+  };
+
+  // Zoom so everything (or the selection) fills the canvas
+  const fitToView = (ids?: ReadonlySet<string>) => {
+    const b = itemBounds(ids);
+    const rect = svgRef.current!.getBoundingClientRect();
+    if (b) setView(fitView(b, rect.width, rect.height));
+    else if (!ids) setView({ pan: { x: 0, y: 0 }, zoom: 1 });
+  };
+
+  // Parts matching the search box by designator or label, exact matches first
+  const partMatches = useMemo(() => {
+    const q = partQuery.trim().toLowerCase();
+    if (!q) return [];
+    const exact = (c: SchematicComponent) =>
+      c.ref.toLowerCase() === q || c.label.toLowerCase() === q;
+    return flat.components
+      .filter((c) => exact(c) || c.ref.toLowerCase().includes(q) || c.label.toLowerCase().includes(q))
+      .sort((a, b) => Number(exact(b)) - Number(exact(a)))
+      .slice(0, 8);
+  }, [partQuery, flat.components]);
+
+  const findPart = (id: string) => {
+    focusComponent(id, Math.max(zoom, 2));
+    setPartQuery("");
+  };
+
+  // Keep the selection when switching views: schematic ids are local to the
+  // open sheet, layout ids are flattened
+  const switchMode = (next: Mode) => {
+    if (next === mode) return;
+    if (next === "layout") {
+      const ids = flat.components
+        .filter((c) => {
+          const at = locate(design, c.id);
+          return at.sheetId === sheetId && selectedIds.includes(at.id);
+        })
+        .map((c) => c.id);
+      setSelectedIds(ids);
+      const first = flatIndex.get(ids[0]);
+      if (first) focusPoint(first.placement.x * MM, first.placement.y * MM);
+    } else {
+      const found = selectedIds
+        .map((id) => locate(design, id))
+        .filter((at) => sheetOf(design, at.sheetId).components.some((c) => c.id === at.id));
+      const sheet = found[0]?.sheetId ?? sheetId;
+      const ids = found.filter((at) => at.sheetId === sheet).map((at) => at.id);
+      setActiveSheet(sheet);
+      setSelectedIds(ids);
+      const first = sheetOf(design, sheet).components.find((c) => c.id === ids[0]);
+      if (first) focusPoint(first.x, first.y);
+    }
+    setMode(next);
+  };
+
+  // Apply a change to the board placement of every selected part
+  const updatePlacements = (label: string, fn: (p: Placement) => Placement) => {
+    const next = new Map(
+      flat.components
+        .filter((c) => selectedIds.includes(c.id))
+        .map((c) => [c.id, fn(c.placement)])
+    );
+    apply(label, (d) => placeParts(d, next));
+  };
+
+  // Edit a part's own attributes. Layout ids are flattened, so the edit goes
+  // to the sheet the part comes from and shows in every instance of it.
+  const editComponent = (
+    label: string,
+    id: string,
+    fn: (c: SchematicComponent) => SchematicComponent,
+    coalesce: string
+  ) => {
+    const at = mode === "layout" ? locate(design, id) : { sheetId, id };
+    apply(
+      label,
+      (d) => {
+        const s = sheetOf(d, at.sheetId);
+        return withSheet(d, at.sheetId, {
+          ...s,
+          components: s.components.map((cc) => (cc.id === at.id ? fn(cc) : cc)),
+        });
+      },
+      coalesce
+    );
+  };
+
+  const editAnnotation = (
+    label: string,
+    id: string,
+    fn: (a: Annotation) => Annotation,
+    coalesce: string
+  ) => {
+    applySheet(
+      label,
+      (s) => ({ ...s, annotations: s.annotations.map((a) => (a.id === id ? fn(a) : a)) }),
+      coalesce
+    );
   };
 
   const rotateSelected = () => {
-    if (!selectedId) return;
-    setDesign((d) => ({
-      ...d,
-      components: d.components.map((c) =>
-        c.id === selectedId ? { ...c, rotation: (c.rotation + 90) % 360 } : c
-      ),
-    }));
+    if (selectedIds.length === 0) return;
+    if (mode === "layout") {
+      updatePlacements("Rotate", (p) => ({ ...p, rotation: (p.rotation + 90) % 360 }));
+      return;
+    }
+    applySheet("Rotate", (s) => rotateComponents(s, selectedIds));
   };
 
   const moveSelected = (dx: number, dy: number) => {
-    if (!selectedId) return;
-    setDesign((d) => ({
-      ...d,
-      components: d.components.map((c) =>
-        c.id === selectedId ? { ...c, x: snap(c.x + dx), y: snap(c.y + dy) } : c
-      ),
-    }));
+    if (selectedIds.length === 0) return;
+    if (mode === "layout") {
+      updatePlacements("Move", (p) => ({
+        ...p,
+        x: snap(p.x + dx / MM, grid.layout),
+        y: snap(p.y + dy / MM, grid.layout),
+      }));
+      return;
+    }
+    applySheet("Move", (s) => moveComponents(s, selectedIds, dx, dy, grid.schematic));
+  };
+
+  const flipSelected = () => {
+    if (selectedIds.length === 0) return;
+    updatePlacements("Flip side", (p) => ({ ...p, side: p.side === "top" ? "bottom" : "top" }));
+  };
+
+  // Follow the mouse until release, reporting the offset in canvas units.
+  // Drags that only preview while moving commit in `onEnd`; everything
+  // applied during one gesture is sealed into a single undo step.
+  const trackDrag = (
+    e: React.MouseEvent,
+    onMove: (dx: number, dy: number, key: string) => void,
+    onEnd?: () => void
+  ) => {
+    const start = { x: e.clientX, y: e.clientY };
+    const key = `drag:${nanoid()}`;
+    const move = (ev: MouseEvent) => {
+      onMove((ev.clientX - start.x) / zoom, (ev.clientY - start.y) / zoom, key);
+    };
+    const up = () => {
+      onEnd?.();
+      sealHistory();
+      window.removeEventListener("mousemove", move);
+      window.removeEventListener("mouseup", up);
+    };
+    window.addEventListener("mousemove", move);
+    window.addEventListener("mouseup", up);
+  };
+
+  // Click selects, shift-click toggles, dragging a selected part or annotation
+  // drags the whole selection. In layout mode only the board placement moves.
+  // The design is left alone until release; until then the move is only
+  // previewed.
+  const beginItemDrag = (e: React.MouseEvent, c: { id: string; x: number; y: number }) => {
+    e.stopPropagation();
+    if (e.shiftKey) {
+      setSelectedIds((ids) =>
+        ids.includes(c.id) ? ids.filter((id) => id !== c.id) : [...ids, c.id]
+      );
+      return;
+    }
+    const isSelected = selectedSet.has(c.id);
+    const group = isSelected ? selectedIds : [c.id];
+    if (!isSelected) setSelectedIds([c.id]);
+    // the shared-link viewer selects but does not move
+    if (readOnly) return;
+    const origins = group
+      .map((id) => componentIndex.get(id))
+      .filter((o): o is SchematicComponent => !!o);
+    let offset: Point | null = null;
+    if (mode === "layout") {
+      const placements = (dx: number, dy: number) =>
+        new Map(
+          origins.map((o) => [
+            o.id,
+            {
+              ...o.placement,
+              x: snap(o.placement.x + dx / MM, grid.layout),
+              y: snap(o.placement.y + dy / MM, grid.layout),
+            },
+          ])
+        );
+      trackDrag(
+        e,
+        (dx, dy) => {
+          offset = { x: dx, y: dy };
+          setDragPreview(previewOf({ placements: placements(dx, dy) }));
+        },
+        () => {
+          setDragPreview(null);
+          const at = offset;
+          if (at) apply("Move", (d) => placeParts(d, placements(at.x, at.y)));
+        }
+      );
+      return;
+    }
+    // wires between dragged parts keep their shape
+    const fragment = {
+      components: origins,
+      wires: wiresWith(view.wires, group),
+      annotations: view.annotations.filter((a) => group.includes(a.id)),
+    };
+    trackDrag(
+      e,
+      (dx, dy) => {
+        offset = { x: dx, y: dy };
+        const moved = moveComponents(fragment, group, dx, dy, grid.schematic);
+        setDragPreview(
+          previewOf({
+            components: new Map(moved.components.map((m) => [m.id, m])),
+            wires: new Map(moved.wires.map((w) => [w.id, w])),
+            annotations: new Map(moved.annotations.map((a) => [a.id, a])),
+          })
+        );
+      },
+      () => {
+        setDragPreview(null);
+        const at = offset;
+        const pitch = grid.schematic;
+        if (!at || (snap(c.x + at.x, pitch) === c.x && snap(c.y + at.y, pitch) === c.y)) return;
+        applySheet("Move", (s) => moveComponents(s, group, at.x, at.y, pitch));
+      }
+    );
+  };
+
+  // Drag one wire segment sideways; its neighbours stretch to follow. A
+  // segment ending on a pin gets a new bend so the wire stays on the pin.
+  const beginWireDrag = (e: React.MouseEvent, w: Wire, index: number) => {
+    e.stopPropagation();
+    if (e.shiftKey) {
+      setSelectedIds((ids) => (ids.includes(w.id) ? ids.filter((id) => id !== w.id) : [...ids, w.id]));
+      return;
+    }
+    setSelectedIds([w.id]);
+    const path = wireAnalysis.paths.get(w.id);
+    if (!path || readOnly) return;
+    const [a, b] = [path[index], path[index + 1]];
+    const horizontal = a.y === b.y;
+    let points: Point[] | null = null;
+    trackDrag(
+      e,
+      (dx, dy) => {
+        const shift = (p: Point) =>
+          horizontal
+            ? { x: p.x, y: snap(p.y + dy, grid.schematic) }
+            : { x: snap(p.x + dx, grid.schematic), y: p.y };
+        const next = [...path];
+        next[index] = shift(a);
+        next[index + 1] = shift(b);
+        if (index === 0 && w.from) next.unshift(a);
+        if (index + 2 === path.length && w.to) next.push(b);
+        points = storedPoints(w, next);
+        setDragPreview(previewOf({ wires: new Map([[w.id, { ...w, points }]]) }));
+      },
+      () => {
+        setDragPreview(null);
+        const moved = points;
+        if (!moved || JSON.stringify(w.points) === JSON.stringify(moved)) return;
+        applySheet("Move wire", (s) => ({
+          ...s,
+          wires: s.wires.map((x) => (x.id === w.id ? { ...x, points: moved } : x)),
+        }));
+      }
+    );
+  };
+
+  // Board outline editing: drag a corner, alt-click a corner to remove it,
+  // click an edge midpoint to insert a corner there
+  const beginOutlineDrag = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    const outline = design.board.outline;
+    if (e.altKey) {
+      if (outline.length <= 3) return;
+      apply("Edit board outline", (d) => ({
+        ...d,
+        board: { ...d.board, outline: d.board.outline.filter((_, i) => i !== index) },
+      }));
+      return;
+    }
+    const origin = outline[index];
+    trackDrag(e, (dx, dy, key) => {
+      const x = snap(origin.x + dx / MM, grid.layout);
+      const y = snap(origin.y + dy / MM, grid.layout);
+      apply(
+        "Edit board outline",
+        (d) => {
+          const cur = d.board.outline[index];
+          if (!cur || (cur.x === x && cur.y === y)) return d;
+          return {
+            ...d,
+            board: {
+              ...d.board,
+              outline: d.board.outline.map((p, i) => (i === index ? { x, y } : p)),
+            },
+          };
+        },
+        key
+      );
+    });
+  };
+
+  const insertOutlineVertex = (e: React.MouseEvent, after: number) => {
+    e.stopPropagation();
+    apply("Edit board outline", (d) => {
+      const pts = d.board.outline;
+      const a = pts[after];
+      const b = pts[(after + 1) % pts.length];
+      const mid = {
+        x: snap((a.x + b.x) / 2, grid.layout),
+        y: snap((a.y + b.y) / 2, grid.layout),
+      };
+      return {
+        ...d,
+        board: { ...d.board, outline: [...pts.slice(0, after + 1), mid, ...pts.slice(after + 1)] },
+      };
+    });
   };
 
-  const shareLink = () => {
-    const encoded = encodeDesign(design);
-    const url = `${window.location.origin}${window.location.pathname}#${encoded}`;
+  const shareLink = async () => {
+    const url = shareUrl(await encodeShare(design));
     navigator.clipboard.writeText(url);
-    setMessage("Share link copied");
+    setMessage(
+      url.length > SHARE_URL_WARN
+        ? `Share link copied (${url.length} characters, may be too long for some apps)`
+        : "Share link copied"
+    );
     setTimeout(() => setMessage(""), 2000);
   };
 
-  const exportJSON = () => {
-    const blob = new Blob([JSON.stringify(design, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "design.json";
-    a.click();
-    URL.revokeObjectURL(url);
+  const failed = (what: string) => (err: unknown) =>
+    setMessage(`${what}: ${err instanceof Error ? err.message : err}`);
+
+  const refreshProjects = () => listProjects().then(setProjects);
+
+  // Save the open project right away, so switching away keeps the last edits
+  const flushProject = async () => {
+    if (source?.type !== "project") return;
+    await saveProject(source.id, history.present, { past: history.past, future: history.future });
+  };
+
+  const switchProject = async (id: string) => {
+    await flushProject();
+    showProject(await openProject(id));
+    setShowProjects(false);
+    setReport(null);
+    await refreshProjects();
+  };
+
+  const openProjectManager = () => {
+    setShowProjects(true);
+    setSnapshots(null);
+    refreshProjects().catch(failed("Projects could not be listed"));
+    if (projectId) {
+      listSnapshots(projectId).then(setSnapshots, failed("Snapshots could not be listed"));
+    }
+  };
+
+  const newProject = () =>
+    createProject(untitledName(projects), emptyDesign())
+      .then((info) => switchProject(info.id))
+      .catch(failed("Project could not be created"));
+
+  const openSavedProject = (id: string) =>
+    switchProject(id).catch(failed("Project could not be opened"));
+
+  const renameSavedProject = (id: string, name: string) =>
+    renameProject(id, name).then(refreshProjects).catch(failed("Project could not be renamed"));
+
+  const duplicateSavedProject = (id: string) => {
+    const name = projects.find((p) => p.id === id)?.name ?? "Project";
+    flushProject()
+      .then(() => duplicateProject(id, `${name} copy`))
+      .then(refreshProjects)
+      .catch(failed("Project could not be duplicated"));
+  };
+
+  // Deleting the open project moves to the next most recent one, or to a new
+  // empty project when it was the last
+  const deleteSavedProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      const rest = await listProjects();
+      setProjects(rest);
+      if (id !== projectId) return;
+      const next = rest[0] ?? (await createProject("Untitled", emptyDesign()));
+      showProject(await openProject(next.id));
+      await refreshProjects();
+      setSnapshots([]);
+    } catch (err) {
+      failed("Project could not be deleted")(err);
+    }
+  };
+
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    apply("Restore snapshot", () => snapshot.design);
+    sealHistory();
+    setShowProjects(false);
+    setReport(null);
+    setMessage(`Restored the snapshot of ${new Date(snapshot.time).toLocaleString()}`);
+    setTimeout(() => setMessage(""), 2000);
+  };
+
+  const compareSnapshot = (snapshot: Snapshot) => {
+    const changes = diffDesigns(snapshot.design, design);
+    setShowProjects(false);
+    setReport({
+      title: `Changes since ${new Date(snapshot.time).toLocaleString()}`,
+      lines: changes.length ? changes : ["No changes"],
+      action: { label: "Restore this snapshot", run: () => restoreSnapshot(snapshot) },
+    });
+  };
+
+  // Keep editing a shared design as a project of its own
+  const forkDesign = () =>
+    createProject("Fork of shared design", history.present)
+      .then((info) => {
+        setSource({ type: "project", id: info.id });
+        setHistory((h) => createHistory(h.present));
+        window.history.replaceState(null, "", window.location.pathname);
+        setMessage("Forked into a new project; your other projects are unchanged");
+        setTimeout(() => setMessage(""), 3000);
+        return refreshProjects();
+      })
+      .catch(failed("Fork failed"));
+
+  const collabSettings = () => {
+    const saved = JSON.parse(localStorage.getItem("fluxlite-collab") ?? "{}");
+    return {
+      url: saved.url ?? `ws://${window.location.hostname || "localhost"}:8787`,
+      room: projectId ?? "",
+      name: saved.name ?? "",
+    };
+  };
+
+  // Merge edits from the room into the design. Local edits the outbox effect
+  // has not recorded yet go in first so they survive. Remote edits are not
+  // undo steps of their own; they are carried into the history instead.
+  // The replica is only touched here: state updaters can run twice.
+  const mergeRemote = (ops: Op[]) => {
+    const doc = collabDoc.current;
+    if (!doc) return;
+    const base = collabPresent.current;
+    collabOutbox.current.push(...doc.change(base));
+    const accepted = doc.merge(ops);
+    if (accepted.length === 0) return;
+    const merged = doc.design();
+    const rebase = (e: HistoryEntry<Design>) => ({ ...e, value: applyOps(e.value, accepted) });
+    setHistory((h) => ({
+      past: h.past.map(rebase),
+      // an edit made since the last render is kept, with the remote ones over it
+      present: h.present === base ? merged : applyOps(h.present, accepted),
+      future: h.future.map(rebase),
+      group: null,
+    }));
+  };
+
+  // Joining a room that has a design adopts it and starts a fresh history;
+  // an empty room takes this one. After a dropped connection, edits made
+  // offline merge back in and the whole replica is resent.
+  const welcome = (ops: Op[]) => {
+    const doc = collabDoc.current;
+    if (!doc) return;
+    const base = collabPresent.current;
+    const adopt = doc.empty && ops.length > 0;
+    if (!adopt) doc.change(base);
+    const accepted = doc.merge(ops);
+    collabOutbox.current = doc.state();
+    const merged = doc.design();
+    if (adopt) {
+      setHistory(createHistory(merged));
+      return;
+    }
+    if (accepted.length === 0) return;
+    setHistory((h) => ({
+      ...h,
+      present: h.present === base ? merged : applyOps(h.present, accepted),
+      group: null,
+    }));
+  };
+
+  const startCollab = ({ url, room, name }: CollabSettings) => {
+    stopCollab();
+    setShowCollab(false);
+    localStorage.setItem("fluxlite-collab", JSON.stringify({ url, name }));
+    const peer = {
+      id: nanoid(),
+      name,
+      color: PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)],
+    };
+    collabDoc.current = new CollabDoc(peer.id);
+    setCollab({ room, status: "connecting" });
+    collabSession.current = new CollabSession(url, room, peer, {
+      onStatus: (status) => setCollab((c) => c && { ...c, status }),
+      onWelcome: (ops, peers) => {
+        setRemotePeers(Object.fromEntries(peers.map((p) => [p.peer.id, p])));
+        welcome(ops);
+      },
+      onOps: mergeRemote,
+      onPresence: (peer, presence) =>
+        setRemotePeers((peers) => ({ ...peers, [peer.id]: { peer, presence } })),
+      onLeave: (id) =>
+        setRemotePeers((peers) => Object.fromEntries(Object.entries(peers).filter(([k]) => k !== id))),
+    });
+  };
+
+  // Send local edits (and whatever merging queued) while connected
+  useEffect(() => {
+    collabPresent.current = history.present;
+    const doc = collabDoc.current;
+    if (!doc || collab?.status !== "connected") return;
+    const ops = [...collabOutbox.current, ...doc.change(history.present)];
+    collabOutbox.current = [];
+    collabSession.current?.sendOps(ops);
+  }, [history.present, collab?.status]);
+
+  // what this user is looking at, to match remote cursors against
+  const presenceView = mode === "layout" ? "layout" : (sheetId ?? "");
+
+  // Cursor moves are sent from onMouseMove; view and selection changes here
+  useEffect(() => {
+    if (collab?.status !== "connected") return;
+    collabSession.current?.sendPresence({
+      view: presenceView,
+      cursor: collabCursor.current.at,
+      selection: selectedIds,
+    });
+  }, [presenceView, selectedIds, collab?.status]);
+
+  useEffect(() => () => collabSession.current?.close(), []);
+
+  const download = (filename: string, content: BlobPart, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportJSON = () => {
+    download("design.json", JSON.stringify(design, null, 2), "application/json");
+  };
+
+  const exportBomCSV = () => {
+    download("bom.csv", bomToCsv(bom), "text/csv");
+  };
+
+  // Gerbers, drill and pick-and-place in one zip
+  const exportFabrication = () => {
+    const fab = buildFabrication(routed, netlist, pads);
+    download("board-fab.zip", makeZip(fabricationFiles(fab)), "application/zip");
+    // the deferred check may not have caught up with the last edit yet
+    const violations = drcStale ? runDrc(routed, netlist, pads) : drcViolations;
+    if (violations.length) {
+      setMessage(`Exported with ${violations.length} DRC violation(s)`);
+      setTimeout(() => setMessage(""), 2000);
+    }
+  };
+
+  const exportSpice = () => {
+    download("design.cir", toSpiceDeck(circuit), "text/plain");
+    if (circuit.skipped.length) {
+      setMessage(`SPICE export skipped ${circuit.skipped.length} part(s)`);
+      setTimeout(() => setMessage(""), 2000);
+    }
+  };
+
+  // One .kicad_sch per sheet, zipped when there are child sheets
+  const exportKicad = () => {
+    const files = writeKicadSchematic(design, flat);
+    if (files.length === 1) download(files[0].name, files[0].data, "text/plain");
+    else download("design-kicad.zip", makeZip(files), "application/zip");
+  };
+
+  // Plot files: one file as is, several (SVG/PNG per sheet) zipped
+  const exportPlot = (files: ZipEntry[], type: string, archive: string) => {
+    if (files.length === 1) download(files[0].name, files[0].data as BlobPart, type);
+    else download(archive, makeZip(files), "application/zip");
+  };
+
+  const exportKicadNetlist = () => {
+    download("design.net", writeKicadNetlist(flat, netlist), "text/plain");
+  };
+
+  const importKicad: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const { design: imported, report } = readKicadSchematic(String(reader.result));
+        apply("Import KiCad schematic", () => normalizeDesign(imported));
+        sealHistory();
+        setActiveSheet(null);
+        setSelectedIds([]);
+        if (report.length) setReport({ title: "KiCad import", lines: report });
+        setMessage(`Imported ${file.name}`);
+        setTimeout(() => setMessage(""), 1500);
+      } catch (err) {
+        setMessage(err instanceof Error ? err.message : "Invalid file");
+        setTimeout(() => setMessage(""), 3000);
+      }
+    };
+    reader.readAsText(file);
+    e.currentTarget.value = "";
   };
 
   const importJSON: React.ChangeEventHandler<HTMLInputElement> = (e) => {
@@ -343,14 +1996,28 @@ export default function Home() {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = () => {
-      try {
-        const data = JSON.parse(String(reader.result)) as Design;
-        setDesign(data);
+      const text = String(reader.result);
+      const load = (repair: boolean) => {
+        const { design: loaded, repairs } = parseDesign(text, { repair });
+        apply("Import design", () => loaded);
+        sealHistory();
+        setActiveSheet(null);
+        setSelectedIds([]);
+        setReport(
+          repairs.length ? { title: "Repaired on import", lines: repairs.map(formatIssue) } : null
+        );
         setMessage("Design imported");
         setTimeout(() => setMessage(""), 1500);
-      } catch {
-        setMessage("Invalid file");
-        setTimeout(() => setMessage(""), 1500);
+      };
+      try {
+        load(false);
+      } catch (err) {
+        if (!(err instanceof DesignFormatError)) throw err;
+        setReport({
+          title: `${file.name} was not imported`,
+          lines: err.issues.map(formatIssue),
+          action: err.repairable ? { label: "Repair and import", run: () => load(true) } : undefined,
+        });
       }
     };
     reader.readAsText(file);
@@ -361,13 +2028,70 @@ export default function Home() {
   // Keyboard shortcuts
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
+      // leave typing (and the field's own undo) alone
+      if (typing(e)) return;
+      if (editingPart) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redoDesign();
+        else undoDesign();
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "y") {
+        e.preventDefault();
+        redoDesign();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey) {
+        const key = e.key.toLowerCase();
+        const actions: Record<string, () => void> = {
+          c: copySelected,
+          x: cutSelected,
+          v: paste,
+          d: duplicateSelected,
+          a: () => setSelectedIds(visibleComponents.map((c) => c.id)),
+        };
+        if (actions[key]) {
+          e.preventDefault();
+          actions[key]();
+        }
+        return;
+      }
+      // view commands also work while drawing
+      if (e.key === "Home") {
+        e.preventDefault();
+        fitToView(e.shiftKey ? new Set(selectedIds) : undefined);
+        return;
+      }
+      if (wireDraft) {
+        // Escape keeps what has been drawn so far with a free end
+        if (e.key === "Escape") finishWire(wireDraft, null);
+        return;
+      }
+      if (routing) {
+        // Escape keeps what has been drawn so far, V drops a via
+        if (e.key === "Escape") commitRoute(routing);
+        if (e.key.toLowerCase() === "v") placeVia();
+        return;
+      }
+      if (e.key.toLowerCase() === "l" && mode === "layout") {
+        setActiveLayer((l) => (l === "top" ? "bottom" : "top"));
+      }
+      if (e.key === "Escape") {
+        setSelectedIds([]);
+        setHighlightNet(null);
+      }
       if (e.key === "Delete" || e.key === "Backspace") {
         deleteSelected();
       }
       if (e.key.toLowerCase() === "r") {
         rotateSelected();
       }
-      const step = 10;
+      if (e.key.toLowerCase() === "f" && mode === "layout") {
+        flipSelected();
+      }
+      // one grid step, in canvas units
+      const step = mode === "layout" ? grid.layout * MM : grid.schematic;
       if (["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"].includes(e.key)) {
         e.preventDefault();
         if (e.key === "ArrowUp") moveSelected(0, -step);
@@ -378,190 +2102,448 @@ export default function Home() {
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [selectedId]);
-
-  const ComponentSymbol: React.FC<{ c: SchematicComponent }> = ({ c }) => {
-    const w = 40;
-    const h = 20;
-    const isSelected = c.id === selectedId;
-    return (
-      <g
-        transform={`translate(${c.x},${c.y}) rotate(${c.rotation})`}
-        data-component-id={c.id}
-        className="cursor-move"
-        onMouseDown={(e) => {
-          // start drag
-          if (tool.type !== "select") return;
-          e.stopPropagation();
-          setSelectedId(c.id);
-          const start = { x: e.clientX, y: e.clientY, cx: c.x, cy: c.y };
-          const onMove = (ev: MouseEvent) => {
-            const dx = (ev.clientX - start.x) / zoom;
-            const dy = (ev.clientY - start.y) / zoom;
-            setDesign((d) => ({
-              ...d,
-              components: d.components.map((cc) =>
-                cc.id === c.id ? { ...cc, x: snap(start.cx + dx), y: snap(start.cy + dy) } : cc
-              ),
-            }));
-          };
-          const onUp = () => {
-            window.removeEventListener("mousemove", onMove);
-            window.removeEventListener("mouseup", onUp);
-          };
-          window.addEventListener("mousemove", onMove);
-          window.addEventListener("mouseup", onUp);
-        }}
-      >
-        {/* Body */}
-        {c.kind === "resistor" && (
-          <>
-            <line x1={-30} y1={0} x2={-20} y2={0} stroke="#111" strokeWidth={2} />
-            <rect x={-20} y={-8} width={40} height={16} fill="#f9d57a" stroke="#111" />
-            <line x1={20} y1={0} x2={30} y2={0} stroke="#111" strokeWidth={2} />
-          </>
-        )}
-        {c.kind === "capacitor" && (
-          <>
-            <line x1={-20} y1={-10} x2={-20} y2={10} stroke="#111" strokeWidth={2} />
-            <line x1={20} y1={-10} x2={20} y2={10} stroke="#111" strokeWidth={2} />
-            <line x1={-30} y1={0} x2={-20} y2={0} stroke="#111" strokeWidth={2} />
-            <line x1={20} y1={0} x2={30} y2={0} stroke="#111" strokeWidth={2} />
-          </>
-        )}
-        {c.kind === "led" && (
-          <>
-            <circle r={10} fill="#ff6b6b" stroke="#111" />
-            <line x1={-30} y1={0} x2={-10} y2={0} stroke="#111" strokeWidth={2} />
-            <line x1={10} y1={0} x2={30} y2={0} stroke="#111" strokeWidth={2} />
-          </>
-        )}
-        {c.kind === "power" && (
-          <>
-            <polygon points="0,-20 -8,0 8,0" fill="#4ade80" stroke="#111" />
-          </>
-        )}
-        {c.kind === "ground" && (
-          <>
-            <line x1={-10} y1={0} x2={10} y2={0} stroke="#111" />
-            <line x1={-6} y1={4} x2={6} y2={4} stroke="#111" />
-            <line x1={-2} y1={8} x2={2} y2={8} stroke="#111" />
-          </>
-        )}
-        {c.kind === "ic" && (
-          <rect x={-30} y={-30} width={60} height={60} rx={6} fill="#e5e7eb" stroke="#111" />
-        )}
-
-        {/* Label */}
-        <text x={0} y={-18} textAnchor="middle" fontSize={10} fill="#111">
-          {c.label}
-        </text>
-
-        {/* Pins */}
-        {c.pins.map((p) => (
-          <g key={p.id}>
-            {(() => {
-              const pos = pinAbsPosition({ ...c, x: 0, y: 0 }, p);
-              return (
-                <>
-                  <circle
-                    cx={pos.x}
-                    cy={pos.y}
-                    r={4}
-                    fill="#fff"
-                    stroke="#111"
-                    className="cursor-crosshair"
-                    onMouseDown={(e) => {
-                      e.stopPropagation();
-                      if (tool.type === "wire") {
-                        completeWireToPin(c.id, p.id);
-                      } else {
-                        startWireFromPin(c.id, p.id);
-                      }
-                    }}
-                  />
-                  <text x={pos.x} y={pos.y - 8} fontSize={8} textAnchor="middle" fill="#111">
-                    {p.name}
-                  </text>
-                </>
-              );
-            })()}
-          </g>
-        ))}
-
-        {/* Selection highlight */}
-        {isSelected && (
-          <rect x={-40} y={-40} width={80} height={80} fill="none" stroke="#16a34a" strokeDasharray={4} />
-        )}
-      </g>
-    );
-  };
-
-  const WireView: React.FC<{ w: Wire }> = ({ w }) => {
-    if (!w.from || !w.to) return null;
-    const a = getPinAbs(w.from.componentId, w.from.pinId);
-    const b = getPinAbs(w.to.componentId, w.to.pinId);
-    if (!a || !b) return null;
-    return <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#2563eb" strokeWidth={2} />;
-  };
+  }, [
+    selectedIds,
+    design,
+    mode,
+    sheetId,
+    routing,
+    routeCursor,
+    wireDraft,
+    editingPart,
+    grid,
+    readOnly,
+  ]);
 
   return (
     <div className="flex h-screen w-screen overflow-hidden">
+      {showCollab && (
+        <CollabDialog
+          initial={collabSettings()}
+          onConnect={startCollab}
+          onClose={() => setShowCollab(false)}
+        />
+      )}
+      {showPlot && (
+        <PlotDialog
+          design={design}
+          project={projects.find((p) => p.id === projectId)?.name ?? "Shared design"}
+          onExport={exportPlot}
+          onClose={() => setShowPlot(false)}
+        />
+      )}
+      {showProjects && (
+        <ProjectManager
+          projects={projects}
+          currentId={projectId}
+          snapshots={snapshots}
+          onOpen={openSavedProject}
+          onCreate={newProject}
+          onRename={renameSavedProject}
+          onDuplicate={duplicateSavedProject}
+          onDelete={deleteSavedProject}
+          onCompare={compareSnapshot}
+          onRestore={restoreSnapshot}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+      {editingPart && (
+        <SymbolEditor
+          // a fresh editor per part
+          key={editingPart.id}
+          part={editingPart}
+          footprints={FOOTPRINT_NAMES}
+          onSave={saveLibraryPart}
+          onCancel={() => setEditingPart(null)}
+        />
+      )}
       {/* Sidebar Palette */}
       <aside className="w-56 border-r border-black/10 p-3 space-y-3 bg-white">
-        <div className="text-xs font-semibold uppercase text-zinc-500">Palette</div>
-        <div className="grid grid-cols-2 gap-2">
-          {(["resistor", "capacitor", "led", "ic", "power", "ground"] as ComponentKind[]).map(
-            (k) => (
+        {source?.type === "shared" && (
+          <div className="rounded border border-blue-300 bg-blue-50 p-2 text-xs text-blue-900 space-y-2">
+            <div>Read-only view of a shared design</div>
+            <button
+              className="w-full rounded border border-blue-400 bg-white px-2 py-1 text-sm"
+              onClick={forkDesign}
+            >
+              Fork to edit
+            </button>
+          </div>
+        )}
+        {source?.type !== "shared" && (
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0 truncate text-sm font-semibold" title="Open project">
+              {projects.find((p) => p.id === projectId)?.name ?? "…"}
+            </div>
+            <button
+              className="shrink-0 rounded border border-zinc-200 px-2 py-0.5 text-xs"
+              onClick={openProjectManager}
+            >
+              Projects
+            </button>
+          </div>
+        )}
+        {source?.type === "project" &&
+          (collab ? (
+            <div className="flex flex-col gap-1 rounded border border-zinc-200 p-2 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="min-w-0 truncate">
+                  <span
+                    className={`mr-1 inline-block h-2 w-2 rounded-full ${
+                      collab.status === "connected"
+                        ? "bg-green-500"
+                        : collab.status === "connecting"
+                          ? "bg-amber-400"
+                          : "bg-red-500"
+                    }`}
+                  />
+                  Room <span className="font-mono">{collab.room}</span>
+                  {collab.status === "offline" && " (reconnecting)"}
+                </span>
+                <button className="shrink-0 text-zinc-500" onClick={stopCollab}>
+                  Leave
+                </button>
+              </div>
+              {Object.values(remotePeers).map(({ peer }) => (
+                <div key={peer.id} className="flex items-center gap-1">
+                  <span className="inline-block h-2 w-2 rounded-full" style={{ background: peer.color }} />
+                  {peer.name}
+                </div>
+              ))}
+              {Object.keys(remotePeers).length === 0 && (
+                <div className="text-zinc-400">Nobody else here yet</div>
+              )}
+            </div>
+          ) : (
+            <button
+              className="rounded border border-zinc-200 px-2 py-1 text-sm"
+              onClick={() => setShowCollab(true)}
+            >
+              Collaborate
+            </button>
+          ))}
+        {!readOnly && (
+          <>
+            <div className="text-xs font-semibold uppercase text-zinc-500">Palette</div>
+            <input
+              className="w-full rounded border border-zinc-200 px-2 py-1 text-sm"
+              placeholder="Search parts…"
+              value={paletteQuery}
+              onChange={(e) => setPaletteQuery(e.target.value)}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              {(
+                [
+                  "resistor",
+                  "capacitor",
+                  "led",
+                  "ic",
+                  "power",
+                  "ground",
+                  "netlabel",
+                  "port",
+                ] as ComponentKind[]
+              )
+                .filter((k) => k.includes(paletteQuery.trim().toLowerCase()))
+                .map((k) => (
+                  <button
+                    key={k}
+                    className={`rounded border px-2 py-1 text-sm hover:bg-zinc-100 ${
+                      tool.type === "place" && tool.kind === k ? "border-blue-500" : "border-zinc-200"
+                    }`}
+                    onClick={() => setTool({ type: "place", kind: k })}
+                  >
+                    {k}
+                  </button>
+                ))}
+            </div>
+            <div className="max-h-64 space-y-1 overflow-auto">
+              {searchParts(allParts, paletteQuery).map((p) => (
+                <div
+                  key={p.id}
+                  className={`group flex items-center gap-2 rounded border px-1 text-sm hover:bg-zinc-100 ${
+                    tool.type === "place" && tool.partId === p.id ? "border-blue-500" : "border-zinc-200"
+                  }`}
+                >
+                  <button
+                    className="flex min-w-0 flex-1 items-center gap-2 py-0.5 text-left"
+                    title={p.description}
+                    onClick={() => setTool({ type: "place", kind: "part", partId: p.id })}
+                  >
+                    <svg viewBox="-60 -60 120 120" className="h-6 w-6 shrink-0">
+                      <PartGraphics graphics={p.graphics} />
+                    </svg>
+                    <span className="truncate">{p.name}</span>
+                  </button>
+                  <button
+                    className="text-xs text-zinc-500 opacity-0 group-hover:opacity-100"
+                    title={p.id.startsWith("builtin:") ? "Copy into my library and edit" : "Edit part"}
+                    onClick={() => editPart(p)}
+                  >
+                    edit
+                  </button>
+                  {userParts.some((u) => u.id === p.id) && (
+                    <button
+                      className="text-xs text-red-600 opacity-0 group-hover:opacity-100"
+                      title="Remove from my library; placed copies stay in their designs"
+                      onClick={() => deleteLibraryPart(p.id)}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 text-xs">
+              <button
+                className="flex-1 rounded border border-zinc-200 px-1 py-1"
+                onClick={() => setEditingPart(newLibraryPart())}
+              >
+                New part
+              </button>
+              <label className="flex-1 cursor-pointer rounded border border-zinc-200 px-1 py-1 text-center">
+                Import lib
+                <input type="file" accept="application/json" className="hidden" onChange={importLibrary} />
+              </label>
+              <button
+                className="flex-1 rounded border border-zinc-200 px-1 py-1 disabled:opacity-40"
+                onClick={exportLibrary}
+                disabled={userParts.length === 0}
+              >
+                Export lib
+              </button>
+            </div>
+            {design.sheets.length > 0 && (
+              <>
+                <div className="text-xs font-semibold uppercase text-zinc-500">Sheets</div>
+                <div className="grid grid-cols-2 gap-2">
+                  {design.sheets.map((sh) => (
+                    <button
+                      key={sh.id}
+                      className={`truncate rounded border px-2 py-1 text-sm hover:bg-zinc-100 disabled:opacity-40 ${
+                        tool.type === "place" && tool.sheetId === sh.id
+                          ? "border-blue-500"
+                          : "border-zinc-200"
+                      }`}
+                      disabled={wouldRecurse(design, sh.id, sheetId)}
+                      title={`Place ${sh.name} on this sheet`}
+                      onClick={() => setTool({ type: "place", kind: "sheet", sheetId: sh.id })}
+                    >
+                      {sh.name}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+            <div className="pt-4 space-y-2">
               <button
-                key={k}
-                className={`rounded border px-2 py-1 text-sm hover:bg-zinc-100 ${
-                  tool.type === "place" && tool.kind === k ? "border-blue-500" : "border-zinc-200"
+                className={`w-full rounded border px-2 py-1 text-sm ${
+                  tool.type === "select" ? "border-blue-500" : "border-zinc-200"
                 }`}
-                onClick={() => setTool({ type: "place", kind: k })}
+                onClick={() => setTool({ type: "select" })}
               >
-                {k}
+                Select/Move
               </button>
-            )
-          )}
-        </div>
-        <div className="pt-4 space-y-2">
-          <button
-            className={`w-full rounded border px-2 py-1 text-sm ${
-              tool.type === "select" ? "border-blue-500" : "border-zinc-200"
-            }`}
-            onClick={() => setTool({ type: "select" })}
-          >
-            Select/Move
-          </button>
-          <button
-            className={`w-full rounded border px-2 py-1 text-sm ${
-              tool.type === "wire" ? "border-blue-500" : "border-zinc-200"
-            }`}
-            onClick={() => setTool({ type: "wire" })}
-          >
-            Wire
-          </button>
-        </div>
+              <button
+                className={`w-full rounded border px-2 py-1 text-sm ${
+                  tool.type === "wire" ? "border-blue-500" : "border-zinc-200"
+                }`}
+                onClick={() => setTool({ type: "wire" })}
+              >
+                Wire
+              </button>
+              {mode === "layout" && (
+                <button
+                  className={`w-full rounded border px-2 py-1 text-sm ${
+                    tool.type === "route" ? "border-blue-500" : "border-zinc-200"
+                  }`}
+                  onClick={() => setTool({ type: "route" })}
+                >
+                  Route Track
+                </button>
+              )}
+            </div>
+            {mode === "schematic" && (
+              <div className="pt-4">
+                <div className="text-xs font-semibold uppercase text-zinc-500 mb-2">
+                  Annotations
+                </div>
+                <div className="grid grid-cols-2 gap-1 text-xs">
+                  {Object.values(NEW_ANNOTATIONS).map((shape) => (
+                    <button
+                      key={shape.type}
+                      className={`rounded border px-1 py-1 ${
+                        tool.type === "annotate" && tool.shape.type === shape.type
+                          ? "border-blue-500"
+                          : "border-zinc-200"
+                      }`}
+                      onClick={() => setTool({ type: "annotate", shape })}
+                    >
+                      {ANNOTATION_LABELS[shape.type]}
+                    </button>
+                  ))}
+                  <label
+                    className={`cursor-pointer rounded border px-1 py-1 text-center ${
+                      tool.type === "annotate" && tool.shape.type === "image"
+                        ? "border-blue-500"
+                        : "border-zinc-200"
+                    }`}
+                  >
+                    {ANNOTATION_LABELS.image}
+                    <input type="file" accept="image/*" className="hidden" onChange={importImage} />
+                  </label>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+        {mode === "layout" && (
+          <div className="pt-4">
+            <div className="text-xs font-semibold uppercase text-zinc-500 mb-2">Layers</div>
+            <div className="space-y-1 text-sm">
+              {(
+                [
+                  ["top", "Top copper"],
+                  ["bottom", "Bottom copper"],
+                  ["silkscreen", "Silkscreen"],
+                  ["ratsnest", "Ratsnest"],
+                ] as [keyof LayerVisibility, string][]
+              ).map(([layer, label]) => (
+                <label key={layer} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={layerVisibility[layer]}
+                    onChange={(e) =>
+                      setLayerVisibility((v) => ({ ...v, [layer]: e.target.checked }))
+                    }
+                  />
+                  {layer in LAYER_COLORS && (
+                    <span
+                      className="inline-block h-3 w-3 rounded-sm"
+                      style={{ background: LAYER_COLORS[layer as CopperLayer] }}
+                    />
+                  )}
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div className="mt-2 flex gap-2">
+              {(["top", "bottom"] as CopperLayer[]).map((layer) => (
+                <button
+                  key={layer}
+                  className={`flex-1 rounded border px-2 py-1 text-xs ${
+                    activeLayer === layer ? "border-blue-500" : "border-zinc-200"
+                  }`}
+                  onClick={() => setActiveLayer(layer)}
+                  disabled={!!routing}
+                >
+                  Route {layer}
+                </button>
+              ))}
+            </div>
+            <div className="mt-1 text-xs text-zinc-500">L switches layer, V places a via</div>
+          </div>
+        )}
         <div className="pt-4">
           <div className="text-xs font-semibold uppercase text-zinc-500 mb-2">Actions</div>
           <div className="flex flex-col gap-2">
-            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={rotateSelected}>
-              Rotate (R)
-            </button>
-            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={deleteSelected}>
-              Delete (Del)
-            </button>
-            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={shareLink}>
+            {!readOnly && (
+              <>
+                <div className="flex gap-2">
+                  <button
+                    className="flex-1 rounded border border-zinc-200 px-2 py-1 text-sm disabled:opacity-40"
+                    onClick={undoDesign}
+                    disabled={history.past.length === 0}
+                    title={undoLabel(history) ? `Undo ${undoLabel(history)} (Ctrl+Z)` : "Nothing to undo"}
+                  >
+                    Undo
+                  </button>
+                  <button
+                    className="flex-1 rounded border border-zinc-200 px-2 py-1 text-sm disabled:opacity-40"
+                    onClick={redoDesign}
+                    disabled={history.future.length === 0}
+                    title={redoLabel(history) ? `Redo ${redoLabel(history)} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                  >
+                    Redo
+                  </button>
+                </div>
+                <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={rotateSelected}>
+                  Rotate (R)
+                </button>
+                <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={deleteSelected}>
+                  Delete (Del)
+                </button>
+                <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={duplicateSelected}>
+                  Duplicate (Ctrl+D)
+                </button>
+                {mode === "layout" && (
+                  <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={flipSelected}>
+                    Flip Side (F)
+                  </button>
+                )}
+              </>
+            )}
+            <button
+              className="flex items-center justify-between rounded border border-zinc-200 px-2 py-1 text-sm"
+              onClick={shareLink}
+              title={
+                shareSize !== null && shareSize > SHARE_URL_WARN
+                  ? "Long links may be cut off by chat apps and some browsers"
+                  : "Copy a link that opens this design read-only"
+              }
+            >
               Share Link
+              {shareSize !== null && (
+                <span
+                  className={`text-xs ${shareSize > SHARE_URL_WARN ? "text-amber-600" : "text-zinc-400"}`}
+                >
+                  {(shareSize / 1000).toFixed(1)} kB
+                </span>
+              )}
             </button>
             <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={exportJSON}>
               Export JSON
             </button>
-            <label className="rounded border border-zinc-200 px-2 py-1 text-sm text-center cursor-pointer">
-              Import JSON
-              <input type="file" accept="application/json" className="hidden" onChange={importJSON} />
-            </label>
+            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={exportSpice}>
+              Export SPICE
+            </button>
+            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={() => setShowPlot(true)}>
+              Plot (PDF/SVG/PNG)
+            </button>
+            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={exportKicad}>
+              Export KiCad
+            </button>
+            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={exportKicadNetlist}>
+              Export KiCad Netlist
+            </button>
+            {mode === "layout" && (
+              <button
+                className="rounded border border-zinc-200 px-2 py-1 text-sm"
+                onClick={exportFabrication}
+              >
+                Fabrication Outputs
+              </button>
+            )}
+            <button
+              className={`rounded border px-2 py-1 text-sm ${
+                showOperatingPoint ? "border-blue-500" : "border-zinc-200"
+              }`}
+              onClick={() => setShowOperatingPoint((v) => !v)}
+            >
+              DC Operating Point
+            </button>
+            {!readOnly && (
+              <>
+                <label className="rounded border border-zinc-200 px-2 py-1 text-sm text-center cursor-pointer">
+                  Import JSON
+                  <input type="file" accept="application/json" className="hidden" onChange={importJSON} />
+                </label>
+                <label className="rounded border border-zinc-200 px-2 py-1 text-sm text-center cursor-pointer">
+                  Import KiCad
+                  <input type="file" accept=".kicad_sch" className="hidden" onChange={importKicad} />
+                </label>
+              </>
+            )}
           </div>
         </div>
         <div className="pt-4 border-t mt-4">
@@ -569,108 +2551,549 @@ export default function Home() {
           <div className="flex gap-2">
             <button
               className={`flex-1 rounded border px-2 py-1 text-sm ${mode === "schematic" ? "border-blue-500" : "border-zinc-200"}`}
-              onClick={() => setMode("schematic")}
+              onClick={() => switchMode("schematic")}
             >
               Schematic
             </button>
             <button
               className={`flex-1 rounded border px-2 py-1 text-sm ${mode === "layout" ? "border-blue-500" : "border-zinc-200"}`}
-              onClick={() => setMode("layout")}
+              onClick={() => switchMode("layout")}
             >
               Layout
             </button>
           </div>
         </div>
         {message && <div className="text-xs text-emerald-600 pt-2">{message}</div>}
+        {report && (
+          <div className="mt-2 rounded border border-amber-300 bg-amber-50 p-2 text-xs">
+            <div className="flex items-center justify-between font-semibold">
+              {report.title}
+              <button className="font-normal text-zinc-500" onClick={() => setReport(null)}>
+                Dismiss
+              </button>
+            </div>
+            <ul className="mt-1 max-h-40 list-disc space-y-0.5 overflow-auto pl-4 text-zinc-700">
+              {report.lines.map((line, i) => (
+                <li key={i} className="break-words">
+                  {line}
+                </li>
+              ))}
+            </ul>
+            {report.action && (
+              <button
+                className="mt-2 rounded border border-amber-400 bg-white px-2 py-0.5"
+                onClick={report.action.run}
+              >
+                {report.action.label}
+              </button>
+            )}
+          </div>
+        )}
+        {operatingPoint && !operatingPoint.ok && (
+          <div className="text-xs text-red-600 pt-2">{operatingPoint.error}</div>
+        )}
       </aside>
 
       {/* Main Canvas */}
       <main className="flex-1 relative bg-zinc-50">
         <div className="absolute left-3 top-3 z-10 rounded bg-white/90 shadow border border-zinc-200 px-2 py-1 text-xs">
           Tool: {tool.type}
-          {tool.type === "place" ? ` (${tool.kind})` : ""} ? Mode: {mode}
+          {tool.type === "place" ? ` (${tool.kind})` : ""}
+          {tool.type === "route" ? ` (${routing?.layer ?? activeLayer})` : ""} ? Mode: {mode}
+        </div>
+        <div className="absolute right-3 top-3 z-10 w-56 space-y-1 text-xs">
+          <input
+            aria-label="Find part"
+            className="w-full rounded border border-zinc-200 bg-white px-2 py-1 shadow"
+            placeholder="Find part by designator or label…"
+            value={partQuery}
+            onChange={(e) => setPartQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && partMatches[0]) findPart(partMatches[0].id);
+              if (e.key === "Escape") setPartQuery("");
+            }}
+          />
+          {partQuery.trim() && (
+            <div className="rounded border border-zinc-200 bg-white shadow">
+              {partMatches.length === 0 && <div className="px-2 py-1 text-zinc-500">No match</div>}
+              {partMatches.map((c) => (
+                <button
+                  key={c.id}
+                  className="block w-full px-2 py-1 text-left hover:bg-zinc-50"
+                  onClick={() => findPart(c.id)}
+                >
+                  <span className="font-mono">{c.ref || "—"}</span> {c.label}
+                  <span className="text-zinc-400"> {flat.paths[c.id]}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {netHighlight && (
+            <div className="flex items-center justify-between rounded border border-amber-300 bg-amber-50 px-2 py-1 shadow">
+              <span>
+                Net <span className="font-mono">{netHighlight.name}</span>
+              </span>
+              <button className="text-zinc-500" onClick={() => setHighlightNet(null)}>
+                Clear
+              </button>
+            </div>
+          )}
         </div>
+        {mode === "schematic" && (
+          <div className="absolute left-3 top-10 z-10 flex items-center gap-1 text-xs">
+            {[{ id: null, name: "Root" }, ...design.sheets].map((sh) => (
+              <button
+                key={sh.id ?? "root"}
+                className={`rounded border bg-white px-2 py-1 ${
+                  sheetId === sh.id ? "border-blue-500" : "border-zinc-200"
+                }`}
+                onClick={() => openSheet(sh.id)}
+              >
+                {sh.name}
+              </button>
+            ))}
+            <button className="rounded border border-zinc-200 bg-white px-2 py-1" onClick={addSheet}>
+              + Sheet
+            </button>
+            {sheetId && (
+              <>
+                <input
+                  aria-label="Sheet name"
+                  className="ml-2 w-28 rounded border border-zinc-200 px-2 py-1"
+                  value={design.sheets.find((sh) => sh.id === sheetId)!.name}
+                  onChange={(e) => renameSheet(sheetId, e.target.value)}
+                  onBlur={sealHistory}
+                />
+                <button
+                  className="rounded border border-zinc-200 bg-white px-2 py-1 text-red-600"
+                  onClick={() => deleteSheet(sheetId)}
+                >
+                  Delete sheet
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        <div className="absolute bottom-3 left-3 z-10 flex items-center gap-1 rounded border border-zinc-200 bg-white/90 px-2 py-1 text-xs shadow">
+          <button className="px-1" title="Zoom out" onClick={() => zoomCanvas(1 / 1.25)}>
+            −
+          </button>
+          <span className="w-10 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+          <button className="px-1" title="Zoom in" onClick={() => zoomCanvas(1.25)}>
+            +
+          </button>
+          <button
+            className="rounded border border-zinc-200 px-2"
+            title="Show everything (Home)"
+            onClick={() => fitToView()}
+          >
+            Fit
+          </button>
+          <button
+            className="rounded border border-zinc-200 px-2 disabled:opacity-40"
+            title="Zoom to the selection (Shift+Home)"
+            disabled={selectedIds.length === 0}
+            onClick={() => fitToView(selectedSet)}
+          >
+            Selection
+          </button>
+          <label className="ml-2 flex items-center gap-1">
+            Grid
+            <select
+              className="rounded border border-zinc-200 bg-white"
+              value={grid[mode]}
+              onChange={(e) => setGridPitch(mode, Number(e.target.value))}
+            >
+              {GRID_CHOICES[mode].map((pitch) => (
+                <option key={pitch} value={pitch}>
+                  {mode === "layout" ? `${pitch} mm` : pitch}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="ml-2 flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={showMinimap}
+              onChange={(e) => setShowMinimap(e.target.checked)}
+            />
+            Map
+          </label>
+        </div>
+        {showMinimap && minimap.bounds && (
+          <Minimap
+            bounds={minimap.bounds}
+            shapes={minimap.shapes}
+            visible={visible}
+            dark={mode === "layout"}
+            onCenter={(at) => setView(centerOn({ pan, zoom }, at, viewport.width, viewport.height))}
+          />
+        )}
         <svg
           ref={svgRef}
-          className="h-full w-full"
-          onWheel={onWheel}
+          className={`h-full w-full touch-none ${spacePan ? "cursor-grab" : ""}`}
           onMouseDown={onMouseDown}
           onMouseMove={onMouseMove}
           onMouseUp={onMouseUp}
+          onDoubleClick={onDoubleClick}
+          onTouchStart={onTouchStart}
+          onTouchMove={onTouchMove}
+          onTouchEnd={onTouchEnd}
+          onTouchCancel={onTouchEnd}
         >
-          {/* Grid */}
           <defs>
-            <pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse">
-              <path d="M 20 0 L 0 0 0 20" fill="none" stroke="#e5e7eb" strokeWidth="1" />
+            <pattern id="grid" width={gridStep} height={gridStep} patternUnits="userSpaceOnUse">
+              <path
+                d={`M ${gridStep} 0 L 0 0 0 ${gridStep}`}
+                fill="none"
+                stroke="#e5e7eb"
+                strokeWidth={1 / zoom}
+              />
             </pattern>
           </defs>
-          <rect x={0} y={0} width="100%" height="100%" fill="url(#grid)" />
           <g transform={`translate(${pan.x},${pan.y}) scale(${zoom})`}>
+            {/* Grid, moving and scaling with the design */}
+            <rect
+              x={visible.x}
+              y={visible.y}
+              width={visible.w}
+              height={visible.h}
+              fill="url(#grid)"
+              pointerEvents="none"
+            />
             {mode === "schematic" && (
               <>
-                {design.wires.map((w) => (
-                  <WireView key={w.id} w={w} />
+                {view.annotations.map((a) => (
+                  <AnnotationItem
+                    key={a.id}
+                    a={dragPreview?.annotations.get(a.id) ?? a}
+                    selected={selectedSet.has(a.id)}
+                  />
                 ))}
-                {currentOpenWire && currentOpenWire.from && (
-                  (() => {
-                    const a = getPinAbs(
-                      currentOpenWire.from.componentId,
-                      currentOpenWire.from.pinId
-                    );
-                    if (!a) return null;
-                    return (
-                      <circle cx={a.x} cy={a.y} r={3} fill="#2563eb" />
-                    );
-                  })()
-                )}
-                {design.components.map((c) => (
-                  <ComponentSymbol key={c.id} c={c} />
+                {view.wires.map((w) => {
+                  const path = shownPaths.get(w.id);
+                  if (!path?.length) return null;
+                  const xs = path.map((p) => p.x);
+                  const ys = path.map((p) => p.y);
+                  if (!inView(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys))) {
+                    return null;
+                  }
+                  const onNet = !!netHighlight?.wires.has(w.id);
+                  return (
+                    <WireShape
+                      key={w.id}
+                      id={w.id}
+                      path={path}
+                      selected={selectedSet.has(w.id)}
+                      onNet={onNet}
+                      dimmed={!!netHighlight && !onNet}
+                      grabbable={tool.type === "select"}
+                    />
+                  );
+                })}
+                {wireAnalysis.junctions.map((p) => (
+                  <circle key={`${p.x},${p.y}`} cx={p.x} cy={p.y} r={4} fill="#2563eb" />
                 ))}
+                {wireDraft && (
+                  <polyline
+                    points={[
+                      ...wireDraft.points,
+                      ...(wireCursor
+                        ? route90(wireDraft.points[wireDraft.points.length - 1], wireCursor)
+                        : []),
+                    ]
+                      .map((p) => `${p.x},${p.y}`)
+                      .join(" ")}
+                    fill="none"
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    strokeDasharray={4}
+                    pointerEvents="none"
+                  />
+                )}
+                {shownComponents.map((c) => {
+                  const part = c.kind === "part" && c.partId ? partIndex.get(c.partId) : undefined;
+                  const r = symbolReach(c, part);
+                  if (!inView(c.x - r, c.y - r, c.x + r, c.y + r)) return null;
+                  return (
+                    <SchematicSymbol
+                      key={c.id}
+                      c={c}
+                      part={part}
+                      sheetName={c.sheetId ? sheetNames.get(c.sheetId) : undefined}
+                      selected={selectedSet.has(c.id)}
+                      netPins={netHighlight?.pins ?? null}
+                    />
+                  );
+                })}
+                {marquee && (
+                  <rect
+                    x={Math.min(marquee.x0, marquee.x1)}
+                    y={Math.min(marquee.y0, marquee.y1)}
+                    width={Math.abs(marquee.x1 - marquee.x0)}
+                    height={Math.abs(marquee.y1 - marquee.y0)}
+                    fill="#3b82f6"
+                    fillOpacity={0.08}
+                    stroke="#3b82f6"
+                    strokeDasharray={4}
+                    pointerEvents="none"
+                  />
+                )}
+                {operatingPoint?.ok && (
+                  <g pointerEvents="none" fontSize={9}>
+                    {/* Net voltages at the first pin of each net */}
+                    {netlist.map((n) => {
+                      const [cid, pid] = n.pins[0].split(":");
+                      const pos = getPinAbs(cid, pid);
+                      const v = operatingPoint.voltages.get(circuit.nodeOfNet.get(n.name) ?? "");
+                      if (!pos || v === undefined) return null;
+                      return (
+                        <text key={n.name} x={pos.x + 6} y={pos.y + 14} fill="#7c3aed">
+                          {formatSI(v, "V")}
+                        </text>
+                      );
+                    })}
+                    {/* Branch currents under resistors and LEDs */}
+                    {view.components.map((c) => {
+                      const i = operatingPoint.currents.get(c.id);
+                      if (i === undefined) return null;
+                      return (
+                        <text key={c.id} x={c.x} y={c.y + 38} textAnchor="middle" fill="#c2410c">
+                          {formatSI(Math.abs(i), "A")}
+                        </text>
+                      );
+                    })}
+                  </g>
+                )}
               </>
             )}
 
             {mode === "layout" && (
-              <>
+              <g transform={`scale(${MM})`}>
                 {/* Board outline */}
-                <rect x={-400} y={-300} width={800} height={600} fill="#0f172a" rx={12} />
-                {/* Components footprints */}
-                {design.components.map((c) => (
-                  <g key={c.id} transform={`translate(${c.x},${c.y}) rotate(${c.rotation})`}>
-                    <rect x={-20} y={-10} width={40} height={20} fill="#94a3b8" rx={4} />
-                    <text x={0} y={-14} textAnchor="middle" fontSize={8} fill="#fff">
-                      {c.label}
-                    </text>
+                <polygon
+                  points={design.board.outline.map((p) => `${p.x},${p.y}`).join(" ")}
+                  fill="#0f172a"
+                  stroke="#facc15"
+                  strokeWidth={0.2}
+                />
+                {/* Footprints, bottom side first so top-side parts draw over them */}
+                {shownParts
+                  .filter((c) => {
+                    const body = getFootprint(c.props.footprint)?.body;
+                    if (!body) return false;
+                    const r = Math.hypot(body.w, body.h) / 2;
+                    const { x, y } = c.placement;
+                    return inView(x - r, y - r, x + r, y + r);
+                  })
+                  .sort(
+                    (a, b) =>
+                      Number(b.placement.side === "bottom") - Number(a.placement.side === "bottom")
+                  )
+                  .map((c) => (
+                    <FootprintShape
+                      key={c.id}
+                      c={c}
+                      selected={selectedSet.has(c.id)}
+                      dimmed={!!netHighlight && !netHighlight.parts.has(c.id)}
+                      visibility={layerVisibility}
+                    />
+                  ))}
+                {/* Copper: bottom layer under top layer */}
+                {(["bottom", "top"] as CopperLayer[])
+                  .filter((layer) => layerVisibility[layer])
+                  .map((layer) => (
+                    <g key={layer} opacity={layer === activeLayer ? 0.9 : 0.6}>
+                      {design.board.tracks
+                        .filter((t) => t.layer === layer)
+                        .map((t) => (
+                          <polyline
+                            key={t.id}
+                            opacity={netHighlight && !netHighlight.copper.has(t.id) ? 0.25 : undefined}
+                            points={t.points.map((p) => `${p.x},${p.y}`).join(" ")}
+                            fill="none"
+                            stroke={selectedIds.includes(t.id) ? "#22c55e" : LAYER_COLORS[layer]}
+                            strokeWidth={t.width}
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            onMouseDown={(e) => selectBoardItem(e, t.id)}
+                          />
+                        ))}
+                    </g>
+                  ))}
+                {design.board.vias.map((v) => (
+                  <g
+                    key={v.id}
+                    opacity={netHighlight && !netHighlight.copper.has(v.id) ? 0.25 : undefined}
+                    onMouseDown={(e) => selectBoardItem(e, v.id)}
+                  >
+                    <circle
+                      cx={v.x}
+                      cy={v.y}
+                      r={v.diameter / 2}
+                      fill={selectedIds.includes(v.id) ? "#22c55e" : "#a1a1aa"}
+                    />
+                    <circle cx={v.x} cy={v.y} r={v.drill / 2} fill="#0f172a" />
                   </g>
                 ))}
-                {/* Tracks (reuse schematic wires) */}
-                {design.wires.map((w) => (
-                  (() => {
-                    if (!w.from || !w.to) return null;
-                    const a = getPinAbs(w.from.componentId, w.from.pinId);
-                    const b = getPinAbs(w.to.componentId, w.to.pinId);
-                    if (!a || !b) return null;
-                    return <line key={w.id} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#22d3ee" strokeWidth={3} />;
-                  })()
-                ))}
-              </>
+                {/* Pads of the highlighted net */}
+                {netHighlight &&
+                  [...pads]
+                    .filter(([k]) => netOfPin.get(k) === netHighlight.name)
+                    .map(([k, pad]) => (
+                      <circle
+                        key={k}
+                        cx={pad.x}
+                        cy={pad.y}
+                        r={Math.max(pad.pad.w, pad.pad.h) / 2 + 0.3}
+                        fill="none"
+                        stroke="#f59e0b"
+                        strokeWidth={0.15}
+                        pointerEvents="none"
+                      />
+                    ))}
+                {/* Track being routed */}
+                {routing && (
+                  <g pointerEvents="none" opacity={0.8}>
+                    {routing.tracks.map((t) => (
+                      <polyline
+                        key={t.id}
+                        points={t.points.map((p) => `${p.x},${p.y}`).join(" ")}
+                        fill="none"
+                        stroke={LAYER_COLORS[t.layer]}
+                        strokeWidth={t.width}
+                        strokeLinecap="round"
+                      />
+                    ))}
+                    {routing.vias.map((v) => (
+                      <circle key={v.id} cx={v.x} cy={v.y} r={v.diameter / 2} fill="#a1a1aa" />
+                    ))}
+                    <polyline
+                      points={[
+                        ...routing.points,
+                        ...(routeCursor
+                          ? route45(routing.points[routing.points.length - 1], routeCursor)
+                          : []),
+                      ]
+                        .map((p) => `${p.x},${p.y}`)
+                        .join(" ")}
+                      fill="none"
+                      stroke={LAYER_COLORS[routing.layer]}
+                      strokeWidth={trackWidth(routing.net)}
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                  </g>
+                )}
+                {/* Ratsnest: airwires between pads still to be routed */}
+                <g pointerEvents="none" display={layerVisibility.ratsnest ? undefined : "none"}>
+                  {shownRatsnest.map((l, i) => (
+                    <line
+                      key={i}
+                      x1={l.a.x}
+                      y1={l.a.y}
+                      x2={l.b.x}
+                      y2={l.b.y}
+                      stroke="#e5e7eb"
+                      strokeWidth={0.1}
+                      strokeDasharray="0.4 0.3"
+                    />
+                  ))}
+                </g>
+                {/* DRC markers */}
+                <g pointerEvents="none" opacity={drcStale ? 0.4 : undefined}>
+                  {drcViolations.map((v, i) => (
+                    <g key={i} transform={`translate(${v.at.x},${v.at.y})`}>
+                      <circle
+                        r={focusedDrc === i ? 1.2 : 0.7}
+                        fill="none"
+                        stroke="#f43f5e"
+                        strokeWidth={focusedDrc === i ? 0.3 : 0.15}
+                      />
+                      <path
+                        d="M -0.4 -0.4 L 0.4 0.4 M -0.4 0.4 L 0.4 -0.4"
+                        stroke="#f43f5e"
+                        strokeWidth={0.15}
+                      />
+                    </g>
+                  ))}
+                </g>
+                {/* Outline editing handles */}
+                {tool.type === "select" &&
+                  !readOnly &&
+                  design.board.outline.map((p, i) => {
+                    const next = design.board.outline[(i + 1) % design.board.outline.length];
+                    return (
+                      <g key={i}>
+                        <circle
+                          cx={p.x}
+                          cy={p.y}
+                          r={0.8}
+                          fill="#facc15"
+                          className="cursor-move"
+                          onMouseDown={(e) => beginOutlineDrag(e, i)}
+                        >
+                          <title>Drag to move, Alt+click to remove</title>
+                        </circle>
+                        <circle
+                          cx={(p.x + next.x) / 2}
+                          cy={(p.y + next.y) / 2}
+                          r={0.5}
+                          fill="none"
+                          stroke="#facc15"
+                          strokeWidth={0.15}
+                          className="cursor-copy"
+                          onMouseDown={(e) => insertOutlineVertex(e, i)}
+                        >
+                          <title>Click to add a corner</title>
+                        </circle>
+                      </g>
+                    );
+                  })}
+              </g>
+            )}
+            {Object.values(remotePeers).map(({ peer, presence }) =>
+              presence?.view === presenceView ? (
+                <RemotePresence
+                  key={peer.id}
+                  peer={peer}
+                  presence={presence}
+                  layout={mode === "layout"}
+                  components={mode === "layout" ? flat.components : view.components}
+                  tracks={design.board.tracks}
+                  wires={view.wires}
+                  paths={wireAnalysis.paths}
+                  zoom={zoom}
+                />
+              ) : null
             )}
           </g>
         </svg>
       </main>
 
+      <datalist id="footprint-names">
+        {FOOTPRINT_NAMES.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+
       {/* Right Panel */}
-      <aside className="w-72 border-l border-black/10 p-3 space-y-4 bg-white">
-        <div>
+      <aside className="w-72 border-l border-black/10 p-3 space-y-4 bg-white overflow-y-auto">
+        <fieldset disabled={readOnly} className="min-w-0">
           <div className="text-xs font-semibold uppercase text-zinc-500 mb-2">Properties</div>
-          {selectedId ? (
+          {selectedComponent ? (
             (() => {
-              const c = design.components.find((c) => c.id === selectedId)!;
+              const c = selectedComponent;
               return (
                 <div className="space-y-2 text-sm">
                   <div className="flex items-center justify-between">
                     <div>ID</div>
                     <div className="font-mono text-xs">{c.id.slice(0, 6)}</div>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <div>Ref</div>
+                    <div className="font-mono">{c.ref || "-"}</div>
+                  </div>
                   <div className="flex items-center justify-between">
                     <div>Kind</div>
                     <div className="font-mono">{c.kind}</div>
@@ -679,6 +3102,15 @@ export default function Home() {
                     <div>Position</div>
                     <div className="font-mono text-xs">({c.x}, {c.y})</div>
                   </div>
+                  {mode === "layout" && (
+                    <div className="flex items-center justify-between">
+                      <div>Board</div>
+                      <div className="font-mono text-xs">
+                        ({c.placement.x}, {c.placement.y}) mm, {c.placement.rotation}°,{" "}
+                        {c.placement.side}
+                      </div>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <div>Rotation</div>
                     <div className="font-mono">{c.rotation}?</div>
@@ -690,23 +3122,240 @@ export default function Home() {
                       className="ml-3 flex-1 rounded border border-zinc-200 px-2 py-1 text-sm"
                       value={c.label}
                       onChange={(e) =>
-                        setDesign((d) => ({
-                          ...d,
-                          components: d.components.map((cc) =>
-                            cc.id === c.id ? { ...cc, label: e.target.value } : cc
-                          ),
-                        }))
+                        editComponent(
+                          "Edit label",
+                          c.id,
+                          (cc) => ({ ...cc, label: e.target.value }),
+                          `label:${c.id}`
+                        )
                       }
+                      onBlur={sealHistory}
                     />
                   </div>
+                  {KIND_FIELDS[c.kind].map((field) => (
+                    <div key={field} className="flex items-center justify-between">
+                      <label className="text-sm" htmlFor={`prop-${field}`}>
+                        {FIELD_LABELS[field]}
+                      </label>
+                      <input
+                        id={`prop-${field}`}
+                        list={field === "footprint" ? "footprint-names" : undefined}
+                        className="ml-3 w-36 rounded border border-zinc-200 px-2 py-1 text-sm"
+                        value={c.props[field]}
+                        onChange={(e) =>
+                          editComponent(
+                            `Edit ${FIELD_LABELS[field].toLowerCase()}`,
+                            c.id,
+                            (cc) => ({ ...cc, props: { ...cc.props, [field]: e.target.value } }),
+                            `${field}:${c.id}`
+                          )
+                        }
+                        onBlur={sealHistory}
+                      />
+                    </div>
+                  ))}
+                </div>
+              );
+            })()
+          ) : selectedAnnotation ? (
+            (() => {
+              const a = selectedAnnotation;
+              return (
+                <div className="space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <div>Kind</div>
+                    <div className="font-mono">{ANNOTATION_LABELS[a.type]}</div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>Position</div>
+                    <div className="font-mono text-xs">({a.x}, {a.y})</div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>Rotation</div>
+                    <div className="font-mono">{a.rotation}°</div>
+                  </div>
+                  {ANNOTATION_FIELDS[a.type].map(([field, label, positive]) => {
+                    const value = (a as Record<string, unknown>)[field];
+                    const numeric = typeof value === "number";
+                    return (
+                      <div key={field} className="flex items-center justify-between">
+                        <label className="text-sm" htmlFor={`note-${field}`}>
+                          {label}
+                        </label>
+                        <input
+                          id={`note-${field}`}
+                          type={numeric ? "number" : "text"}
+                          className={`ml-3 rounded border border-zinc-200 px-2 py-1 text-sm ${
+                            numeric ? "w-20 text-right" : "flex-1"
+                          }`}
+                          value={String(value)}
+                          onChange={(e) => {
+                            const v = numeric ? Number(e.target.value) : e.target.value;
+                            if (numeric && (!Number.isFinite(v) || (positive && Number(v) <= 0))) {
+                              return;
+                            }
+                            editAnnotation(
+                              `Edit ${label.toLowerCase()}`,
+                              a.id,
+                              (x) => ({ ...x, [field]: v }) as Annotation,
+                              `${field}:${a.id}`
+                            );
+                          }}
+                          onBlur={sealHistory}
+                        />
+                      </div>
+                    );
+                  })}
                 </div>
               );
             })()
+          ) : selectedIds.length > 1 ? (
+            <div className="text-sm text-zinc-500">{selectedIds.length} items selected</div>
           ) : (
-            <div className="text-sm text-zinc-500">Select a component to edit</div>
+            <div className="text-sm text-zinc-500">Select a component or annotation to edit</div>
+          )}
+        </fieldset>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-xs font-semibold uppercase text-zinc-500">
+              ERC
+              {ercViolations.length > 0 && (
+                <span className="ml-1 normal-case font-normal">
+                  ({ercViolations.filter((v) => v.severity === "error").length} errors,{" "}
+                  {ercViolations.filter((v) => v.severity === "warning").length} warnings)
+                </span>
+              )}
+            </div>
+            <button
+              className="rounded border border-zinc-200 px-2 py-0.5 text-xs"
+              onClick={() => setShowErcRules((v) => !v)}
+            >
+              Rules
+            </button>
+          </div>
+          {showErcRules && (
+            <div className="mb-2 space-y-1 rounded border border-zinc-200 p-2">
+              {ERC_RULES.map((r) => (
+                <div key={r.id} className="flex items-center justify-between text-xs">
+                  <label htmlFor={`erc-${r.id}`}>{r.label}</label>
+                  <select
+                    id={`erc-${r.id}`}
+                    className="rounded border border-zinc-200 px-1 text-xs"
+                    value={ercSeverities[r.id]}
+                    onChange={(e) => setErcSeverity(r.id, e.target.value as ErcSeverity)}
+                  >
+                    <option value="error">Error</option>
+                    <option value="warning">Warning</option>
+                    <option value="off">Off</option>
+                  </select>
+                </div>
+              ))}
+            </div>
           )}
+          <div className="max-h-48 overflow-auto border rounded">
+            {ercViolations.length === 0 ? (
+              <div className="px-2 py-1 text-xs text-zinc-500">No problems found</div>
+            ) : (
+              <ul className="text-xs">
+                {ercViolations.map((v, i) => (
+                  <li key={i}>
+                    <button
+                      className="flex w-full items-start gap-2 border-b px-2 py-1 text-left hover:bg-zinc-50 disabled:cursor-default"
+                      disabled={!v.componentId}
+                      onClick={() => v.componentId && focusComponent(v.componentId)}
+                    >
+                      <span
+                        className={`font-semibold ${
+                          v.severity === "error" ? "text-red-600" : "text-amber-600"
+                        }`}
+                      >
+                        {v.severity === "error" ? "E" : "W"}
+                      </span>
+                      <span>{v.message}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
         </div>
 
+        {mode === "layout" && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-xs font-semibold uppercase text-zinc-500">
+                DRC
+                {drcViolations.length > 0 && (
+                  <span className="ml-1 normal-case font-normal">
+                    ({drcViolations.length} violations)
+                  </span>
+                )}
+              </div>
+              <button
+                className="rounded border border-zinc-200 px-2 py-0.5 text-xs"
+                onClick={() => setShowDrcRules((v) => !v)}
+              >
+                Rules
+              </button>
+            </div>
+            {showDrcRules && (
+              <div className="mb-2 space-y-1 rounded border border-zinc-200 p-2">
+                {(
+                  [
+                    ["clearance", "Clearance"],
+                    ["minTrackWidth", "Min track width"],
+                    ["minAnnularRing", "Min annular ring"],
+                    ["minHoleSize", "Min hole size"],
+                    ["edgeClearance", "Board edge clearance"],
+                  ] as [keyof DrcRules, string][]
+                ).map(([rule, label]) => (
+                  <div key={rule} className="flex items-center justify-between text-xs">
+                    <label htmlFor={`drc-${rule}`}>{label} (mm)</label>
+                    <input
+                      id={`drc-${rule}`}
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      className="w-16 rounded border border-zinc-200 px-1 text-right"
+                      value={design.board.drcRules[rule]}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        if (value >= 0) setDrcRule(rule, value);
+                      }}
+                      onBlur={sealHistory}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="max-h-48 overflow-auto border rounded">
+              {drcViolations.length === 0 ? (
+                <div className="px-2 py-1 text-xs text-zinc-500">No violations</div>
+              ) : (
+                <ul className="text-xs">
+                  {drcViolations.map((v, i) => (
+                    <li key={i}>
+                      <button
+                        className={`w-full border-b px-2 py-1 text-left hover:bg-zinc-50 ${
+                          focusedDrc === i ? "bg-rose-50" : ""
+                        }`}
+                        onClick={() => {
+                          setFocusedDrc(i);
+                          focusPoint(v.at.x * MM, v.at.y * MM);
+                        }}
+                      >
+                        <span className="mr-1 font-mono text-rose-600">{v.rule}</span>
+                        {v.message}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
         <div>
           <div className="text-xs font-semibold uppercase text-zinc-500 mb-2">Netlist</div>
           <div className="max-h-48 overflow-auto border rounded">
@@ -715,27 +3364,55 @@ export default function Home() {
                 <tr className="bg-zinc-50">
                   <th className="text-left px-2 py-1 border-b">Net</th>
                   <th className="text-left px-2 py-1 border-b">Pins</th>
+                  {mode === "layout" && (
+                    <th className="text-right px-2 py-1 border-b">Width</th>
+                  )}
                 </tr>
               </thead>
               <tbody>
                 {netlist.length === 0 && (
                   <tr>
-                    <td className="px-2 py-1 text-zinc-500" colSpan={2}>No nets</td>
+                    <td className="px-2 py-1 text-zinc-500" colSpan={3}>No nets</td>
                   </tr>
                 )}
                 {netlist.map((n) => (
-                  <tr key={n.name}>
+                  <tr
+                    key={n.name}
+                    className={`cursor-pointer ${
+                      netHighlight?.name === n.name ? "bg-amber-50" : "hover:bg-zinc-50"
+                    }`}
+                    title="Highlight this net (alt-click a pin or wire on the canvas too)"
+                    onClick={() => setHighlightNet((h) => (h === n.name ? null : n.name))}
+                  >
                     <td className="px-2 py-1 border-b font-mono">{n.name}</td>
                     <td className="px-2 py-1 border-b">
                       {n.pins
                         .map((p) => {
                           const [cid, pid] = p.split(":");
-                          const c = design.components.find((c) => c.id === cid);
+                          const c = flatIndex.get(cid);
                           const pin = c?.pins.find((pp) => pp.id === pid);
-                          return `${c?.label}.${pin?.name}`;
+                          return `${c?.ref || c?.label}.${pin?.name}`;
                         })
                         .join(", ")}
                     </td>
+                    {mode === "layout" && (
+                      <td className="px-2 py-1 border-b text-right">
+                        <input
+                          type="number"
+                          min={0.1}
+                          step={0.05}
+                          aria-label={`Track width for ${n.name} (mm)`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="w-14 rounded border border-zinc-200 px-1 text-right"
+                          value={trackWidth(n.name)}
+                          onChange={(e) => {
+                            const width = Number(e.target.value);
+                            if (width > 0) setNetWidth(n.name, width);
+                          }}
+                          onBlur={sealHistory}
+                        />
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -744,24 +3421,37 @@ export default function Home() {
         </div>
 
         <div>
-          <div className="text-xs font-semibold uppercase text-zinc-500 mb-2">BOM</div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-xs font-semibold uppercase text-zinc-500">BOM</div>
+            <button
+              className="rounded border border-zinc-200 px-2 py-0.5 text-xs disabled:opacity-40"
+              onClick={exportBomCSV}
+              disabled={bom.length === 0}
+            >
+              Export CSV
+            </button>
+          </div>
           <div className="max-h-48 overflow-auto border rounded">
             <table className="w-full text-xs">
               <thead>
                 <tr className="bg-zinc-50">
-                  <th className="text-left px-2 py-1 border-b">Part</th>
+                  <th className="text-left px-2 py-1 border-b">Refs</th>
+                  <th className="text-left px-2 py-1 border-b">Value</th>
+                  <th className="text-left px-2 py-1 border-b">Footprint</th>
                   <th className="text-right px-2 py-1 border-b">Qty</th>
                 </tr>
               </thead>
               <tbody>
                 {bom.length === 0 && (
                   <tr>
-                    <td className="px-2 py-1 text-zinc-500" colSpan={2}>No parts</td>
+                    <td className="px-2 py-1 text-zinc-500" colSpan={4}>No parts</td>
                   </tr>
                 )}
                 {bom.map((b) => (
-                  <tr key={b.kind}>
-                    <td className="px-2 py-1 border-b">{b.kind}</td>
+                  <tr key={b.refs[0]} title={[b.manufacturer, b.mpn].filter(Boolean).join(" ")}>
+                    <td className="px-2 py-1 border-b font-mono">{b.refs.join(", ")}</td>
+                    <td className="px-2 py-1 border-b">{b.value || b.kind}</td>
+                    <td className="px-2 py-1 border-b">{b.footprint}</td>
                     <td className="px-2 py-1 border-b text-right">{b.qty}</td>
                   </tr>
                 ))}
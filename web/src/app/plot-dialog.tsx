@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import type { Design } from "@/core/design";
+import { writePdf } from "@/core/pdf";
+import {
+  PAPER_SIZES,
+  type PaperSize,
+  pageSvg,
+  plotLayout,
+  plotSchematic,
+  type PlotPage,
+} from "@/core/plot";
+import type { ZipEntry } from "@/core/zip";
+
+type Format = "svg" | "png" | "pdf";
+
+const PNG_DPI = 150;
+
+const MIME: Record<Format, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+  pdf: "application/pdf",
+};
+
+// Rasterize a page's SVG through an <img> and a canvas
+async function pagePng(page: PlotPage): Promise<Uint8Array> {
+  const url = URL.createObjectURL(new Blob([pageSvg(page)], { type: MIME.svg }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round((page.width / 25.4) * PNG_DPI);
+    canvas.height = Math.round((page.height / 25.4) * PNG_DPI);
+    canvas.getContext("2d")!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, MIME.png));
+    if (!blob) throw new Error("PNG encoding failed");
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const slug = (s: string) => s.replace(/[^\w-]+/g, "_");
+
+// Options for a printable plot of the schematic or the board. PDF puts every
+// sheet in one file; SVG and PNG give one file per sheet.
+export function PlotDialog({
+  design,
+  project,
+  onExport,
+  onClose,
+}: {
+  design: Design;
+  project: string;
+  onExport: (files: ZipEntry[], type: string, archive: string) => void;
+  onClose: () => void;
+}) {
+  const [target, setTarget] = useState<"schematic" | "layout">("schematic");
+  const [format, setFormat] = useState<Format>("pdf");
+  const [paper, setPaper] = useState<PaperSize>("A4");
+  const [fit, setFit] = useState(true);
+  const [mono, setMono] = useState(false);
+  const [title, setTitle] = useState(() => ({
+    project,
+    revision: "A",
+    date: new Date().toISOString().slice(0, 10),
+  }));
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const plot = async () => {
+    const options = { paper, fit, monochrome: mono, title };
+    const pages = (target === "schematic" ? plotSchematic : plotLayout)(design, options);
+    const base = `${slug(title.project) || "design"}-${target}`;
+    setBusy(true);
+    setError("");
+    try {
+      if (format === "pdf") {
+        onExport([{ name: `${base}.pdf`, data: writePdf(pages, title.project) }], MIME.pdf, "");
+      } else {
+        const files: ZipEntry[] = [];
+        for (const [i, page] of pages.entries()) {
+          const name = pages.length > 1 ? `${base}-${i + 1}-${slug(page.name)}` : base;
+          const data = format === "svg" ? pageSvg(page) : await pagePng(page);
+          files.push({ name: `${name}.${format}`, data });
+        }
+        onExport(files, MIME[format], `${base}-${format}.zip`);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const field = "rounded border border-zinc-200 px-1";
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30">
+      <div className="flex w-[420px] flex-col gap-3 rounded bg-white p-4 shadow-xl text-sm">
+        <div className="text-sm font-semibold">Plot</div>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col">
+            Content
+            <select
+              className={field}
+              value={target}
+              onChange={(e) => setTarget(e.target.value as typeof target)}
+            >
+              <option value="schematic">Schematic (all sheets)</option>
+              <option value="layout">Board layout</option>
+            </select>
+          </label>
+          <label className="flex flex-col">
+            Format
+            <select
+              className={field}
+              value={format}
+              onChange={(e) => setFormat(e.target.value as Format)}
+            >
+              <option value="pdf">PDF</option>
+              <option value="svg">SVG</option>
+              <option value="png">PNG ({PNG_DPI} dpi)</option>
+            </select>
+          </label>
+          <label className="flex flex-col">
+            Paper
+            <select
+              className={field}
+              value={paper}
+              onChange={(e) => setPaper(e.target.value as PaperSize)}
+            >
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map((p) => (
+                <option key={p} value={p}>
+                  {p} landscape
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex flex-col justify-end gap-1">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={fit} onChange={(e) => setFit(e.target.checked)} />
+              Fit to page
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={mono} onChange={(e) => setMono(e.target.checked)} />
+              Monochrome
+            </label>
+          </div>
+        </div>
+        <div className="text-xs font-semibold uppercase text-zinc-500">Title block</div>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="col-span-2 flex flex-col">
+            Project
+            <input
+              className={field}
+              value={title.project}
+              onChange={(e) => setTitle({ ...title, project: e.target.value })}
+            />
+          </label>
+          <label className="flex flex-col">
+            Revision
+            <input
+              className={field}
+              value={title.revision}
+              onChange={(e) => setTitle({ ...title, revision: e.target.value })}
+            />
+          </label>
+          <label className="flex flex-col">
+            Date
+            <input
+              className={field}
+              value={title.date}
+              onChange={(e) => setTitle({ ...title, date: e.target.value })}
+            />
+          </label>
+        </div>
+        {error && <div className="text-xs text-red-600">{error}</div>}
+        <div className="flex justify-end gap-2">
+          <button className="rounded border border-zinc-200 px-2 py-1" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="rounded border border-blue-500 px-2 py-1 disabled:opacity-40"
+            disabled={busy}
+            onClick={plot}
+          >
+            Plot
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import type { ProjectInfo, Snapshot } from "@/core/projects";
+
+const when = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+// Dialog listing the saved projects, most recently opened first, and the
+// snapshots of the open one
+export function ProjectManager({
+  projects,
+  currentId,
+  snapshots,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onCompare,
+  onRestore,
+  onClose,
+}: {
+  projects: ProjectInfo[];
+  currentId: string | null;
+  // null while loading
+  snapshots: Snapshot[] | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCompare: (snapshot: Snapshot) => void;
+  onRestore: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}) {
+  // project whose name is being edited
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const finishRename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30">
+      <div className="flex max-h-[90vh] w-[640px] flex-col gap-3 overflow-auto rounded bg-white p-4 shadow-xl">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-semibold">Projects</div>
+          <div className="flex gap-2">
+            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={onCreate}>
+              New project
+            </button>
+            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="text-xs font-semibold uppercase text-zinc-500">Recent</div>
+        <div className="divide-y divide-zinc-100 text-sm">
+          {projects.map((p) => (
+            <div key={p.id} className="flex items-center gap-2 py-1">
+              {renaming?.id === p.id ? (
+                <input
+                  autoFocus
+                  className="flex-1 rounded border border-zinc-200 px-1"
+                  value={renaming.name}
+                  onChange={(e) => setRenaming({ id: p.id, name: e.target.value })}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") finishRename();
+                    if (e.key === "Escape") setRenaming(null);
+                  }}
+                />
+              ) : (
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">
+                    {p.name}
+                    {p.id === currentId && (
+                      <span className="ml-1 text-xs text-blue-600">(open)</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-zinc-500">edited {when(p.modified)}</div>
+                </div>
+              )}
+              <button
+                className="rounded border border-zinc-200 px-2 py-0.5 text-xs disabled:opacity-40"
+                disabled={p.id === currentId}
+                onClick={() => onOpen(p.id)}
+              >
+                Open
+              </button>
+              <button
+                className="rounded border border-zinc-200 px-2 py-0.5 text-xs"
+                onClick={() => setRenaming({ id: p.id, name: p.name })}
+              >
+                Rename
+              </button>
+              <button
+                className="rounded border border-zinc-200 px-2 py-0.5 text-xs"
+                onClick={() => onDuplicate(p.id)}
+              >
+                Duplicate
+              </button>
+              <button
+                className="rounded border border-zinc-200 px-2 py-0.5 text-xs text-red-600"
+                onClick={() => {
+                  if (window.confirm(`Delete "${p.name}" and its snapshots?`)) onDelete(p.id);
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {currentId && (
+          <>
+            <div className="text-xs font-semibold uppercase text-zinc-500">
+              Snapshots of the open project
+            </div>
+            {snapshots === null ? (
+              <div className="text-sm text-zinc-500">Loading…</div>
+            ) : snapshots.length === 0 ? (
+              <div className="text-sm text-zinc-500">
+                None yet; one is taken every few minutes while you edit
+              </div>
+            ) : (
+              <div className="divide-y divide-zinc-100 text-sm">
+                {snapshots.map((s) => (
+                  <div key={s.id} className="flex items-center gap-2 py-1">
+                    <div className="flex-1">{when(s.time)}</div>
+                    <div className="text-xs text-zinc-500">
+                      {s.design.components.length} parts, {s.design.wires.length} wires
+                    </div>
+                    <button
+                      className="rounded border border-zinc-200 px-2 py-0.5 text-xs"
+                      onClick={() => onCompare(s)}
+                    >
+                      Compare
+                    </button>
+                    <button
+                      className="rounded border border-zinc-200 px-2 py-0.5 text-xs"
+                      onClick={() => onRestore(s)}
+                    >
+                      Restore
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
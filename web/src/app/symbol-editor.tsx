@@ -0,0 +1,430 @@
+"use client";
+
+import { nanoid } from "nanoid";
+import { useRef, useState } from "react";
+import type { LibraryPart, Pin, PinType, SymbolGraphic } from "@/core/design";
+import { snap } from "@/core/geometry";
+import { boxSymbol, PIN_TYPES, partProblems } from "@/core/library";
+
+// Symbol drawing of a library part; shared by the canvas, palette and editor
+export function PartGraphics({ graphics }: { graphics: SymbolGraphic[] }) {
+  return (
+    <>
+      {graphics.map((g, i) => {
+        const fill = "fill" in g && g.fill ? "#e5e7eb" : "none";
+        switch (g.type) {
+          case "rect":
+            return (
+              <rect key={i} x={g.x} y={g.y} width={g.w} height={g.h} fill={fill} stroke="#111" />
+            );
+          case "circle":
+            return <circle key={i} cx={g.x} cy={g.y} r={g.r} fill={fill} stroke="#111" />;
+          case "polyline":
+            return g.fill ? (
+              <polygon
+                key={i}
+                points={g.points.map((p) => `${p.x},${p.y}`).join(" ")}
+                fill={fill}
+                stroke="#111"
+              />
+            ) : (
+              <polyline
+                key={i}
+                points={g.points.map((p) => `${p.x},${p.y}`).join(" ")}
+                fill="none"
+                stroke="#111"
+                strokeWidth={2}
+              />
+            );
+          case "text":
+            return (
+              <text key={i} x={g.x} y={g.y} fontSize={g.size} fill="#111">
+                {g.text}
+              </text>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+const NEW_GRAPHIC: Record<SymbolGraphic["type"], SymbolGraphic> = {
+  rect: { type: "rect", x: -20, y: -20, w: 40, h: 40, fill: true },
+  polyline: { type: "polyline", points: [{ x: -20, y: 0 }, { x: 20, y: 0 }], fill: false },
+  circle: { type: "circle", x: 0, y: 0, r: 10, fill: false },
+  text: { type: "text", x: 0, y: 0, text: "Text", size: 8 },
+};
+
+function NumberField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1">
+      {label}
+      <input
+        type="number"
+        className="w-14 rounded border border-zinc-200 px-1"
+        value={value}
+        onChange={(e) => {
+          const v = Number(e.target.value);
+          if (Number.isFinite(v)) onChange(v);
+        }}
+      />
+    </label>
+  );
+}
+
+const pointsText = (points: { x: number; y: number }[]) =>
+  points.map((p) => `${p.x},${p.y}`).join(" ");
+
+function parsePoints(text: string) {
+  const points = text
+    .trim()
+    .split(/\s+/)
+    .map((pair) => pair.split(",").map(Number))
+    .filter((xy) => xy.length === 2 && xy.every(Number.isFinite))
+    .map(([x, y]) => ({ x, y }));
+  return points.length >= 2 ? points : null;
+}
+
+function GraphicRow({
+  g,
+  onChange,
+  onRemove,
+}: {
+  g: SymbolGraphic;
+  onChange: (g: SymbolGraphic) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="w-14 font-medium">{g.type}</span>
+      {g.type === "rect" && (
+        <>
+          <NumberField label="x" value={g.x} onChange={(x) => onChange({ ...g, x })} />
+          <NumberField label="y" value={g.y} onChange={(y) => onChange({ ...g, y })} />
+          <NumberField label="w" value={g.w} onChange={(w) => onChange({ ...g, w })} />
+          <NumberField label="h" value={g.h} onChange={(h) => onChange({ ...g, h })} />
+        </>
+      )}
+      {g.type === "circle" && (
+        <>
+          <NumberField label="x" value={g.x} onChange={(x) => onChange({ ...g, x })} />
+          <NumberField label="y" value={g.y} onChange={(y) => onChange({ ...g, y })} />
+          <NumberField label="r" value={g.r} onChange={(r) => onChange({ ...g, r })} />
+        </>
+      )}
+      {g.type === "polyline" && (
+        <input
+          className="w-48 rounded border border-zinc-200 px-1 font-mono"
+          defaultValue={pointsText(g.points)}
+          title="x,y pairs separated by spaces"
+          onBlur={(e) => {
+            const points = parsePoints(e.target.value);
+            if (points) onChange({ ...g, points });
+            else e.target.value = pointsText(g.points);
+          }}
+        />
+      )}
+      {g.type === "text" && (
+        <>
+          <input
+            className="w-24 rounded border border-zinc-200 px-1"
+            value={g.text}
+            onChange={(e) => onChange({ ...g, text: e.target.value })}
+          />
+          <NumberField label="x" value={g.x} onChange={(x) => onChange({ ...g, x })} />
+          <NumberField label="y" value={g.y} onChange={(y) => onChange({ ...g, y })} />
+          <NumberField label="size" value={g.size} onChange={(size) => onChange({ ...g, size })} />
+        </>
+      )}
+      {g.type !== "text" && (
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={g.fill}
+            onChange={(e) => onChange({ ...g, fill: e.target.checked })}
+          />
+          fill
+        </label>
+      )}
+      <button className="ml-auto text-red-600" onClick={onRemove}>
+        ✕
+      </button>
+    </div>
+  );
+}
+
+// Editor for one library part: details, typed pins and symbol drawing, with
+// a preview where pins can be dragged into place
+export function SymbolEditor({
+  part,
+  footprints,
+  onSave,
+  onCancel,
+}: {
+  part: LibraryPart;
+  footprints: string[];
+  onSave: (part: LibraryPart) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(part);
+  const [dragPin, setDragPin] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const problems = partProblems(draft);
+
+  const updatePin = (id: string, patch: Partial<Pin>) =>
+    setDraft((d) => ({ ...d, pins: d.pins.map((p) => (p.id === id ? { ...p, ...patch } : p)) }));
+  const setGraphics = (fn: (g: SymbolGraphic[]) => SymbolGraphic[]) =>
+    setDraft((d) => ({ ...d, graphics: fn(d.graphics) }));
+
+  const addPin = () =>
+    setDraft((d) => {
+      const used = new Set(d.pins.map((p) => Number(p.number)));
+      let n = 1;
+      while (used.has(n)) n++;
+      const pin: Pin = { id: nanoid(), number: String(n), name: "", type: "passive", x: -50, y: 0 };
+      return { ...d, pins: [...d.pins, pin] };
+    });
+
+  // Redraw as a plain IC box with the pins around it, keeping pin identity
+  const layoutAsBox = () =>
+    setDraft((d) => {
+      const box = boxSymbol(d.pins.map((p) => ({ name: p.name, type: p.type ?? "passive" })));
+      return {
+        ...d,
+        graphics: box.graphics,
+        pins: box.pins.map((p, i) => ({ ...d.pins[i], x: p.x, y: p.y })),
+      };
+    });
+
+  const toSymbol = (e: React.MouseEvent) => {
+    const svg = svgRef.current!;
+    const pt = new DOMPoint(e.clientX, e.clientY).matrixTransform(svg.getScreenCTM()!.inverse());
+    return { x: snap(pt.x), y: snap(pt.y) };
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/30">
+      <div className="flex max-h-[90vh] w-[900px] flex-col gap-3 overflow-auto rounded bg-white p-4 shadow-xl">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-semibold">Symbol editor</div>
+          <div className="flex gap-2">
+            <button className="rounded border border-zinc-200 px-2 py-1 text-sm" onClick={onCancel}>
+              Cancel
+            </button>
+            <button
+              className="rounded border border-blue-500 px-2 py-1 text-sm disabled:opacity-40"
+              disabled={problems.length > 0}
+              onClick={() => onSave(draft)}
+            >
+              Save part
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2 text-sm">
+          <label className="flex flex-col">
+            Name
+            <input
+              className="rounded border border-zinc-200 px-1"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </label>
+          <label className="flex flex-col">
+            Prefix
+            <input
+              className="rounded border border-zinc-200 px-1"
+              value={draft.prefix}
+              onChange={(e) => setDraft({ ...draft, prefix: e.target.value })}
+            />
+          </label>
+          <label className="flex flex-col">
+            Footprint
+            <select
+              className="rounded border border-zinc-200 px-1"
+              value={draft.footprint}
+              onChange={(e) => setDraft({ ...draft, footprint: e.target.value })}
+            >
+              <option value="">(none)</option>
+              {footprints.map((f) => (
+                <option key={f} value={f}>
+                  {f}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col">
+            Default value
+            <input
+              className="rounded border border-zinc-200 px-1"
+              value={draft.props.value ?? ""}
+              onChange={(e) => setDraft({ ...draft, props: { ...draft.props, value: e.target.value } })}
+            />
+          </label>
+          <label className="col-span-4 flex flex-col">
+            Description
+            <input
+              className="rounded border border-zinc-200 px-1"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-4">
+          <svg
+            ref={svgRef}
+            viewBox="-100 -100 200 200"
+            className="h-72 w-72 shrink-0 rounded border border-zinc-200"
+            onMouseMove={(e) => dragPin && updatePin(dragPin, toSymbol(e))}
+            onMouseUp={() => setDragPin(null)}
+            onMouseLeave={() => setDragPin(null)}
+          >
+            <defs>
+              <pattern id="symbol-grid" width="10" height="10" x="-100" y="-100" patternUnits="userSpaceOnUse">
+                <path d="M 10 0 L 0 0 0 10" fill="none" stroke="#f1f5f9" strokeWidth="0.5" />
+              </pattern>
+            </defs>
+            <rect x={-100} y={-100} width={200} height={200} fill="url(#symbol-grid)" />
+            <PartGraphics graphics={draft.graphics} />
+            {draft.pins.map((p) => (
+              <g key={p.id}>
+                <circle
+                  cx={p.x}
+                  cy={p.y}
+                  r={4}
+                  fill={dragPin === p.id ? "#bfdbfe" : "#fff"}
+                  stroke="#111"
+                  className="cursor-move"
+                  onMouseDown={() => setDragPin(p.id)}
+                />
+                <text x={p.x} y={p.y - 7} fontSize={7} textAnchor="middle" pointerEvents="none">
+                  {p.number} {p.name}
+                </text>
+              </g>
+            ))}
+          </svg>
+
+          <div className="flex-1 space-y-2 text-xs">
+            <div className="flex items-center justify-between">
+              <div className="font-semibold uppercase text-zinc-500">Pins</div>
+              <div className="flex gap-2">
+                <button className="rounded border border-zinc-200 px-2 py-0.5" onClick={addPin}>
+                  Add pin
+                </button>
+                <button
+                  className="rounded border border-zinc-200 px-2 py-0.5"
+                  onClick={layoutAsBox}
+                  title="Replace the drawing with a box and arrange the pins around it"
+                >
+                  Box layout
+                </button>
+              </div>
+            </div>
+            <table className="w-full">
+              <thead className="text-left text-zinc-500">
+                <tr>
+                  <th>No.</th>
+                  <th>Name</th>
+                  <th>Type</th>
+                  <th>x</th>
+                  <th>y</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {draft.pins.map((p) => (
+                  <tr key={p.id}>
+                    <td>
+                      <input
+                        className="w-10 rounded border border-zinc-200 px-1"
+                        value={p.number ?? ""}
+                        onChange={(e) => updatePin(p.id, { number: e.target.value })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        className="w-20 rounded border border-zinc-200 px-1"
+                        value={p.name}
+                        onChange={(e) => updatePin(p.id, { name: e.target.value })}
+                      />
+                    </td>
+                    <td>
+                      <select
+                        className="rounded border border-zinc-200"
+                        value={p.type ?? "passive"}
+                        onChange={(e) => updatePin(p.id, { type: e.target.value as PinType })}
+                      >
+                        {PIN_TYPES.map((t) => (
+                          <option key={t.id} value={t.id}>
+                            {t.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <NumberField label="" value={p.x} onChange={(x) => updatePin(p.id, { x })} />
+                    </td>
+                    <td>
+                      <NumberField label="" value={p.y} onChange={(y) => updatePin(p.id, { y })} />
+                    </td>
+                    <td>
+                      <button
+                        className="text-red-600"
+                        onClick={() =>
+                          setDraft((d) => ({ ...d, pins: d.pins.filter((q) => q.id !== p.id) }))
+                        }
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-semibold uppercase text-zinc-500">Drawing</span>
+            {(Object.keys(NEW_GRAPHIC) as SymbolGraphic["type"][]).map((t) => (
+              <button
+                key={t}
+                className="rounded border border-zinc-200 px-2 py-0.5"
+                onClick={() => setGraphics((gs) => [...gs, NEW_GRAPHIC[t]])}
+              >
+                + {t}
+              </button>
+            ))}
+          </div>
+          {draft.graphics.map((g, i) => (
+            <GraphicRow
+              // polyline text fields are uncontrolled; remount when the list shifts
+              key={`${i}:${draft.graphics.length}`}
+              g={g}
+              onChange={(next) => setGraphics((gs) => gs.map((x, j) => (j === i ? next : x)))}
+              onRemove={() => setGraphics((gs) => gs.filter((_, j) => j !== i))}
+            />
+          ))}
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="text-xs text-red-600">
+            {problems.map((p) => (
+              <li key={p}>{p}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
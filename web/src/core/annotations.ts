@@ -0,0 +1,115 @@
+import type { Annotation, AnnotationShape, AnnotationType, Point } from "./design";
+import { rotatePoint } from "./geometry";
+
+// Geometry of sheet annotations, shared by the canvas, the plots and the
+// KiCad export. Annotations are drawn in their own frame: origin at (x, y),
+// turned by `rotation`.
+
+// Shape a new annotation starts with; pictures come with their own size
+export const NEW_ANNOTATIONS: Record<Exclude<AnnotationType, "image">, AnnotationShape> = {
+  text: { type: "text", text: "Text", size: 12 },
+  line: { type: "line", dx: 80, dy: 0 },
+  arrow: { type: "arrow", dx: 80, dy: 0 },
+  rect: { type: "rect", w: 120, h: 80 },
+  "no-connect": { type: "no-connect", name: "NC" },
+};
+
+export const ANNOTATION_LABELS: Record<AnnotationType, string> = {
+  text: "Text",
+  line: "Line",
+  arrow: "Arrow",
+  rect: "Rectangle",
+  image: "Image",
+  "no-connect": "No-connect",
+};
+
+// Half the width of a no-connect cross
+export const NO_CONNECT_SIZE = 5;
+
+// Arrowhead length and half width
+const HEAD = { length: 10, width: 4 };
+
+// Rough advance of a sans-serif glyph, as a share of the font size
+const GLYPH_WIDTH = 0.6;
+
+export const textExtent = (text: string, size: number) => text.length * size * GLYPH_WIDTH;
+
+// From the annotation's frame to sheet coordinates
+export function annotationPoint(a: Annotation, p: Point): Point {
+  const r = rotatePoint(p.x, p.y, a.rotation);
+  return { x: a.x + r.x, y: a.y + r.y };
+}
+
+// An arrow's head as a three-point polyline, in the annotation's frame
+export function arrowHead(a: { dx: number; dy: number }): [Point, Point, Point] {
+  const length = Math.hypot(a.dx, a.dy) || 1;
+  const [ux, uy] = [a.dx / length, a.dy / length];
+  const back = { x: a.dx - ux * HEAD.length, y: a.dy - uy * HEAD.length };
+  return [
+    { x: back.x - uy * HEAD.width, y: back.y + ux * HEAD.width },
+    { x: a.dx, y: a.dy },
+    { x: back.x + uy * HEAD.width, y: back.y - ux * HEAD.width },
+  ];
+}
+
+// Corners or ends in the annotation's frame: what a marquee must enclose and
+// what counts towards the drawing's extent
+export function frameOutline(a: Annotation): Point[] {
+  const box = (x: number, y: number, w: number, h: number) => [
+    { x, y },
+    { x: x + w, y },
+    { x: x + w, y: y + h },
+    { x, y: y + h },
+  ];
+  switch (a.type) {
+    case "text":
+      return box(0, -a.size, textExtent(a.text, a.size), a.size * 1.25);
+    case "line":
+    case "arrow":
+      return [
+        { x: 0, y: 0 },
+        { x: a.dx, y: a.dy },
+      ];
+    case "rect":
+    case "image":
+      return box(-a.w / 2, -a.h / 2, a.w, a.h);
+    case "no-connect": {
+      const s = NO_CONNECT_SIZE;
+      return box(-s, -s - 12, Math.max(2 * s, textExtent(a.name, 8)), 12 + 2 * s);
+    }
+  }
+}
+
+export const annotationOutline = (a: Annotation) =>
+  frameOutline(a).map((p) => annotationPoint(a, p));
+
+// Position as an "x,y" key, rounded so a flag matches the pin it sits on
+export const pointKey = (p: Point) => `${Math.round(p.x)},${Math.round(p.y)}`;
+
+// Size of a PNG or JPEG from its data: URL, in pixels, and a JPEG's number
+// of colour channels; null for anything else
+export function imagePixels(
+  href: string
+): { width: number; height: number; channels?: number } | null {
+  const comma = href.indexOf(",");
+  if (comma < 0 || !href.slice(0, comma).endsWith(";base64")) return null;
+  const bytes = base64Bytes(href.slice(comma + 1));
+  const u16 = (i: number) => (bytes[i] << 8) | bytes[i + 1];
+  const u32 = (i: number) => u16(i) * 65536 + u16(i + 2);
+  // PNG: IHDR comes first, width and height at 16 and 20
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return { width: u32(16), height: u32(20) };
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  // JPEG: walk the segments to the first start-of-frame
+  for (let i = 2; i + 9 < bytes.length; i += 2 + u16(i + 2)) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    const frame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+    if (frame) return { width: u16(i + 7), height: u16(i + 5), channels: bytes[i + 9] };
+  }
+  return null;
+}
+
+export function base64Bytes(data: string): Uint8Array {
+  const binary = atob(data);
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
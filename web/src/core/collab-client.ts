@@ -0,0 +1,91 @@
+import type { ClientMessage, Op, Peer, Presence, RelayMessage } from "./collab";
+
+export type CollabStatus = "connecting" | "connected" | "offline";
+
+export type CollabHandlers = {
+  onStatus: (status: CollabStatus) => void;
+  // sent on every (re)connect: the room's ops so far and who is there
+  onWelcome: (ops: Op[], peers: { peer: Peer; presence: Presence | null }[]) => void;
+  onOps: (ops: Op[]) => void;
+  onPresence: (peer: Peer, presence: Presence) => void;
+  onLeave: (id: string) => void;
+};
+
+const RETRY_MS = [500, 1000, 2000, 5000, 10000];
+
+// One peer's connection to a relay room. Reconnects until closed; ops sent
+// while offline are dropped, the caller resends its whole state on welcome.
+export class CollabSession {
+  private socket: WebSocket | null = null;
+  private retries = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(
+    readonly url: string,
+    readonly room: string,
+    readonly peer: Peer,
+    private handlers: CollabHandlers
+  ) {
+    this.connect();
+  }
+
+  private connect() {
+    this.handlers.onStatus("connecting");
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => {
+      this.retries = 0;
+      this.send({ type: "join", room: this.room, peer: this.peer });
+    };
+    socket.onmessage = (e) => {
+      let msg: RelayMessage;
+      try {
+        msg = JSON.parse(String(e.data));
+      } catch {
+        return;
+      }
+      switch (msg.type) {
+        case "welcome":
+          this.handlers.onStatus("connected");
+          this.handlers.onWelcome(msg.ops, msg.peers);
+          break;
+        case "ops":
+          this.handlers.onOps(msg.ops);
+          break;
+        case "presence":
+          this.handlers.onPresence(msg.peer, msg.presence);
+          break;
+        case "leave":
+          this.handlers.onLeave(msg.id);
+          break;
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket || this.closed) return;
+      this.socket = null;
+      this.handlers.onStatus("offline");
+      const delay = RETRY_MS[Math.min(this.retries++, RETRY_MS.length - 1)];
+      this.timer = setTimeout(() => this.connect(), delay);
+    };
+  }
+
+  private send(msg: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(msg));
+  }
+
+  sendOps(ops: Op[]) {
+    if (ops.length) this.send({ type: "ops", ops });
+  }
+
+  sendPresence(presence: Presence) {
+    this.send({ type: "presence", presence });
+  }
+
+  close() {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.socket?.close();
+    this.socket = null;
+  }
+}
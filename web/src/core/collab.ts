@@ -0,0 +1,213 @@
+import type {
+  Annotation,
+  Design,
+  LibraryPart,
+  Placement,
+  Point,
+  SchematicComponent,
+  Sheet,
+  Track,
+  Via,
+  Wire,
+} from "./design";
+import { emptyDesign } from "./design";
+import { normalizeDesign } from "./normalize";
+import { repairReferences } from "./validate";
+
+// Shared editing state as a last-writer-wins map of design entities (one
+// entry per component, wire, sheet, library part, track, via...). Concurrent
+// edits to different entities all survive; two edits of the same entity keep
+// the later one by Lamport clock, ties broken by site id. Deletions stay as
+// tombstones so an older update cannot bring an entity back.
+
+// [Lamport clock, site id]
+export type Stamp = [number, string];
+
+// `value` null deletes the entity
+export type Op = { key: string; value: unknown; stamp: Stamp };
+
+type Entry = { value: unknown; stamp: Stamp };
+
+export const newer = (a: Stamp, b: Stamp) => (a[0] !== b[0] ? a[0] > b[0] : a[1] > b[1]);
+
+// Scope of a sheet's contents: "" for the root sheet
+const contentKey = (kind: "comp" | "wire" | "note", scope: string, id: string) =>
+  `${kind}:${scope}:${id}`;
+
+// Design as entity key -> value. Arrays come apart into one entity per item
+// so concurrent additions merge.
+export function designEntities(design: Design): Map<string, unknown> {
+  const map = new Map<string, unknown>();
+  map.set("meta", { version: design.version });
+  const content = (scope: string, c: Pick<Design, "components" | "wires" | "annotations">) => {
+    for (const comp of c.components) map.set(contentKey("comp", scope, comp.id), comp);
+    for (const w of c.wires) map.set(contentKey("wire", scope, w.id), w);
+    for (const a of c.annotations) map.set(contentKey("note", scope, a.id), a);
+  };
+  content("", design);
+  for (const s of design.sheets) {
+    map.set(`sheet:${s.id}`, { id: s.id, name: s.name });
+    content(s.id, s);
+  }
+  for (const p of design.library) map.set(`part:${p.id}`, p);
+  const board = design.board;
+  map.set("board:outline", board.outline);
+  map.set("board:drcRules", board.drcRules);
+  for (const t of board.tracks) map.set(`track:${t.id}`, t);
+  for (const v of board.vias) map.set(`via:${v.id}`, v);
+  for (const [net, width] of Object.entries(board.netWidths)) map.set(`netWidth:${net}`, width);
+  for (const [id, p] of Object.entries(board.instancePlacements)) map.set(`placement:${id}`, p);
+  return map;
+}
+
+// Rebuild a design from live entities, in entity order. Contents of a sheet
+// deleted meanwhile are dropped.
+export function entitiesDesign(entities: Map<string, unknown>): Design {
+  const design = emptyDesign();
+  const sheets = new Map<string, Sheet>();
+  for (const [key, value] of entities) {
+    if (key.startsWith("sheet:")) {
+      const { id, name } = value as Pick<Sheet, "id" | "name">;
+      sheets.set(id, { id, name, components: [], wires: [], annotations: [] });
+    }
+  }
+  const board = design.board;
+  for (const [key, value] of entities) {
+    const [kind, ...rest] = key.split(":");
+    const id = rest.join(":");
+    switch (kind) {
+      case "meta":
+        design.version = (value as { version: number }).version;
+        break;
+      case "comp":
+      case "wire":
+      case "note": {
+        const [scope] = rest;
+        const target = scope ? sheets.get(scope) : design;
+        if (!target) break;
+        if (kind === "comp") target.components.push(value as SchematicComponent);
+        else if (kind === "wire") target.wires.push(value as Wire);
+        else target.annotations.push(value as Annotation);
+        break;
+      }
+      case "part":
+        design.library.push(value as LibraryPart);
+        break;
+      case "board":
+        if (id === "outline") board.outline = value as Point[];
+        if (id === "drcRules") board.drcRules = value as Design["board"]["drcRules"];
+        break;
+      case "track":
+        board.tracks.push(value as Track);
+        break;
+      case "via":
+        board.vias.push(value as Via);
+        break;
+      case "netWidth":
+        board.netWidths[id] = value as number;
+        break;
+      case "placement":
+        board.instancePlacements[id] = value as Placement;
+        break;
+    }
+  }
+  design.sheets = [...sheets.values()];
+  return design;
+}
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Merge ops into entries; returns the ops that won
+export function mergeOps(entries: Map<string, Entry>, ops: Op[]): Op[] {
+  const accepted: Op[] = [];
+  for (const op of ops) {
+    const current = entries.get(op.key);
+    if (current && !newer(op.stamp, current.stamp)) continue;
+    entries.set(op.key, { value: op.value, stamp: op.stamp });
+    accepted.push(op);
+  }
+  return accepted;
+}
+
+// One site's replica of the shared design
+export class CollabDoc {
+  private entries = new Map<string, Entry>();
+  private clock = 0;
+
+  constructor(readonly site: string) {}
+
+  get empty() {
+    return this.entries.size === 0;
+  }
+
+  // Record the local design as this site's edits; returns the ops to send
+  change(design: Design): Op[] {
+    const next = designEntities(design);
+    const ops: Op[] = [];
+    const stamp = (): Stamp => [++this.clock, this.site];
+    for (const [key, value] of next) {
+      const current = this.entries.get(key);
+      if (current && current.value !== null && same(current.value, value)) continue;
+      ops.push({ key, value, stamp: stamp() });
+    }
+    for (const [key, entry] of this.entries) {
+      if (entry.value !== null && !next.has(key)) ops.push({ key, value: null, stamp: stamp() });
+    }
+    mergeOps(this.entries, ops);
+    return ops;
+  }
+
+  // Ops from other sites; returns those that changed the design
+  merge(ops: Op[]): Op[] {
+    for (const op of ops) this.clock = Math.max(this.clock, op.stamp[0]);
+    return mergeOps(this.entries, ops);
+  }
+
+  // Every entry, tombstones included, to bring another replica up to date
+  state(): Op[] {
+    return [...this.entries].map(([key, e]) => ({ key, value: e.value, stamp: e.stamp }));
+  }
+
+  // The merged design. Concurrent edits can leave a wire on a deleted part
+  // or a symbol of a deleted sheet; those are dropped.
+  design(): Design {
+    const live = new Map(
+      [...this.entries].filter(([, e]) => e.value !== null).map(([k, e]) => [k, e.value])
+    );
+    return rebuild(live);
+  }
+}
+
+const rebuild = (entities: Map<string, unknown>) =>
+  repairReferences(normalizeDesign(entitiesDesign(entities)));
+
+// Remote edits carried over to another version of the design, such as an
+// undo step, so undoing a local edit leaves other people's work in place
+export function applyOps(design: Design, ops: Op[]): Design {
+  const entities = designEntities(design);
+  for (const op of ops) {
+    if (op.value === null) entities.delete(op.key);
+    else entities.set(op.key, op.value);
+  }
+  return rebuild(entities);
+}
+
+// Relay protocol, JSON over a WebSocket
+
+export type Peer = { id: string; name: string; color: string };
+
+// What a peer is looking at: "layout", or the schematic sheet id ("" for root)
+export type Presence = { view: string; cursor: Point | null; selection: string[] };
+
+export type ClientMessage =
+  | { type: "join"; room: string; peer: Peer }
+  | { type: "ops"; ops: Op[] }
+  | { type: "presence"; presence: Presence };
+
+export type RelayMessage =
+  | { type: "welcome"; ops: Op[]; peers: { peer: Peer; presence: Presence | null }[] }
+  | { type: "ops"; from: string; ops: Op[] }
+  | { type: "presence"; peer: Peer; presence: Presence }
+  | { type: "leave"; id: string };
+
+export const PEER_COLORS = ["#e11d48", "#7c3aed", "#0891b2", "#65a30d", "#ea580c", "#db2777"];
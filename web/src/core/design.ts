@@ -0,0 +1,248 @@
+// Shared design model types. Kept free of React so the derivation modules
+// (BOM, netlist, exports) can use them too.
+
+export type ComponentKind =
+  | "resistor"
+  | "capacitor"
+  | "ic"
+  | "power"
+  | "ground"
+  | "led"
+  // net label; the label is the net name, shared within a sheet instance
+  | "netlabel"
+  // hierarchical port inside a child sheet; the label is the port name
+  | "port"
+  // sheet symbol placing a child sheet; the label is the instance name
+  | "sheet"
+  // part from a library; drawing, pins and designator prefix come from design.library
+  | "part";
+
+// Electrical type of a pin, checked by the ERC. Untyped pins are passive.
+export type PinType =
+  | "input"
+  | "output"
+  | "bidirectional"
+  | "passive"
+  | "power-in"
+  | "power-out"
+  | "open-collector"
+  | "no-connect";
+
+export type Pin = {
+  id: string;
+  name: string;
+  // pin position relative to component origin
+  x: number;
+  y: number;
+  // footprint pad number; defaults to the pin's place in the list, from 1
+  number?: string;
+  type?: PinType;
+};
+
+// Part attributes that end up in the BOM and exports
+export type ComponentProps = {
+  value: string;
+  tolerance: string;
+  footprint: string;
+  mpn: string;
+  manufacturer: string;
+};
+
+export type Point = { x: number; y: number };
+
+export type BoardSide = "top" | "bottom";
+
+// Where a part sits on the PCB, in millimetres. Independent of the
+// schematic x/y/rotation so the two views can be arranged separately.
+export type Placement = {
+  x: number;
+  y: number;
+  rotation: number; // degrees
+  side: BoardSide;
+};
+
+export type SchematicComponent = {
+  id: string;
+  kind: ComponentKind;
+  x: number;
+  y: number;
+  rotation: number; // degrees
+  label: string;
+  // reference designator (R1, C2, U1...), assigned by annotate(); empty for power symbols
+  ref: string;
+  props: ComponentProps;
+  pins: Pin[];
+  placement: Placement;
+  // child sheet placed by a sheet symbol; its pins mirror that sheet's ports
+  sheetId?: string;
+  // library part placed by a "part" component; its pins mirror the part's
+  partId?: string;
+};
+
+export type WireEnd = { componentId: string; pinId: string };
+
+// Orthogonal polyline. An end attached to a pin follows the pin; a free
+// (null) end is the first/last entry of points and connects to whatever it
+// lands on, e.g. another wire's segment.
+export type Wire = {
+  id: string;
+  from: WireEnd | null;
+  to: WireEnd | null;
+  // vertices between the ends, in canvas units
+  points: Point[];
+};
+
+// Note drawn on a sheet, outside the circuit: never part of the netlist or
+// BOM. Each sits at (x, y), in canvas units, and turns by `rotation` about
+// that point.
+export type Annotation = {
+  id: string;
+  x: number;
+  y: number;
+  rotation: number; // degrees
+} & AnnotationShape;
+
+export type AnnotationShape =
+  // text starting at its baseline
+  | { type: "text"; text: string; size: number }
+  // from (x, y) to (x + dx, y + dy); an arrow has its head at the far end
+  | { type: "line" | "arrow"; dx: number; dy: number }
+  // w × h centred on (x, y)
+  | { type: "rect"; w: number; h: number }
+  // picture as a data: URL, drawn w × h centred on (x, y)
+  | { type: "image"; href: string; w: number; h: number }
+  // marks a pin left open on purpose, named to say why
+  | { type: "no-connect"; name: string };
+
+export type AnnotationType = Annotation["type"];
+
+// Drawing primitives of a library symbol, in canvas units about its origin
+export type SymbolGraphic =
+  | { type: "rect"; x: number; y: number; w: number; h: number; fill: boolean }
+  | { type: "polyline"; points: Point[]; fill: boolean }
+  | { type: "circle"; x: number; y: number; r: number; fill: boolean }
+  | { type: "text"; x: number; y: number; text: string; size: number };
+
+// Reusable part definition: symbol drawing, typed and numbered pins, and a
+// linked footprint. Placed components copy the pin ids so wires survive
+// edits to the part.
+export type LibraryPart = {
+  id: string;
+  name: string;
+  description: string;
+  // designator prefix: U, Q, J...
+  prefix: string;
+  footprint: string;
+  // value, manufacturer and MPN given to new instances
+  props: Partial<ComponentProps>;
+  pins: Pin[];
+  graphics: SymbolGraphic[];
+};
+
+// Child sheet: reusable schematic placed through sheet symbols
+export type Sheet = {
+  id: string;
+  name: string;
+  components: SchematicComponent[];
+  wires: Wire[];
+  annotations: Annotation[];
+};
+
+export type CopperLayer = "top" | "bottom";
+
+// Copper track: a polyline on one layer, in millimetres
+export type Track = {
+  id: string;
+  net: string;
+  layer: CopperLayer;
+  width: number;
+  points: Point[];
+};
+
+// Plated hole joining the top and bottom copper
+export type Via = {
+  id: string;
+  net: string;
+  x: number;
+  y: number;
+  diameter: number;
+  drill: number;
+};
+
+// Manufacturing limits checked by the DRC, in millimetres
+export type DrcRules = {
+  clearance: number;
+  minTrackWidth: number;
+  minAnnularRing: number;
+  minHoleSize: number;
+  edgeClearance: number;
+};
+
+export type Board = {
+  // closed polygon in millimetres
+  outline: Point[];
+  tracks: Track[];
+  vias: Via[];
+  // track width per net name, in millimetres; DEFAULT_TRACK_WIDTH otherwise
+  netWidths: Record<string, number>;
+  drcRules: DrcRules;
+  // placements of parts inside child sheet instances, keyed by flattened id
+  instancePlacements: Record<string, Placement>;
+};
+
+// components/wires/annotations are the root sheet
+export type Design = {
+  // file format version; older files are migrated on load, see normalize.ts
+  version: number;
+  components: SchematicComponent[];
+  wires: Wire[];
+  annotations: Annotation[];
+  sheets: Sheet[];
+  // definitions of the library parts placed, so the design opens anywhere
+  library: LibraryPart[];
+  board: Board;
+};
+
+// Bump along with a new entry in MIGRATIONS whenever the saved shape changes
+export const DESIGN_VERSION = 2;
+
+export const DEFAULT_BOARD_OUTLINE: Point[] = [
+  { x: -40, y: -30 },
+  { x: 40, y: -30 },
+  { x: 40, y: 30 },
+  { x: -40, y: 30 },
+];
+
+export const DEFAULT_TRACK_WIDTH = 0.25;
+
+// Typical low-cost 2-layer fab capabilities
+export const DEFAULT_DRC_RULES: DrcRules = {
+  clearance: 0.2,
+  minTrackWidth: 0.15,
+  minAnnularRing: 0.13,
+  minHoleSize: 0.3,
+  edgeClearance: 0.3,
+};
+
+export function emptyBoard(): Board {
+  return {
+    outline: DEFAULT_BOARD_OUTLINE,
+    tracks: [],
+    vias: [],
+    netWidths: {},
+    drcRules: DEFAULT_DRC_RULES,
+    instancePlacements: {},
+  };
+}
+
+export function emptyDesign(): Design {
+  return {
+    version: DESIGN_VERSION,
+    components: [],
+    wires: [],
+    annotations: [],
+    sheets: [],
+    library: [],
+    board: emptyBoard(),
+  };
+}
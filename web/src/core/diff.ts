@@ -0,0 +1,118 @@
+import type { Annotation, Design, SchematicComponent, Wire } from "./design";
+import type { Fragment } from "./selection";
+
+// Human-readable summary of what changed between two versions of a design,
+// one line per change: "+" added, "-" removed, "~" changed. Used to compare
+// a saved snapshot with the working design.
+
+const name = (c: SchematicComponent) => c.ref || c.label || c.kind;
+
+function componentChanges(before: SchematicComponent, after: SchematicComponent): string[] {
+  const changes: string[] = [];
+  if (before.ref !== after.ref) changes.push(`renamed ${before.ref || "(none)"} to ${after.ref}`);
+  if (before.label !== after.label) changes.push(`label "${before.label}" to "${after.label}"`);
+  if (before.x !== after.x || before.y !== after.y) changes.push("moved");
+  if (before.rotation !== after.rotation) changes.push(`rotated to ${after.rotation}°`);
+  for (const key of Object.keys(after.props) as (keyof typeof after.props)[]) {
+    if (before.props[key] !== after.props[key]) {
+      changes.push(`${key} "${before.props[key]}" to "${after.props[key]}"`);
+    }
+  }
+  if (before.pins.length !== after.pins.length) {
+    changes.push(`${before.pins.length} to ${after.pins.length} pins`);
+  }
+  const b = before.placement;
+  const a = after.placement;
+  if (b.x !== a.x || b.y !== a.y || b.rotation !== a.rotation || b.side !== a.side) {
+    changes.push("board placement");
+  }
+  return changes;
+}
+
+const same = (a: Wire | Annotation, b: Wire | Annotation) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+
+function fragmentDiff(before: Fragment, after: Fragment, prefix: string): string[] {
+  const lines: string[] = [];
+  const old = new Map(before.components.map((c) => [c.id, c]));
+  const now = new Map(after.components.map((c) => [c.id, c]));
+  for (const c of before.components) {
+    if (!now.has(c.id)) lines.push(`- ${prefix}${name(c)} (${c.kind})`);
+  }
+  for (const c of after.components) {
+    const was = old.get(c.id);
+    if (!was) {
+      lines.push(`+ ${prefix}${name(c)} (${c.kind})`);
+      continue;
+    }
+    const changes = componentChanges(was, c);
+    if (changes.length) lines.push(`~ ${prefix}${name(c)}: ${changes.join(", ")}`);
+  }
+  const oldWires = new Map(before.wires.map((w) => [w.id, w]));
+  const newWires = new Map(after.wires.map((w) => [w.id, w]));
+  const added = after.wires.filter((w) => !oldWires.has(w.id)).length;
+  const removed = before.wires.filter((w) => !newWires.has(w.id)).length;
+  const rerouted = after.wires.filter((w) => {
+    const was = oldWires.get(w.id);
+    return was && !same(was, w);
+  }).length;
+  if (added) lines.push(`+ ${prefix}${plural(added, "wire")}`);
+  if (removed) lines.push(`- ${prefix}${plural(removed, "wire")}`);
+  if (rerouted) lines.push(`~ ${prefix}${plural(rerouted, "wire")} rerouted`);
+  const oldNotes = new Map(before.annotations.map((a) => [a.id, a]));
+  const newNotes = new Map(after.annotations.map((a) => [a.id, a]));
+  const notesAdded = after.annotations.filter((a) => !oldNotes.has(a.id)).length;
+  const notesRemoved = before.annotations.filter((a) => !newNotes.has(a.id)).length;
+  const notesChanged = after.annotations.filter((a) => {
+    const was = oldNotes.get(a.id);
+    return was && !same(was, a);
+  }).length;
+  if (notesAdded) lines.push(`+ ${prefix}${plural(notesAdded, "annotation")}`);
+  if (notesRemoved) lines.push(`- ${prefix}${plural(notesRemoved, "annotation")}`);
+  if (notesChanged) lines.push(`~ ${prefix}${plural(notesChanged, "annotation")} changed`);
+  return lines;
+}
+
+export function diffDesigns(before: Design, after: Design): string[] {
+  const lines = fragmentDiff(before, after, "");
+
+  const oldSheets = new Map(before.sheets.map((s) => [s.id, s]));
+  const newSheets = new Map(after.sheets.map((s) => [s.id, s]));
+  for (const s of before.sheets) {
+    if (!newSheets.has(s.id)) lines.push(`- sheet ${s.name}`);
+  }
+  for (const s of after.sheets) {
+    const was = oldSheets.get(s.id);
+    if (!was) {
+      lines.push(`+ sheet ${s.name}`);
+      continue;
+    }
+    if (was.name !== s.name) lines.push(`~ sheet ${was.name} renamed to ${s.name}`);
+    lines.push(...fragmentDiff(was, s, `${s.name}/`));
+  }
+
+  const oldParts = new Map(before.library.map((p) => [p.id, p]));
+  const newParts = new Map(after.library.map((p) => [p.id, p]));
+  for (const p of before.library) {
+    if (!newParts.has(p.id)) lines.push(`- library part ${p.name}`);
+  }
+  for (const p of after.library) {
+    const was = oldParts.get(p.id);
+    if (!was) lines.push(`+ library part ${p.name}`);
+    else if (JSON.stringify(was) !== JSON.stringify(p)) lines.push(`~ library part ${p.name}`);
+  }
+
+  const b = before.board;
+  const a = after.board;
+  const count = (label: string, was: number, now: number) => {
+    if (now > was) lines.push(`+ ${plural(now - was, label)} on the board`);
+    if (now < was) lines.push(`- ${plural(was - now, label)} on the board`);
+  };
+  count("track", b.tracks.length, a.tracks.length);
+  count("via", b.vias.length, a.vias.length);
+  if (JSON.stringify(b.outline) !== JSON.stringify(a.outline)) lines.push("~ board outline");
+  if (JSON.stringify(b.drcRules) !== JSON.stringify(a.drcRules)) lines.push("~ DRC rules");
+  return lines;
+}
@@ -0,0 +1,65 @@
+// Board design rules:
+//
+//   npx tsx --test src/core/drc.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { type Design, emptyDesign, type Point } from "./design";
+import { runDrc } from "./drc";
+import { designNetlist, placeComponent } from "./edit";
+import { placedPads } from "./layout";
+
+// Two 0805 resistors, the second `dx` mm right of the first. 0805 pads are
+// 1 mm wide, 1.9 mm apart; the gap between the parts straddles x = 2.5 mm,
+// a grid cell edge of the clearance pre-filter.
+function pair(dx: number): Design {
+  let d = placeComponent(emptyDesign(), null, "resistor", { x: 0, y: 0 });
+  d = placeComponent(d, null, "resistor", { x: 100, y: 0 });
+  const [a, b] = d.components;
+  return {
+    ...d,
+    components: [
+      { ...a, placement: { x: 1, y: 0, rotation: 0, side: "top" } },
+      { ...b, placement: { x: 1 + dx, y: 0, rotation: 0, side: "top" } },
+    ],
+  };
+}
+
+const clearance = (d: Design) =>
+  runDrc(d, designNetlist(d), placedPads(d))
+    .filter((v) => v.rule === "clearance")
+    .map((v) => v.message);
+
+test("pads of different parts that overlap are reported", () => {
+  assert.deepEqual(clearance(pair(1.9)), ["R1.2 shorts to R2.1"]);
+});
+
+test("pads too close are reported across grid cells; a part's own pads are not", () => {
+  assert.deepEqual(clearance(pair(3)), ["R1.2 is 0.1mm from R2.1 (min 0.2mm)"]);
+  assert.deepEqual(clearance(pair(5)), []);
+});
+
+test("tracks crossing or outside the board edge are reported", () => {
+  const track = (id: string, from: Point, to: Point) => ({
+    id,
+    net: "VCC",
+    layer: "top" as const,
+    width: 0.25,
+    points: [from, to],
+  });
+  const d = emptyDesign();
+  const board = {
+    ...d.board,
+    tracks: [
+      track("t1", { x: 0, y: 0 }, { x: 60, y: 0 }),
+      track("t2", { x: 50, y: 10 }, { x: 60, y: 10 }),
+      track("t3", { x: 0, y: 20 }, { x: 10, y: 20 }),
+    ],
+  };
+  assert.deepEqual(
+    runDrc({ ...d, board }, [], new Map())
+      .filter((v) => v.rule === "outside-board" || v.rule === "edge-clearance")
+      .map((v) => v.message),
+    ["track VCC crosses the board edge", "track VCC is outside the board outline"]
+  );
+});
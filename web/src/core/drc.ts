@@ -0,0 +1,330 @@
+import type { CopperLayer, Design, Point } from "./design";
+import { getFootprint } from "./footprints";
+import { type PlacedPad, padPosition, ratsnest } from "./layout";
+import type { Net } from "./netlist";
+import { copperClusters, distanceToSegment } from "./routing";
+
+// Design rule check for the board layout. Rules come from design.board.drcRules.
+
+export type DrcRule =
+  | "clearance"
+  | "track-width"
+  | "annular-ring"
+  | "hole-size"
+  | "edge-clearance"
+  | "unrouted"
+  | "outside-board";
+
+export type DrcViolation = {
+  rule: DrcRule;
+  message: string;
+  // marker position in millimetres
+  at: Point;
+};
+
+// Copper reduced to segments plus a radius: tracks are capsules, vias and
+// round pads circles, rectangular pads a closed outline with radius 0.
+type CopperShape = {
+  net: string;
+  layers: CopperLayer[];
+  label: string;
+  segments: [Point, Point][];
+  radius: number;
+  polygon?: Point[];
+  // part a pad belongs to
+  componentId?: string;
+};
+
+type Box = { left: number; top: number; right: number; bottom: number };
+
+// Grid cell for the clearance pre-filter, in millimetres
+const CELL = 2.5;
+
+function shapeBox(s: CopperShape): Box {
+  const pts = s.segments.flat();
+  const xs = pts.map((p) => p.x);
+  const ys = pts.map((p) => p.y);
+  return {
+    left: Math.min(...xs) - s.radius,
+    top: Math.min(...ys) - s.radius,
+    right: Math.max(...xs) + s.radius,
+    bottom: Math.max(...ys) + s.radius,
+  };
+}
+
+// Uniform grid over shape bounds, so clearance is only measured between
+// shapes within `reach` of each other. Returns, for shape i, the later
+// shapes j > i in order.
+function nearbyShapes(shapes: CopperShape[], reach: number) {
+  const boxes = shapes.map(shapeBox);
+  const cells = new Map<string, number[]>();
+  const eachCell = (b: Box, fn: (key: string) => void) => {
+    for (let cx = Math.floor(b.left / CELL); cx <= Math.floor(b.right / CELL); cx++) {
+      for (let cy = Math.floor(b.top / CELL); cy <= Math.floor(b.bottom / CELL); cy++) {
+        fn(`${cx},${cy}`);
+      }
+    }
+  };
+  boxes.forEach((b, i) =>
+    eachCell(b, (key) => {
+      const list = cells.get(key);
+      if (list) list.push(i);
+      else cells.set(key, [i]);
+    })
+  );
+  return (i: number) => {
+    const b = boxes[i];
+    const grown = {
+      left: b.left - reach,
+      top: b.top - reach,
+      right: b.right + reach,
+      bottom: b.bottom + reach,
+    };
+    const near = new Set<number>();
+    eachCell(grown, (key) => {
+      for (const j of cells.get(key) ?? []) {
+        const o = boxes[j];
+        const apart =
+          o.left > grown.right ||
+          o.right < grown.left ||
+          o.top > grown.bottom ||
+          o.bottom < grown.top;
+        if (j > i && !apart) near.add(j);
+      }
+    });
+    return [...near].sort((x, y) => x - y);
+  };
+}
+
+function segmentsIntersect(a1: Point, a2: Point, b1: Point, b2: Point) {
+  const cross = (o: Point, p: Point, q: Point) =>
+    (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+  return (
+    cross(b1, b2, a1) * cross(b1, b2, a2) < 0 && cross(a1, a2, b1) * cross(a1, a2, b2) < 0
+  );
+}
+
+function segmentDistance(a1: Point, a2: Point, b1: Point, b2: Point) {
+  if (segmentsIntersect(a1, a2, b1, b2)) return 0;
+  return Math.min(
+    distanceToSegment(a1, b1, b2),
+    distanceToSegment(a2, b1, b2),
+    distanceToSegment(b1, a1, a2),
+    distanceToSegment(b2, a1, a2)
+  );
+}
+
+export function pointInPolygon(pt: Point, poly: Point[]) {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if (a.y > pt.y !== b.y > pt.y && pt.x < ((b.x - a.x) * (pt.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function polygonEdges(poly: Point[]): [Point, Point][] {
+  return poly.map((p, i) => [p, poly[(i + 1) % poly.length]]);
+}
+
+// Edge-to-edge distance between two copper shapes; negative when they overlap
+function shapeGap(a: CopperShape, b: CopperShape) {
+  const contains = (outer: CopperShape, inner: CopperShape) =>
+    !!outer.polygon && inner.segments.some(([p]) => pointInPolygon(p, outer.polygon!));
+  if (contains(a, b) || contains(b, a)) return -1;
+  let d = Infinity;
+  for (const [a1, a2] of a.segments) {
+    for (const [b1, b2] of b.segments) d = Math.min(d, segmentDistance(a1, a2, b1, b2));
+  }
+  return d - a.radius - b.radius;
+}
+
+function centre(shape: CopperShape): Point {
+  const pts = shape.segments.flat();
+  return {
+    x: pts.reduce((s, p) => s + p.x, 0) / pts.length,
+    y: pts.reduce((s, p) => s + p.y, 0) / pts.length,
+  };
+}
+
+export function runDrc(
+  design: Design,
+  nets: Net[],
+  pads: Map<string, PlacedPad>
+): DrcViolation[] {
+  const rules = design.board.drcRules;
+  const violations: DrcViolation[] = [];
+  const components = new Map(design.components.map((c) => [c.id, c]));
+  const netOfPin = new Map<string, string>();
+  for (const n of nets) for (const k of n.pins) netOfPin.set(k, n.name);
+  const fmt = (n: number) => `${+n.toFixed(3)}mm`;
+
+  const shapes: CopperShape[] = [];
+  for (const t of design.board.tracks) {
+    if (t.width < rules.minTrackWidth) {
+      violations.push({
+        rule: "track-width",
+        message: `Track on ${t.net || "no net"} is ${fmt(t.width)} wide (min ${fmt(
+          rules.minTrackWidth
+        )})`,
+        at: t.points[0],
+      });
+    }
+    t.points.slice(1).forEach((p, i) => {
+      shapes.push({
+        net: t.net,
+        layers: [t.layer],
+        label: `track ${t.net || "(no net)"}`,
+        segments: [[t.points[i], p]],
+        radius: t.width / 2,
+      });
+    });
+  }
+  for (const v of design.board.vias) {
+    shapes.push({
+      net: v.net,
+      layers: ["top", "bottom"],
+      label: `via ${v.net || "(no net)"}`,
+      segments: [[v, v]],
+      radius: v.diameter / 2,
+    });
+    checkHole(v, v.diameter, v.drill, "Via");
+  }
+  for (const [k, p] of pads) {
+    const c = components.get(p.componentId)!;
+    const label = `${c.ref}.${p.pad.number}`;
+    const layers: CopperLayer[] = p.pad.drill ? ["top", "bottom"] : [p.side];
+    const net = netOfPin.get(k) ?? "";
+    const componentId = p.componentId;
+    if (p.pad.shape === "round") {
+      shapes.push({ net, layers, label, segments: [[p, p]], radius: p.pad.w / 2, componentId });
+    } else {
+      const { w, h } = p.pad;
+      const polygon = [
+        [-1, -1],
+        [1, -1],
+        [1, 1],
+        [-1, 1],
+      ].map(([sx, sy]) =>
+        padPosition(c.placement, { x: p.pad.x + (sx * w) / 2, y: p.pad.y + (sy * h) / 2 })
+      );
+      const segments = polygonEdges(polygon);
+      shapes.push({ net, layers, label, segments, radius: 0, polygon, componentId });
+    }
+    if (p.pad.drill) checkHole(p, Math.min(p.pad.w, p.pad.h), p.pad.drill, `Pad ${label}`);
+  }
+
+  function checkHole(at: Point, size: number, drill: number, what: string) {
+    const ring = (size - drill) / 2;
+    if (ring < rules.minAnnularRing) {
+      violations.push({
+        rule: "annular-ring",
+        message: `${what} annular ring ${fmt(ring)} (min ${fmt(rules.minAnnularRing)})`,
+        at,
+      });
+    }
+    if (drill < rules.minHoleSize) {
+      violations.push({
+        rule: "hole-size",
+        message: `${what} hole ${fmt(drill)} (min ${fmt(rules.minHoleSize)})`,
+        at,
+      });
+    }
+  }
+
+  // Copper-to-copper clearance between different nets. Pads of one part are
+  // skipped: their spacing is fixed by the footprint.
+  const near = nearbyShapes(shapes, rules.clearance);
+  for (let i = 0; i < shapes.length; i++) {
+    for (const j of near(i)) {
+      const a = shapes[i];
+      const b = shapes[j];
+      if (a.componentId && a.componentId === b.componentId) continue;
+      if (a.net && a.net === b.net) continue;
+      if (!a.layers.some((l) => b.layers.includes(l))) continue;
+      const gap = shapeGap(a, b);
+      if (gap < rules.clearance) {
+        const p = centre(a);
+        const q = centre(b);
+        violations.push({
+          rule: "clearance",
+          message:
+            gap <= 0
+              ? `${a.label} shorts to ${b.label}`
+              : `${a.label} is ${fmt(gap)} from ${b.label} (min ${fmt(rules.clearance)})`,
+          at: { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 },
+        });
+      }
+    }
+  }
+
+  const outline = design.board.outline;
+  const edges = polygonEdges(outline);
+  for (const s of shapes) {
+    let d = Infinity;
+    for (const [a1, a2] of s.segments) {
+      for (const [e1, e2] of edges) d = Math.min(d, segmentDistance(a1, a2, e1, e2));
+    }
+    const gap = d - s.radius;
+    const inside = s.segments.every(
+      ([p, q]) => pointInPolygon(p, outline) && pointInPolygon(q, outline)
+    );
+    // copper off the board is reported whatever its gap; pads are covered
+    // by their part's outside-board check below
+    if (!inside) {
+      if (s.componentId) continue;
+      violations.push({
+        rule: "outside-board",
+        message:
+          gap <= 0
+            ? `${s.label} crosses the board edge`
+            : `${s.label} is outside the board outline`,
+        at: centre(s),
+      });
+    } else if (gap < rules.edgeClearance) {
+      violations.push({
+        rule: "edge-clearance",
+        message: `${s.label} is ${fmt(Math.max(0, gap))} from the board edge (min ${fmt(
+          rules.edgeClearance
+        )})`,
+        at: centre(s),
+      });
+    }
+  }
+
+  for (const c of design.components) {
+    const fp = getFootprint(c.props.footprint);
+    if (!fp) continue;
+    const { w, h } = fp.body;
+    const extents = [
+      ...fp.pads.map((pad) => padPosition(c.placement, pad)),
+      ...[
+        [-w / 2, -h / 2],
+        [w / 2, -h / 2],
+        [w / 2, h / 2],
+        [-w / 2, h / 2],
+      ].map(([x, y]) => padPosition(c.placement, { x, y })),
+    ];
+    if (!extents.every((p) => pointInPolygon(p, outline))) {
+      violations.push({
+        rule: "outside-board",
+        message: `${c.ref} is outside the board outline`,
+        at: c.placement,
+      });
+    }
+  }
+
+  for (const l of ratsnest(nets, pads, copperClusters(design.board, pads))) {
+    const name = (p: PlacedPad) => `${components.get(p.componentId)?.ref}.${p.pad.number}`;
+    violations.push({
+      rule: "unrouted",
+      message: `${l.net}: ${name(l.a)} to ${name(l.b)} is not routed`,
+      at: { x: (l.a.x + l.b.x) / 2, y: (l.a.y + l.b.y) / 2 },
+    });
+  }
+
+  return violations;
+}
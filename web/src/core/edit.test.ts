@@ -0,0 +1,194 @@
+// Headless design edits and what is derived from them:
+//
+//   npx tsx --test src/core/edit.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { type Design, emptyDesign } from "./design";
+import {
+  connect,
+  deleteItems,
+  designBom,
+  designNetlist,
+  moveComponents,
+  placeAnnotation,
+  placeComponent,
+  rotateComponents,
+} from "./edit";
+import { withSheet } from "./hierarchy";
+import { pinKey } from "./netlist";
+
+// Two resistors side by side, R1's pin 2 wired to R2's pin 1
+function divider(): Design {
+  let d = placeComponent(emptyDesign(), null, "resistor", { x: 0, y: 0 });
+  d = placeComponent(d, null, "resistor", { x: 100, y: 0 });
+  const [r1, r2] = d.components;
+  return withSheet(
+    d,
+    null,
+    connect(
+      d,
+      { componentId: r1.id, pinId: r1.pins[1].id },
+      { componentId: r2.id, pinId: r2.pins[0].id },
+      [
+        { x: 20, y: 0 },
+        { x: 50, y: 0 },
+        { x: 50, y: 20 },
+        { x: 80, y: 20 },
+        { x: 80, y: 0 },
+      ]
+    )
+  );
+}
+
+test("placing snaps to the grid and numbers parts", () => {
+  let d = placeComponent(emptyDesign(), null, "resistor", { x: 13, y: 27 });
+  d = placeComponent(d, null, "resistor", { x: 3, y: 4 }, {}, 5);
+  assert.deepEqual(
+    d.components.map((c) => [c.ref, c.x, c.y]),
+    [
+      ["R1", 10, 30],
+      ["R2", 5, 5],
+    ]
+  );
+});
+
+test("a sheet cannot be placed inside itself, nor a missing one", () => {
+  const d: Design = {
+    ...emptyDesign(),
+    sheets: [{ id: "s1", name: "Amp", components: [], wires: [], annotations: [] }],
+  };
+  assert.equal(placeComponent(d, "s1", "sheet", { x: 0, y: 0 }, { sheet: "s1" }), d);
+  assert.equal(placeComponent(d, null, "sheet", { x: 0, y: 0 }, { sheet: "nope" }), d);
+  const placed = placeComponent(d, null, "sheet", { x: 0, y: 0 }, { sheet: "s1" });
+  assert.equal(placed.components[0].sheetId, "s1");
+  assert.equal(placed.components[0].label, "AMP1");
+});
+
+test("moving takes the wires between moved parts along", () => {
+  const d = divider();
+  const ids = d.components.map((c) => c.id);
+  const moved = moveComponents(d, ids, 21, -9);
+  assert.deepEqual(
+    moved.components.map((c) => [c.x, c.y]),
+    [
+      [20, -10],
+      [120, -10],
+    ]
+  );
+  assert.deepEqual(
+    moved.wires[0].points,
+    d.wires[0].points.map((p) => ({ x: p.x + 20, y: p.y - 10 }))
+  );
+  // one part alone leaves the wire's bends where they were
+  const one = moveComponents(d, [ids[0]], 20, 0);
+  assert.deepEqual(one.wires[0].points, d.wires[0].points);
+  assert.equal(one.components[1], d.components[1]);
+});
+
+test("rotating turns the group about its centre", () => {
+  const d = divider();
+  const ids = d.components.map((c) => c.id);
+  const turned = rotateComponents(d, ids);
+  assert.deepEqual(
+    turned.components.map((c) => [c.x, c.y, c.rotation]),
+    [
+      [50, -50, 90],
+      [50, 50, 90],
+    ]
+  );
+  // the wire between them falls back to the default route
+  assert.deepEqual(turned.wires[0].points, []);
+  assert.equal(rotateComponents(d, []), d);
+});
+
+test("rotating parts and annotations together shares one centre", () => {
+  let d = placeComponent(emptyDesign(), null, "resistor", { x: 0, y: 0 });
+  d = withSheet(
+    d,
+    null,
+    placeAnnotation(d, { type: "text", text: "note", size: 12 }, { x: 100, y: 0 })
+  );
+  const ids = [d.components[0].id, d.annotations[0].id];
+  const turned = rotateComponents(d, ids);
+  assert.deepEqual([turned.components[0].x, turned.components[0].y], [50, -50]);
+  assert.deepEqual([turned.annotations[0].x, turned.annotations[0].y], [50, 50]);
+  assert.equal(turned.annotations[0].rotation, 90);
+});
+
+test("deleting a part removes its wires and renumbers the rest", () => {
+  const d = divider();
+  const next = deleteItems(d, null, [d.components[0].id]);
+  assert.equal(next.components.length, 1);
+  assert.equal(next.components[0].ref, "R1");
+  assert.deepEqual(next.wires, []);
+  // a wire alone goes without its parts
+  const unwired = deleteItems(d, null, [d.wires[0].id]);
+  assert.equal(unwired.components.length, 2);
+  assert.deepEqual(unwired.wires, []);
+});
+
+test("connect refuses a wire from a pin to itself or without two points", () => {
+  const d = divider();
+  const [r1] = d.components;
+  const pin = { componentId: r1.id, pinId: r1.pins[0].id };
+  assert.equal(connect(d, pin, pin), d);
+  assert.equal(connect(d, pin, null, [{ x: -20, y: 0 }]), d);
+  assert.equal(
+    connect(d, null, null, [
+      { x: 0, y: 50 },
+      { x: 0, y: 50 },
+    ]),
+    d
+  );
+  // two pins without a path take the default route
+  const r2 = d.components[1];
+  const direct = connect(d, pin, { componentId: r2.id, pinId: r2.pins[1].id });
+  assert.deepEqual(direct.wires.at(-1)!.points, []);
+  const free = connect(d, pin, null, [
+    { x: -20, y: 0 },
+    { x: -20, y: 40 },
+    { x: -60, y: 40 },
+  ]);
+  assert.equal(free.wires.length, 2);
+  assert.equal(free.wires[1].to, null);
+});
+
+test("the netlist joins wired pins and names nets after power symbols", () => {
+  let d = divider();
+  const [r1, r2] = d.components;
+  const nets = designNetlist(d);
+  const joined = nets.find((n) => n.pins.includes(pinKey(r1.id, r1.pins[1].id)));
+  assert.deepEqual(
+    joined?.pins.sort(),
+    [pinKey(r1.id, r1.pins[1].id), pinKey(r2.id, r2.pins[0].id)].sort()
+  );
+
+  d = placeComponent(d, null, "power", { x: -20, y: -40 });
+  const vcc = d.components[2];
+  d = withSheet(
+    d,
+    null,
+    connect(
+      d,
+      { componentId: vcc.id, pinId: vcc.pins[0].id },
+      { componentId: r1.id, pinId: r1.pins[0].id }
+    )
+  );
+  const named = designNetlist(d).find((n) => n.name === "VCC");
+  assert.ok(named?.pins.includes(pinKey(r1.id, r1.pins[0].id)));
+});
+
+test("the BOM groups equal parts and leaves out annotations", () => {
+  let d = divider();
+  d = placeComponent(d, null, "capacitor", { x: 200, y: 0 });
+  d = withSheet(d, null, placeAnnotation(d, { type: "no-connect", name: "NC" }, { x: 0, y: 100 }));
+  const lines = designBom(d);
+  assert.deepEqual(
+    lines.map((l) => [l.kind, l.qty, l.refs]),
+    [
+      ["capacitor", 1, ["C1"]],
+      ["resistor", 2, ["R1", "R2"]],
+    ]
+  );
+});
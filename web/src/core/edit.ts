@@ -0,0 +1,231 @@
+import { nanoid } from "nanoid";
+import type {
+  Annotation,
+  AnnotationShape,
+  ComponentKind,
+  Design,
+  LibraryPart,
+  Point,
+  SchematicComponent,
+  Wire,
+  WireEnd,
+} from "./design";
+import { pinAbsPosition, snap } from "./geometry";
+import { flattenDesign, hierarchicalNetlist, sheetOf, withSheet, wouldRecurse } from "./hierarchy";
+import { defaultPlacement } from "./layout";
+import { embedPart, partInstance } from "./library";
+import { annotate, buildBom, defaultPins, defaultProps } from "./parts";
+import { type Fragment, groupCentre, rotateGroup, wiresWith } from "./selection";
+import { analyzeWires, hitSegment, simplifyPath, storedPoints } from "./wires";
+
+// Design edits without any UI: each takes a design, or one sheet's contents,
+// and returns the edited copy. The editor and the command-line tool share them.
+
+// What a new component stands for: the child sheet of a sheet symbol, or the
+// library part of a part
+export type PlaceRef = { sheet?: string; part?: LibraryPart };
+
+// Shift the free vertices of a wire, snapped to `grid`; ends on pins follow
+// their parts
+export const offsetWire = (w: Wire, dx: number, dy: number, grid = 10): Wire => ({
+  ...w,
+  points: w.points.map((p) => ({ x: snap(p.x + dx, grid), y: snap(p.y + dy, grid) })),
+});
+
+// Label a new component gets: numbered per sheet for ports and net labels,
+// per instance for sheet symbols
+function newLabel(design: Design, sheetId: string | null, kind: ComponentKind, ref: PlaceRef) {
+  if (kind === "power") return "VCC";
+  if (kind === "ground") return "GND";
+  if (kind === "sheet") {
+    const child = design.sheets.find((s) => s.id === ref.sheet)!;
+    const instances = [design, ...design.sheets].flatMap((s) =>
+      s.components.filter((c) => c.sheetId === child.id)
+    );
+    return `${child.name.replace(/\W/g, "").toUpperCase()}${instances.length + 1}`;
+  }
+  if (kind === "port" || kind === "netlabel") {
+    const prefix = kind === "port" ? "PORT" : "NET";
+    const count = sheetOf(design, sheetId).components.filter((c) => c.kind === kind).length;
+    return `${prefix}${count + 1}`;
+  }
+  return kind.toUpperCase();
+}
+
+// Place a new component at `at`, snapped to `grid`, on a sheet (null is the
+// root). A part brings its definition into the design's library. A sheet
+// symbol that would nest a sheet inside itself, or one of a missing sheet,
+// leaves the design as it was.
+export function placeComponent(
+  design: Design,
+  sheetId: string | null,
+  kind: ComponentKind,
+  at: Point,
+  ref: PlaceRef = {},
+  grid = 10
+): Design {
+  if (kind === "part" && !ref.part) return design;
+  if (kind === "sheet") {
+    if (!design.sheets.some((s) => s.id === ref.sheet)) return design;
+    if (wouldRecurse(design, ref.sheet!, sheetId)) return design;
+  }
+  const component: SchematicComponent = {
+    id: nanoid(),
+    kind,
+    x: snap(at.x, grid),
+    y: snap(at.y, grid),
+    rotation: 0,
+    label: newLabel(design, sheetId, kind, ref),
+    ref: "",
+    props: defaultProps(kind),
+    pins: defaultPins(kind),
+    placement: defaultPlacement(at.x, at.y),
+    ...(kind === "sheet" ? { sheetId: ref.sheet } : {}),
+    ...(ref.part ? partInstance(ref.part) : {}),
+  };
+  const content = sheetOf(design, sheetId);
+  const wires: Wire[] = [];
+  if (kind === "netlabel") {
+    // dropped onto a wire: run a stub from the label's pin to that wire
+    const pin = pinAbsPosition(component, component.pins[0]);
+    for (const path of analyzeWires(content).paths.values()) {
+      const i = hitSegment(path, at, 8);
+      if (i < 0) continue;
+      const [a, b] = [path[i], path[i + 1]];
+      const on = {
+        x: Math.min(Math.max(pin.x, Math.min(a.x, b.x)), Math.max(a.x, b.x)),
+        y: Math.min(Math.max(pin.y, Math.min(a.y, b.y)), Math.max(a.y, b.y)),
+      };
+      // pins only join wires at their ends; a label sitting on the wire
+      // runs along it to the nearest vertex
+      const to =
+        on.x !== pin.x || on.y !== pin.y
+          ? on
+          : Math.hypot(a.x - pin.x, a.y - pin.y) <= Math.hypot(b.x - pin.x, b.y - pin.y)
+            ? a
+            : b;
+      if (to.x !== pin.x || to.y !== pin.y) {
+        wires.push({
+          id: nanoid(),
+          from: { componentId: component.id, pinId: component.pins[0].id },
+          to: null,
+          points: [to],
+        });
+      }
+      break;
+    }
+  }
+  // the design keeps its own copy of every part it uses
+  const next = ref.part ? embedPart(design, ref.part) : design;
+  return withSheet(next, sheetId, {
+    ...content,
+    components: annotate([...content.components, component]),
+    wires: [...content.wires, ...wires],
+  });
+}
+
+// Add an annotation at `at`, snapped to `grid`
+export function placeAnnotation(
+  content: Fragment,
+  shape: AnnotationShape,
+  at: Point,
+  grid = 10
+): Fragment {
+  const annotation: Annotation = {
+    id: nanoid(),
+    x: snap(at.x, grid),
+    y: snap(at.y, grid),
+    rotation: 0,
+    ...shape,
+  };
+  return { ...content, annotations: [...content.annotations, annotation] };
+}
+
+// Move components and annotations by (dx, dy), snapped to `grid`; wires
+// between the components move along and wires to the rest stretch
+export function moveComponents(
+  content: Fragment,
+  ids: string[],
+  dx: number,
+  dy: number,
+  grid = 10
+): Fragment {
+  const moved = new Set(wiresWith(content.wires, ids).map((w) => w.id));
+  const selected = new Set(ids);
+  return {
+    components: content.components.map((c) =>
+      selected.has(c.id) ? { ...c, x: snap(c.x + dx, grid), y: snap(c.y + dy, grid) } : c
+    ),
+    wires: content.wires.map((w) => (moved.has(w.id) ? offsetWire(w, dx, dy, grid) : w)),
+    annotations: content.annotations.map((a) =>
+      selected.has(a.id) ? { ...a, x: snap(a.x + dx, grid), y: snap(a.y + dy, grid) } : a
+    ),
+  };
+}
+
+// Rotate components and annotations 90° about their centroid. Wires between
+// the components fall back to a plain L-shaped route.
+export function rotateComponents(content: Fragment, ids: string[]): Fragment {
+  const reset = new Set(wiresWith(content.wires, ids).map((w) => w.id));
+  const centre = groupCentre([...content.components, ...content.annotations], ids);
+  if (!centre) return content;
+  return {
+    components: rotateGroup(content.components, ids, centre),
+    wires: content.wires.map((w) => (reset.has(w.id) && w.from && w.to ? { ...w, points: [] } : w)),
+    annotations: rotateGroup(content.annotations, ids, centre),
+  };
+}
+
+// Delete components (with the wires on them), wires, annotations, tracks and
+// vias by id. Schematic items go from one sheet; parts inside sheet
+// instances can only be deleted from their own sheet.
+export function deleteItems(design: Design, sheetId: string | null, ids: string[]): Design {
+  const gone = new Set(ids);
+  const s = sheetOf(design, sheetId);
+  const next = withSheet(design, sheetId, {
+    components: annotate(s.components.filter((c) => !gone.has(c.id))),
+    wires: s.wires.filter(
+      (w) =>
+        !gone.has(w.id) &&
+        !(w.from && gone.has(w.from.componentId)) &&
+        !(w.to && gone.has(w.to.componentId))
+    ),
+    annotations: s.annotations.filter((a) => !gone.has(a.id)),
+  });
+  return {
+    ...next,
+    board: {
+      ...next.board,
+      tracks: next.board.tracks.filter((t) => !gone.has(t.id)),
+      vias: next.board.vias.filter((v) => !gone.has(v.id)),
+    },
+  };
+}
+
+// Add a wire between two ends, either of which may be left free, along
+// `path` (absolute points, ends included). Two pins may go without a path
+// and get the default route. A wire from a pin to itself, or without two
+// distinct points, is not added.
+export function connect(
+  content: Fragment,
+  from: WireEnd | null,
+  to: WireEnd | null,
+  path: Point[] = []
+): Fragment {
+  if (from && to && from.componentId === to.componentId && from.pinId === to.pinId) return content;
+  const simple = simplifyPath(path);
+  if (simple.length < 2 && !(from && to && path.length === 0)) return content;
+  const wire: Wire = {
+    id: nanoid(),
+    from,
+    to,
+    points: simple.length < 2 ? [] : storedPoints({ from, to }, simple),
+  };
+  return { ...content, wires: [...content.wires, wire] };
+}
+
+// Netlist and bill of materials of the whole hierarchy, every sheet
+// instance expanded
+export const designNetlist = (design: Design) => hierarchicalNetlist(flattenDesign(design));
+
+export const designBom = (design: Design) => buildBom(flattenDesign(design).components);
@@ -0,0 +1,31 @@
+// Electrical rules:
+//
+//   npx tsx --test src/core/erc.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { emptyDesign } from "./design";
+import { designNetlist, placeComponent } from "./edit";
+import { runErc } from "./erc";
+import { BUILTIN_LIBRARY } from "./library";
+
+test("duplicate labels are reported unless still at their default", () => {
+  const npn = BUILTIN_LIBRARY.find((p) => p.id === "builtin:npn")!;
+  let d = emptyDesign();
+  for (const x of [0, 100, 200]) d = placeComponent(d, null, "resistor", { x, y: 0 });
+  for (const x of [0, 100]) d = placeComponent(d, null, "part", { x, y: 100 }, { part: npn });
+  const duplicates = () =>
+    runErc(d, designNetlist(d))
+      .filter((v) => v.rule === "duplicate-label")
+      .map((v) => v.message);
+  assert.equal(d.components[0].label, "RESISTOR");
+  assert.equal(d.components[3].label, npn.name);
+  assert.deepEqual(duplicates(), []);
+
+  const [a, b, ...rest] = d.components;
+  d = { ...d, components: [{ ...a, label: "PULLUP" }, { ...b, label: "PULLUP" }, ...rest] };
+  assert.deepEqual(duplicates(), [
+    'Label "PULLUP" is used by 2 components',
+    'Label "PULLUP" is used by 2 components',
+  ]);
+});
@@ -0,0 +1,218 @@
+import { pointKey } from "./annotations";
+import type { Design, Pin, PinType } from "./design";
+import { pinAbsPosition } from "./geometry";
+import type { FlatDesign } from "./hierarchy";
+import { type Net, pinKey } from "./netlist";
+import { analyzeWires } from "./wires";
+
+// Electrical rules check over the schematic and its netlist
+
+export type ErcRule =
+  | "unconnected-pin"
+  | "single-pin-net"
+  | "power-short"
+  | "led-no-resistor"
+  | "dangling-wire"
+  | "orphaned-wire"
+  | "duplicate-label"
+  | "output-conflict"
+  | "undriven-input";
+
+export type ErcSeverity = "error" | "warning" | "off";
+
+export const ERC_RULES: { id: ErcRule; label: string; severity: ErcSeverity }[] = [
+  { id: "unconnected-pin", label: "Unconnected pin", severity: "warning" },
+  { id: "single-pin-net", label: "Single-pin net", severity: "warning" },
+  { id: "power-short", label: "Power shorted to ground", severity: "error" },
+  { id: "led-no-resistor", label: "LED without series resistor", severity: "warning" },
+  { id: "dangling-wire", label: "Dangling wire", severity: "warning" },
+  { id: "orphaned-wire", label: "Wire to missing pin", severity: "error" },
+  { id: "duplicate-label", label: "Duplicate label", severity: "warning" },
+  { id: "output-conflict", label: "Outputs driving each other", severity: "error" },
+  { id: "undriven-input", label: "Input not driven", severity: "warning" },
+];
+
+export type ErcSeverities = Record<ErcRule, ErcSeverity>;
+
+export const DEFAULT_ERC_SEVERITIES = Object.fromEntries(
+  ERC_RULES.map((r) => [r.id, r.severity])
+) as ErcSeverities;
+
+export type ErcViolation = {
+  rule: ErcRule;
+  severity: Exclude<ErcSeverity, "off">;
+  message: string;
+  // component to select when the violation is clicked
+  componentId?: string;
+  wireId?: string;
+};
+
+export function runErc(
+  design: Design | FlatDesign,
+  nets: Net[],
+  severities: ErcSeverities = DEFAULT_ERC_SEVERITIES
+): ErcViolation[] {
+  const violations: ErcViolation[] = [];
+  const report = (v: Omit<ErcViolation, "severity">) => {
+    const severity = severities[v.rule] ?? "warning";
+    if (severity !== "off") violations.push({ ...v, severity });
+  };
+
+  const components = new Map(design.components.map((c) => [c.id, c]));
+  const pinExists = (cid: string, pid: string) =>
+    !!components.get(cid)?.pins.some((p) => p.id === pid);
+  const name = (cid: string) => {
+    const c = components.get(cid);
+    return c ? c.ref || c.label : "?";
+  };
+
+  const pinOf = (k: string): Pin | undefined => {
+    const [cid, pid] = k.split(":");
+    return components.get(cid)?.pins.find((p) => p.id === pid);
+  };
+  const pinType = (k: string): PinType => pinOf(k)?.type ?? "passive";
+  const pinName = (k: string) => `${name(k.split(":")[0])}.${pinOf(k)?.name ?? "?"}`;
+
+  const netOfPin = new Map<string, Net>();
+  for (const n of nets) for (const p of n.pins) netOfPin.set(p, n);
+
+  // no-connect flags mark pins left open on purpose. Flattened ids start
+  // with their sheet instance ("<symbol id>/"), so a flag only covers pins
+  // of its own instance.
+  const instance = (id: string) => id.slice(0, id.lastIndexOf("/") + 1);
+  const flagged = new Set(
+    design.annotations
+      .filter((a) => a.type === "no-connect")
+      .map((a) => instance(a.id) + pointKey(a))
+  );
+  for (const c of design.components) {
+    for (const p of c.pins) {
+      const leftOpen =
+        p.type === "no-connect" || flagged.has(instance(c.id) + pointKey(pinAbsPosition(c, p)));
+      if (!leftOpen && !netOfPin.has(pinKey(c.id, p.id))) {
+        report({
+          rule: "unconnected-pin",
+          message: `${name(c.id)} pin ${p.name} is not connected`,
+          componentId: c.id,
+        });
+      }
+    }
+  }
+
+  for (const n of nets) {
+    const live = n.pins.filter((k) => {
+      const [cid, pid] = k.split(":");
+      return pinExists(cid, pid);
+    });
+    const kinds = new Set(live.map((k) => components.get(k.split(":")[0])!.kind));
+    if (live.length === 1) {
+      report({
+        rule: "single-pin-net",
+        message: `Net ${n.name} only reaches ${name(live[0].split(":")[0])}`,
+        componentId: live[0].split(":")[0],
+      });
+    }
+    if (kinds.has("power") && kinds.has("ground")) {
+      const power = live.find((k) => components.get(k.split(":")[0])!.kind === "power")!;
+      report({
+        rule: "power-short",
+        message: `Net ${n.name} connects power directly to ground`,
+        componentId: power.split(":")[0],
+      });
+    }
+
+    // pin electrical types; power, ground and label symbols drive their net
+    const typed = live.map((k) => ({ k, type: pinType(k) }));
+    const outputs = typed.filter((t) => t.type === "output" || t.type === "power-out");
+    if (outputs.length > 1) {
+      report({
+        rule: "output-conflict",
+        message: `Net ${n.name} is driven by ${outputs.map((t) => pinName(t.k)).join(" and ")}`,
+        componentId: outputs[0].k.split(":")[0],
+      });
+    }
+    const inputs = typed.filter((t) => t.type === "input" || t.type === "power-in");
+    const driven = typed.some((t) => !["input", "power-in", "no-connect"].includes(t.type));
+    if (inputs.length && !driven) {
+      report({
+        rule: "undriven-input",
+        message: `Net ${n.name} has inputs (${inputs.map((t) => pinName(t.k)).join(", ")}) but nothing driving it`,
+        componentId: inputs[0].k.split(":")[0],
+      });
+    }
+  }
+
+  for (const c of design.components) {
+    if (c.kind !== "led") continue;
+    const hasResistor = c.pins.some((p) =>
+      netOfPin
+        .get(pinKey(c.id, p.id))
+        ?.pins.some((k) => components.get(k.split(":")[0])?.kind === "resistor")
+    );
+    if (!hasResistor) {
+      report({
+        rule: "led-no-resistor",
+        message: `${name(c.id)} has no series resistor`,
+        componentId: c.id,
+      });
+    }
+  }
+
+  const open = new Set(analyzeWires(design).openEnds.map((e) => e.wireId));
+  for (const w of design.wires) {
+    const ends = [w.from, w.to];
+    const attached = ends.find((e) => e && components.has(e.componentId));
+    if (open.has(w.id)) {
+      report({
+        rule: "dangling-wire",
+        message: attached
+          ? `Wire from ${name(attached.componentId)} is not connected at the other end`
+          : "Wire is not connected",
+        componentId: attached?.componentId,
+        wireId: w.id,
+      });
+    }
+    for (const e of ends) {
+      if (e && !pinExists(e.componentId, e.pinId)) {
+        report({
+          rule: "orphaned-wire",
+          message: attached
+            ? `Wire from ${name(attached.componentId)} points at a deleted pin`
+            : "Wire points at deleted pins",
+          componentId: attached?.componentId,
+          wireId: w.id,
+        });
+        break;
+      }
+    }
+  }
+
+  // labels only need to be unique within one sheet instance
+  const paths = "paths" in design ? design.paths : {};
+  const byLabel = new Map<string, { label: string; ids: string[] }>();
+  const partNames = new Map(design.library.map((p) => [p.id, p.name]));
+  for (const c of design.components) {
+    // power symbols and net labels share names on purpose
+    if (c.kind === "power" || c.kind === "ground" || c.kind === "netlabel") continue;
+    // a label still at its default (the kind, e.g. RESISTOR, or the library
+    // part's name) was never chosen; designators tell those parts apart
+    const label = c.kind === "part" ? partNames.get(c.partId ?? "") : c.kind.toUpperCase();
+    if (c.label === label) continue;
+    const key = `${paths[c.id] ?? "/"}${c.label}`;
+    const entry = byLabel.get(key) ?? { label: c.label, ids: [] };
+    entry.ids.push(c.id);
+    byLabel.set(key, entry);
+  }
+  for (const { label, ids } of byLabel.values()) {
+    if (ids.length < 2) continue;
+    for (const id of ids) {
+      report({
+        rule: "duplicate-label",
+        message: `Label "${label}" is used by ${ids.length} components`,
+        componentId: id,
+      });
+    }
+  }
+
+  return violations;
+}
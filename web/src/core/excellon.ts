@@ -0,0 +1,81 @@
+import type { Point } from "./design";
+
+// Excellon drill file for plated holes, metric with decimal coordinates.
+// Y is flipped to match the Gerber files.
+
+export type DrillHit = Point & { diameter: number };
+
+const mm = (n: number) => n.toFixed(3);
+
+export function writeExcellon(hits: DrillHit[], generator = "FluxLite"): string {
+  const sizes = Array.from(new Set(hits.map((h) => +h.diameter.toFixed(3)))).sort((a, b) => a - b);
+  const out = [
+    "M48",
+    `; DRILL file ${generator}`,
+    "; #@! TF.FileFunction,Plated,1,2,PTH",
+    "FMAT,2",
+    "METRIC",
+    ...sizes.map((d, i) => `T${i + 1}C${mm(d)}`),
+    "%",
+    "G90",
+    "G05",
+  ];
+  sizes.forEach((d, i) => {
+    out.push(`T${i + 1}`);
+    for (const h of hits) {
+      if (+h.diameter.toFixed(3) === d) out.push(`X${mm(h.x)}Y${mm(-h.y)}`);
+    }
+  });
+  out.push("M30");
+  return out.join("\n") + "\n";
+}
+
+// Reads back what writeExcellon produces: hits in Gerber orientation (Y up)
+export function parseExcellon(text: string): { hits: DrillHit[]; errors: string[] } {
+  const tools = new Map<string, number>();
+  const hits: DrillHit[] = [];
+  const errors: string[] = [];
+  let inHeader = false;
+  let tool = "";
+  let ended = false;
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (!line || line.startsWith(";")) continue;
+    if (ended) {
+      errors.push("Content after M30");
+      break;
+    }
+    if (line === "M48") {
+      inHeader = true;
+      continue;
+    }
+    if (inHeader) {
+      const def = line.match(/^T(\d+)C([\d.]+)$/);
+      if (def) tools.set(def[1], +def[2]);
+      else if (line === "%") inHeader = false;
+      else if (!/^(FMAT,2|METRIC(,TZ|,LZ)?)$/.test(line)) errors.push(`Unsupported header ${line}`);
+      continue;
+    }
+    if (line === "G90" || line === "G05") continue;
+    if (line === "M30") {
+      ended = true;
+      continue;
+    }
+    const select = line.match(/^T(\d+)$/);
+    if (select) {
+      if (!tools.has(select[1])) errors.push(`Tool T${select[1]} used before definition`);
+      tool = select[1];
+      continue;
+    }
+    const hit = line.match(/^X(-?[\d.]+)Y(-?[\d.]+)$/);
+    if (!hit) {
+      errors.push(`Unsupported command ${line}`);
+      continue;
+    }
+    if (!tool) errors.push("Hole with no tool selected");
+    hits.push({ x: +hit[1], y: +hit[2], diameter: tools.get(tool) ?? 0 });
+  }
+  if (inHeader) errors.push("Unterminated header");
+  if (!ended) errors.push("Missing M30 end of file");
+  return { hits, errors };
+}
@@ -0,0 +1,117 @@
+// Fabrication outputs read back with the Gerber and Excellon parsers:
+//
+//   npx tsx --test src/core/fabrication.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { type Design, emptyDesign, type Point } from "./design";
+import { connect, designNetlist, placeComponent } from "./edit";
+import { parseExcellon, writeExcellon } from "./excellon";
+import { buildFabrication } from "./fabrication";
+import { parseGerber, writeGerber } from "./gerber";
+import { withSheet } from "./hierarchy";
+import { placedPads } from "./layout";
+
+// A chip resistor turned off the 90° grid (its pads become regions), an
+// axial one with drilled pads, a track between them and a via
+function board(): Design {
+  let d = placeComponent(emptyDesign(), null, "resistor", { x: 0, y: 0 });
+  d = placeComponent(d, null, "resistor", { x: 100, y: 0 });
+  const [chip, axial] = d.components;
+  d = withSheet(
+    d,
+    null,
+    connect(
+      d,
+      { componentId: chip.id, pinId: chip.pins[1].id },
+      { componentId: axial.id, pinId: axial.pins[0].id }
+    )
+  );
+  return {
+    ...d,
+    components: [
+      { ...chip, placement: { x: -10, y: 0, rotation: 45, side: "top" } },
+      {
+        ...axial,
+        props: { ...axial.props, footprint: "R_Axial_P10mm" },
+        placement: { x: 10, y: 5, rotation: 90, side: "bottom" },
+      },
+    ],
+    board: {
+      ...d.board,
+      tracks: [
+        {
+          id: "t1",
+          net: "",
+          layer: "top",
+          width: 0.25,
+          points: [
+            { x: -9, y: 1 },
+            { x: 0, y: 1 },
+            { x: 10, y: 0 },
+          ],
+        },
+      ],
+      vias: [{ id: "v1", net: "", x: 0, y: 1, diameter: 0.6, drill: 0.3 }],
+    },
+  };
+}
+
+const close = (a: Point, b: Point, tolerance = 1e-5) =>
+  Math.abs(a.x - b.x) < tolerance && Math.abs(a.y - b.y) < tolerance;
+// Gerber and Excellon have Y up, the board Y down
+const flip = (p: Point) => ({ x: p.x, y: -p.y });
+
+const fab = () => {
+  const d = board();
+  return buildFabrication(d, designNetlist(d), placedPads(d));
+};
+
+test("every Gerber layer reads back as written", () => {
+  const { layers } = fab();
+  const objects = new Set(layers.flatMap((l) => l.layer.objects.map((o) => o.type)));
+  for (const type of ["flash", "region", "path"] as const) assert.ok(objects.has(type), type);
+
+  for (const { ext, layer } of layers) {
+    const parsed = parseGerber(writeGerber(layer));
+    assert.deepEqual(parsed.errors, [], ext);
+    assert.equal(parsed.fileAttributes.FileFunction, layer.fileFunction, ext);
+
+    const flashes = layer.objects.filter((o) => o.type === "flash");
+    assert.equal(parsed.flashes.length, flashes.length, `${ext} flashes`);
+    flashes.forEach((o, i) => {
+      const f = parsed.flashes[i];
+      const ap = parsed.apertures.get(f.aperture);
+      assert.ok(close(flip(f.at), o.at), `${ext} flash ${i + 1} moved`);
+      assert.equal(ap?.template, o.aperture.shape, `${ext} flash ${i + 1} aperture`);
+      assert.equal(ap?.fn, o.aperture.fn, `${ext} flash ${i + 1} function`);
+    });
+
+    const regions = layer.objects.filter((o) => o.type === "region");
+    assert.equal(parsed.regions.length, regions.length, `${ext} regions`);
+
+    const segments = layer.objects.flatMap((o) =>
+      o.type === "path" ? o.points.slice(1).map((p, i) => [o.points[i], p]) : []
+    );
+    assert.equal(parsed.draws.length, segments.length, `${ext} draws`);
+    segments.forEach(([a, b], i) => {
+      const d = parsed.draws[i];
+      assert.ok(close(flip(d.from), a) && close(flip(d.to), b), `${ext} draw ${i + 1} moved`);
+    });
+  }
+});
+
+test("every hole reads back from the drill file", () => {
+  const { drills } = fab();
+  assert.equal(drills.length, 3);
+  const parsed = parseExcellon(writeExcellon(drills));
+  assert.deepEqual(parsed.errors, []);
+  assert.equal(parsed.hits.length, drills.length);
+  for (const h of drills) {
+    // drill coordinates are written to the micron
+    const found = parsed.hits.some(
+      (r) => close(flip(r), h, 1e-3) && Math.abs(r.diameter - h.diameter) < 1e-3
+    );
+    assert.ok(found, `hole at ${h.x}, ${h.y}`);
+  }
+});
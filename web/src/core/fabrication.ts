@@ -0,0 +1,190 @@
+import type { BoardSide, CopperLayer, Design, Placement } from "./design";
+import { type DrillHit, writeExcellon } from "./excellon";
+import { getFootprint } from "./footprints";
+import {
+  type Aperture,
+  attrValue,
+  type GerberLayer,
+  type GerberObject,
+  writeGerber,
+} from "./gerber";
+import { padPosition, type PlacedPad } from "./layout";
+import type { Net } from "./netlist";
+import { csvCell, isBomPart } from "./parts";
+import { padOnLayer } from "./routing";
+import type { ZipEntry } from "./zip";
+
+// Fabrication outputs: Gerber X2 layers, Excellon drill and pick-and-place,
+// all derived from design.board and the part placements.
+
+// Soldermask opening grows each pad by this much per side, in millimetres
+export const MASK_EXPANSION = 0.05;
+const SILK_WIDTH = 0.12;
+const PROFILE_WIDTH = 0.05;
+
+export type Fabrication = {
+  // file suffix (protel extension) and contents
+  layers: { ext: string; layer: GerberLayer }[];
+  drills: DrillHit[];
+  placements: string;
+};
+
+// Pad flash, or a region when the part is rotated off the 90° grid
+function padObject(
+  p: PlacedPad,
+  place: Placement,
+  expand: number,
+  fn: string,
+  attrs: string[]
+): GerberObject {
+  const w = p.pad.w + expand * 2;
+  const h = p.pad.h + expand * 2;
+  if (p.pad.shape === "round") {
+    return { type: "flash", aperture: { shape: "C", size: [w], fn }, at: p, attrs };
+  }
+  const r = ((place.rotation % 180) + 180) % 180;
+  if (r === 0 || r === 90) {
+    const size = r === 0 ? [w, h] : [h, w];
+    return { type: "flash", aperture: { shape: "R", size, fn }, at: p, attrs };
+  }
+  const points = [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ].map(([sx, sy]) => padPosition(place, { x: p.pad.x + (sx * w) / 2, y: p.pad.y + (sy * h) / 2 }));
+  return { type: "region", fn, points, attrs };
+}
+
+export function buildFabrication(
+  design: Design,
+  nets: Net[],
+  pads: Map<string, PlacedPad>
+): Fabrication {
+  const components = new Map(design.components.map((c) => [c.id, c]));
+  const netOfPin = new Map<string, string>();
+  for (const n of nets) for (const k of n.pins) netOfPin.set(k, n.name);
+
+  const padObjects = (layer: CopperLayer, expand: number) => {
+    const objects: GerberObject[] = [];
+    for (const [k, p] of pads) {
+      if (!padOnLayer(p, layer)) continue;
+      const c = components.get(p.componentId)!;
+      const attrs = [
+        `P,${attrValue(c.ref)},${attrValue(p.pad.number)}`,
+        `N,${attrValue(netOfPin.get(k) ?? "")}`,
+        `C,${attrValue(c.ref)}`,
+      ];
+      const fn = p.pad.drill ? "ComponentPad" : "SMDPad,CuDef";
+      objects.push(padObject(p, c.placement, expand, fn, attrs));
+    }
+    return objects;
+  };
+
+  const copper = (layer: CopperLayer): GerberObject[] => [
+    ...design.board.tracks
+      .filter((t) => t.layer === layer && t.points.length > 1)
+      .map(
+        (t): GerberObject => ({
+          type: "path",
+          aperture: { shape: "C", size: [t.width], fn: "Conductor" },
+          points: t.points,
+          attrs: [`N,${attrValue(t.net)}`],
+        })
+      ),
+    ...design.board.vias.map(
+      (v): GerberObject => ({
+        type: "flash",
+        aperture: { shape: "C", size: [v.diameter], fn: "ViaPad" },
+        at: v,
+        attrs: [`N,${attrValue(v.net)}`],
+      })
+    ),
+    ...padObjects(layer, 0),
+  ];
+
+  // Body outlines only; reference designators are not plotted
+  const silk = (side: BoardSide): GerberObject[] => {
+    const aperture: Aperture = { shape: "C", size: [SILK_WIDTH], fn: "Other,Silkscreen" };
+    const objects: GerberObject[] = [];
+    for (const c of design.components) {
+      const fp = getFootprint(c.props.footprint);
+      if (!fp || c.placement.side !== side) continue;
+      const { w, h } = fp.body;
+      const corners = [
+        [-w / 2, -h / 2],
+        [w / 2, -h / 2],
+        [w / 2, h / 2],
+        [-w / 2, h / 2],
+        [-w / 2, -h / 2],
+      ].map(([x, y]) => padPosition(c.placement, { x, y }));
+      objects.push({ type: "path", aperture, points: corners, attrs: [`C,${attrValue(c.ref)}`] });
+    }
+    return objects;
+  };
+
+  const outline = design.board.outline;
+  const profile: GerberObject[] = [
+    {
+      type: "path",
+      aperture: { shape: "C", size: [PROFILE_WIDTH], fn: "Profile" },
+      points: [...outline, outline[0]],
+      attrs: [],
+    },
+  ];
+
+  const layers = [
+    { ext: "gtl", layer: { fileFunction: "Copper,L1,Top", objects: copper("top") } },
+    { ext: "gbl", layer: { fileFunction: "Copper,L2,Bot", objects: copper("bottom") } },
+    {
+      ext: "gts",
+      layer: { fileFunction: "Soldermask,Top", objects: padObjects("top", MASK_EXPANSION) },
+    },
+    {
+      ext: "gbs",
+      layer: { fileFunction: "Soldermask,Bot", objects: padObjects("bottom", MASK_EXPANSION) },
+    },
+    { ext: "gto", layer: { fileFunction: "Legend,Top", objects: silk("top") } },
+    { ext: "gbo", layer: { fileFunction: "Legend,Bot", objects: silk("bottom") } },
+    { ext: "gm1", layer: { fileFunction: "Profile,NP", objects: profile } },
+  ].map(({ ext, layer }) => ({
+    ext,
+    layer: {
+      ...layer,
+      // soldermask files are images of the openings
+      polarity: layer.fileFunction.startsWith("Soldermask") ? "Negative" : "Positive",
+    } as GerberLayer,
+  }));
+
+  const drills: DrillHit[] = [
+    ...design.board.vias.map((v) => ({ x: v.x, y: v.y, diameter: v.drill })),
+    ...Array.from(pads.values())
+      .filter((p) => p.pad.drill)
+      .map((p) => ({ x: p.x, y: p.y, diameter: p.pad.drill! })),
+  ];
+
+  // Rotation is counter-clockwise in Gerber orientation (the canvas turns clockwise)
+  const header = ["Designator", "Value", "Package", "Mid X", "Mid Y", "Rotation", "Layer"];
+  const rows = design.components
+    .filter((c) => isBomPart(c) && getFootprint(c.props.footprint))
+    .map((c) => [
+      c.ref,
+      c.props.value,
+      c.props.footprint,
+      c.placement.x.toFixed(3),
+      (-c.placement.y).toFixed(3),
+      ((360 - (c.placement.rotation % 360)) % 360).toFixed(1),
+      c.placement.side,
+    ]);
+  const placements = [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+
+  return { layers, drills, placements };
+}
+
+export function fabricationFiles(fab: Fabrication, base = "board"): ZipEntry[] {
+  return [
+    ...fab.layers.map(({ ext, layer }) => ({ name: `${base}.${ext}`, data: writeGerber(layer) })),
+    { name: `${base}.drl`, data: writeExcellon(fab.drills) },
+    { name: `${base}-pos.csv`, data: fab.placements },
+  ];
+}
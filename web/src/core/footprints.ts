@@ -0,0 +1,142 @@
+// Built-in footprints. All dimensions in millimetres, origin at the part centre.
+// Pad numbers map to component pins by pin number, or in order when the pin
+// has none: pad "1" is pins[0], and so on.
+
+export type Pad = {
+  number: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  shape: "rect" | "round";
+  // plated through-hole diameter; surface-mount pads have none
+  drill?: number;
+};
+
+type Size = { w: number; h: number };
+
+export type Footprint = {
+  name: string;
+  pads: Pad[];
+  // body outline drawn on the silkscreen
+  body: Size;
+};
+
+function chip(name: string, pitch: number, pad: Size, body: Size): Footprint {
+  return {
+    name,
+    pads: [
+      { number: "1", x: -pitch / 2, y: 0, ...pad, shape: "rect" },
+      { number: "2", x: pitch / 2, y: 0, ...pad, shape: "rect" },
+    ],
+    body,
+  };
+}
+
+function dualRow(
+  name: string,
+  count: number,
+  pitch: number,
+  rowSpacing: number,
+  pad: Omit<Pad, "number" | "x" | "y">,
+  body: Size
+): Footprint {
+  const perSide = count / 2;
+  const pads: Pad[] = [];
+  // counter-clockwise numbering: down the left side, up the right side
+  for (let i = 0; i < perSide; i++) {
+    pads.push({
+      ...pad,
+      number: String(i + 1),
+      x: -rowSpacing / 2,
+      y: (i - (perSide - 1) / 2) * pitch,
+    });
+  }
+  for (let i = 0; i < perSide; i++) {
+    pads.push({
+      ...pad,
+      number: String(perSide + i + 1),
+      x: rowSpacing / 2,
+      y: ((perSide - 1) / 2 - i) * pitch,
+    });
+  }
+  return { name, pads, body };
+}
+
+// Pin header, pin 1 square and at the top
+function singleRow(name: string, count: number, pitch: number): Footprint {
+  const pads: Pad[] = [];
+  for (let i = 0; i < count; i++) {
+    pads.push({
+      number: String(i + 1),
+      x: 0,
+      y: (i - (count - 1) / 2) * pitch,
+      w: 1.7,
+      h: 1.7,
+      shape: i === 0 ? "rect" : "round",
+      drill: 1.0,
+    });
+  }
+  return { name, pads, body: { w: pitch, h: count * pitch } };
+}
+
+// SOT-23 family: pins along the bottom edge left to right, then along the
+// top edge right to left
+function sot23(name: string, bottom: number[], top: number[]): Footprint {
+  const pad = { w: 0.6, h: 0.8, shape: "rect" } as const;
+  const pads: Pad[] = [
+    ...bottom.map((x, i) => ({ ...pad, number: String(i + 1), x, y: 1.1 })),
+    ...top.map((x, i) => ({ ...pad, number: String(bottom.length + i + 1), x, y: -1.1 })),
+  ];
+  return { name, pads, body: { w: 2.9, h: 1.3 } };
+}
+
+const THT_PAD = { w: 1.6, h: 1.6, shape: "round", drill: 0.8 } as const;
+
+const LIST: Footprint[] = [
+  chip("R_0603", 1.6, { w: 0.9, h: 0.95 }, { w: 1.6, h: 0.8 }),
+  chip("R_0805", 1.9, { w: 1.0, h: 1.3 }, { w: 2.0, h: 1.25 }),
+  chip("R_1206", 3.0, { w: 1.15, h: 1.8 }, { w: 3.2, h: 1.6 }),
+  chip("C_0603", 1.6, { w: 0.9, h: 0.95 }, { w: 1.6, h: 0.8 }),
+  chip("C_0805", 1.9, { w: 1.0, h: 1.3 }, { w: 2.0, h: 1.25 }),
+  chip("LED_0805", 1.9, { w: 1.0, h: 1.3 }, { w: 2.0, h: 1.25 }),
+  {
+    name: "R_Axial_P10mm",
+    pads: [
+      { number: "1", x: -5, y: 0, w: 1.6, h: 1.6, shape: "rect", drill: 0.8 },
+      { number: "2", x: 5, y: 0, w: 1.6, h: 1.6, shape: "round", drill: 0.8 },
+    ],
+    body: { w: 6.3, h: 2.5 },
+  },
+  {
+    name: "LED_5mm_THT",
+    pads: [
+      { number: "1", x: -1.27, y: 0, w: 1.8, h: 1.8, shape: "rect", drill: 0.9 },
+      { number: "2", x: 1.27, y: 0, w: 1.8, h: 1.8, shape: "round", drill: 0.9 },
+    ],
+    body: { w: 5.8, h: 5.8 },
+  },
+  sot23("SOT-23", [-0.95, 0.95], [0]),
+  sot23("SOT-23-5", [-0.95, 0, 0.95], [0.95, -0.95]),
+  dualRow("SOT-23-6", 6, 0.95, 2.6, { w: 1.1, h: 0.6, shape: "rect" }, { w: 1.6, h: 2.9 }),
+  dualRow("SOIC-8", 8, 1.27, 5.4, { w: 1.6, h: 0.6, shape: "rect" }, { w: 3.9, h: 4.9 }),
+  dualRow("SOIC-14", 14, 1.27, 5.4, { w: 1.6, h: 0.6, shape: "rect" }, { w: 3.9, h: 8.7 }),
+  dualRow("SOIC-16", 16, 1.27, 5.4, { w: 1.6, h: 0.6, shape: "rect" }, { w: 3.9, h: 9.9 }),
+  dualRow("DIP-6_THT", 6, 2.54, 7.62, THT_PAD, { w: 6.4, h: 8.9 }),
+  dualRow("DIP-8_THT", 8, 2.54, 7.62, THT_PAD, { w: 6.4, h: 10.2 }),
+  dualRow("DIP-14_THT", 14, 2.54, 7.62, THT_PAD, { w: 6.4, h: 19.0 }),
+  dualRow("DIP-16_THT", 16, 2.54, 7.62, THT_PAD, { w: 6.4, h: 21.6 }),
+  singleRow("PinHeader_1x02_P2.54mm", 2, 2.54),
+  singleRow("PinHeader_1x03_P2.54mm", 3, 2.54),
+  singleRow("PinHeader_1x04_P2.54mm", 4, 2.54),
+];
+
+export const FOOTPRINTS: Record<string, Footprint> = Object.fromEntries(
+  LIST.map((f) => [f.name, f])
+);
+
+export const FOOTPRINT_NAMES = LIST.map((f) => f.name);
+
+export function getFootprint(name: string): Footprint | null {
+  return FOOTPRINTS[name] ?? null;
+}
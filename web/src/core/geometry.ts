@@ -0,0 +1,17 @@
+import type { Pin, SchematicComponent } from "./design";
+
+export function snap(n: number, grid = 10) {
+  return Math.round(n / grid) * grid;
+}
+
+export function rotatePoint(x: number, y: number, deg: number) {
+  const rad = (deg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+}
+
+export function pinAbsPosition(c: SchematicComponent, p: Pin) {
+  const rotated = rotatePoint(p.x, p.y, c.rotation);
+  return { x: c.x + rotated.x, y: c.y + rotated.y };
+}
@@ -0,0 +1,288 @@
+import type { Point } from "./design";
+
+// Minimal Gerber X2 (RS-274X with attributes) writer and parser. Units are
+// millimetres with 4.6 coordinate format. Board coordinates have Y pointing
+// down like the canvas; Gerber Y points up, so the writer flips it.
+
+export type Aperture = {
+  shape: "C" | "R";
+  // C: [diameter], R: [width, height]
+  size: number[];
+  // .AperFunction value, e.g. "SMDPad,CuDef"
+  fn: string;
+};
+
+// Object attributes (.N net, .P pin, .C component) as "name,value" strings
+export type GerberObject =
+  | { type: "flash"; aperture: Aperture; at: Point; attrs: string[] }
+  | { type: "path"; aperture: Aperture; points: Point[]; attrs: string[] }
+  | { type: "region"; fn: string; points: Point[]; attrs: string[] };
+
+export type GerberLayer = {
+  // .FileFunction value, e.g. "Copper,L1,Top"
+  fileFunction: string;
+  polarity: "Positive" | "Negative";
+  objects: GerberObject[];
+};
+
+const SCALE = 1e6;
+
+const coord = (p: Point) => `X${Math.round(p.x * SCALE)}Y${Math.round(-p.y * SCALE)}`;
+const num = (n: number) => String(+n.toFixed(6));
+
+// Field values may not contain the characters that delimit Gerber syntax
+export function attrValue(s: string) {
+  return s.replace(/[%*,\\]/g, (ch) => `\\u${ch.charCodeAt(0).toString(16).padStart(4, "0")}`);
+}
+
+export function writeGerber(layer: GerberLayer, generator = "FluxLite"): string {
+  const out: string[] = [
+    `%TF.GenerationSoftware,${generator},web,1.0*%`,
+    "%TF.SameCoordinates,Original*%",
+    `%TF.FileFunction,${layer.fileFunction}*%`,
+    `%TF.FilePolarity,${layer.polarity}*%`,
+    "%FSLAX46Y46*%",
+    "%MOMM*%",
+    "%LPD*%",
+  ];
+
+  const codes = new Map<string, number>();
+  const keyOf = (a: Aperture) => `${a.shape}|${a.size.map(num).join("X")}|${a.fn}`;
+  for (const o of layer.objects) {
+    if (o.type === "region") continue;
+    const key = keyOf(o.aperture);
+    if (codes.has(key)) continue;
+    const code = 10 + codes.size;
+    codes.set(key, code);
+    out.push(`%TA.AperFunction,${o.aperture.fn}*%`);
+    out.push(`%ADD${code}${o.aperture.shape},${o.aperture.size.map(num).join("X")}*%`);
+    out.push("%TD*%");
+  }
+
+  out.push("G01*");
+  let current = -1;
+  let attrs: string[] = [];
+  const setAttrs = (next: string[]) => {
+    if (next.join("\n") === attrs.join("\n")) return;
+    if (attrs.length) out.push("%TD*%");
+    for (const a of next) out.push(`%TO.${a}*%`);
+    attrs = next;
+  };
+  const select = (a: Aperture) => {
+    const code = codes.get(keyOf(a))!;
+    if (code !== current) out.push(`D${code}*`);
+    current = code;
+  };
+
+  for (const o of layer.objects) {
+    setAttrs(o.attrs);
+    if (o.type === "flash") {
+      select(o.aperture);
+      out.push(`${coord(o.at)}D03*`);
+    } else if (o.type === "path") {
+      select(o.aperture);
+      out.push(`${coord(o.points[0])}D02*`);
+      for (const p of o.points.slice(1)) out.push(`${coord(p)}D01*`);
+    } else {
+      out.push(`%TA.AperFunction,${o.fn}*%`);
+      out.push("G36*");
+      out.push(`${coord(o.points[0])}D02*`);
+      for (const p of [...o.points.slice(1), o.points[0]]) out.push(`${coord(p)}D01*`);
+      out.push("G37*");
+      out.push("%TD.AperFunction*%");
+    }
+  }
+  if (attrs.length) out.push("%TD*%");
+  out.push("M02*");
+  return out.join("\n") + "\n";
+}
+
+export type ParsedGerber = {
+  // file attributes by name, e.g. { FileFunction: "Copper,L1,Top" }
+  fileAttributes: Record<string, string>;
+  apertures: Map<number, { template: string; params: number[]; fn: string }>;
+  // coordinates in millimetres, Gerber orientation (Y up)
+  flashes: { aperture: number; at: Point; attrs: Record<string, string> }[];
+  draws: { aperture: number; from: Point; to: Point; attrs: Record<string, string> }[];
+  regions: { points: Point[]; attrs: Record<string, string> }[];
+  errors: string[];
+};
+
+// Parses the subset of Gerber this app writes (linear plotting, circle and
+// rectangle apertures, regions, attributes) and reports anything malformed.
+export function parseGerber(text: string): ParsedGerber {
+  const result: ParsedGerber = {
+    fileAttributes: {},
+    apertures: new Map(),
+    flashes: [],
+    draws: [],
+    regions: [],
+    errors: [],
+  };
+  const error = (msg: string) => result.errors.push(msg);
+
+  let intDigits = 0;
+  let decDigits = 0;
+  let units = "";
+  let aperture = -1;
+  let pos: Point = { x: 0, y: 0 };
+  let region: Point[][] | null = null;
+  let ended = false;
+  const apertureAttrs: Record<string, string> = {};
+  const objectAttrs: Record<string, string> = {};
+
+  const statements: { text: string; extended: boolean }[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "%") {
+      const end = text.indexOf("%", i + 1);
+      if (end < 0) {
+        error("Unterminated extended command");
+        break;
+      }
+      for (const s of text.slice(i + 1, end).split("*")) {
+        if (s.trim()) statements.push({ text: s.trim(), extended: true });
+      }
+      if (!text.slice(i + 1, end).trim().endsWith("*")) error("Extended command missing '*'");
+      i = end + 1;
+    } else {
+      const end = text.indexOf("*", i);
+      if (end < 0) {
+        error(`Word command missing '*' near "${text.slice(i, i + 20)}"`);
+        break;
+      }
+      statements.push({ text: text.slice(i, end).trim(), extended: false });
+      i = end + 1;
+    }
+  }
+
+  const readCoord = (s: string, axis: "X" | "Y", fallback: number) => {
+    const m = s.match(new RegExp(`${axis}([+-]?\\d+)`));
+    if (!m) return fallback;
+    if (m[1].replace(/[+-]/, "").length > intDigits + decDigits) {
+      error(`${axis} coordinate ${m[1]} exceeds the format`);
+    }
+    return parseInt(m[1], 10) / 10 ** decDigits;
+  };
+  const parseAttrs = (s: string) => {
+    const [name, ...values] = s.split(",");
+    return { name, value: values.join(",") };
+  };
+
+  for (const { text: s, extended } of statements) {
+    if (ended) {
+      error("Content after M02");
+      break;
+    }
+    if (extended) {
+      if (s.startsWith("FS")) {
+        const m = s.match(/^FSLAX(\d)(\d)Y(\d)(\d)$/);
+        if (!m || m[1] !== m[3] || m[2] !== m[4]) error(`Unsupported format ${s}`);
+        else {
+          intDigits = +m[1];
+          decDigits = +m[2];
+        }
+      } else if (s.startsWith("MO")) {
+        units = s.slice(2);
+        if (units !== "MM" && units !== "IN") error(`Unknown units ${s}`);
+      } else if (s.startsWith("AD")) {
+        const m = s.match(/^ADD(\d+)([A-Za-z_][\w.]*),?(.*)$/);
+        if (!m || +m[1] < 10) {
+          error(`Bad aperture definition ${s}`);
+          continue;
+        }
+        const params = m[3] ? m[3].split("X").map(Number) : [];
+        if (params.some((p) => !Number.isFinite(p) || p < 0)) error(`Bad aperture size ${s}`);
+        if (m[2] === "C" && params.length < 1) error(`Circle aperture needs a diameter: ${s}`);
+        if (m[2] === "R" && params.length < 2) error(`Rectangle aperture needs two sizes: ${s}`);
+        result.apertures.set(+m[1], {
+          template: m[2],
+          params,
+          fn: apertureAttrs[".AperFunction"] ?? "",
+        });
+      } else if (s.startsWith("TF")) {
+        const { name, value } = parseAttrs(s.slice(2));
+        result.fileAttributes[name.replace(/^\./, "")] = value;
+      } else if (s.startsWith("TA")) {
+        const { name, value } = parseAttrs(s.slice(2));
+        apertureAttrs[name] = value;
+      } else if (s.startsWith("TO")) {
+        const { name, value } = parseAttrs(s.slice(2));
+        objectAttrs[name] = value;
+      } else if (s.startsWith("TD")) {
+        const name = s.slice(2);
+        for (const dict of [apertureAttrs, objectAttrs]) {
+          for (const k of Object.keys(dict)) if (!name || k === name) delete dict[k];
+        }
+      } else if (s === "LPD" || s === "LPC") {
+        // polarity changes need no tracking here
+      } else {
+        error(`Unsupported extended command ${s}`);
+      }
+      continue;
+    }
+
+    if (s === "M02") {
+      ended = true;
+      continue;
+    }
+    if (s === "G01" || s.startsWith("G04")) continue;
+    if (s === "G36") {
+      if (region) error("Nested G36");
+      region = [];
+      continue;
+    }
+    if (s === "G37") {
+      if (!region) error("G37 without G36");
+      else {
+        for (const contour of region) {
+          const first = contour[0];
+          const last = contour[contour.length - 1];
+          if (contour.length < 4 || Math.hypot(first.x - last.x, first.y - last.y) > 1e-9) {
+            error("Region contour is not closed");
+          }
+          result.regions.push({ points: contour, attrs: { ...objectAttrs } });
+        }
+      }
+      region = null;
+      continue;
+    }
+    const select = s.match(/^D(\d+)$/);
+    if (select && +select[1] >= 10) {
+      if (!result.apertures.has(+select[1])) error(`Aperture D${select[1]} used before definition`);
+      aperture = +select[1];
+      continue;
+    }
+    const op = s.match(/^((?:[XY][+-]?\d+)*)D0?([123])$/);
+    if (!op) {
+      error(`Unsupported command ${s}`);
+      continue;
+    }
+    if (!units || !decDigits) error("Coordinates before FS/MO");
+    const next = { x: readCoord(op[1], "X", pos.x), y: readCoord(op[1], "Y", pos.y) };
+    if (op[2] === "2") {
+      if (region) region.push([next]);
+    } else if (op[2] === "1") {
+      if (region) {
+        if (!region.length) error("Region D01 without a start point");
+        else region[region.length - 1].push(next);
+      } else if (aperture < 0) {
+        error("D01 with no aperture selected");
+      } else {
+        result.draws.push({ aperture, from: pos, to: next, attrs: { ...objectAttrs } });
+      }
+    } else {
+      if (region) error("D03 inside a region");
+      else if (aperture < 0) error("D03 with no aperture selected");
+      else result.flashes.push({ aperture, at: next, attrs: { ...objectAttrs } });
+    }
+    pos = next;
+  }
+
+  if (!ended) error("Missing M02 end of file");
+  if (region) error("Unterminated region");
+  return result;
+}
@@ -0,0 +1,32 @@
+// Hierarchical sheets:
+//
+//   npx tsx --test src/core/hierarchy.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { type Design, emptyDesign } from "./design";
+import { placeComponent } from "./edit";
+import { flattenDesign, hierarchicalNetlist, sheetOf, withSheet } from "./hierarchy";
+
+test("instances with the same label keep their nets apart", () => {
+  let d: Design = {
+    ...emptyDesign(),
+    sheets: [{ id: "s1", name: "Amp", components: [], wires: [], annotations: [] }],
+  };
+  d = placeComponent(d, "s1", "netlabel", { x: 0, y: 0 });
+  const child = sheetOf(d, "s1");
+  d = withSheet(d, "s1", {
+    ...child,
+    components: child.components.map((c) => ({ ...c, label: "VOUT" })),
+  });
+  d = placeComponent(d, null, "sheet", { x: 0, y: 0 }, { sheet: "s1" });
+  d = placeComponent(d, null, "sheet", { x: 200, y: 0 }, { sheet: "s1" });
+  d = { ...d, components: d.components.map((c) => ({ ...c, label: "CH1" })) };
+
+  const flat = flattenDesign(d);
+  assert.deepEqual(
+    hierarchicalNetlist(flat).map((n) => n.name),
+    ["/CH1_2/VOUT", "/CH1/VOUT"]
+  );
+  assert.deepEqual(Object.values(flat.paths).sort(), ["/", "/", "/CH1/", "/CH1_2/"]);
+});
@@ -0,0 +1,347 @@
+import type {
+  Annotation,
+  Design,
+  Pin,
+  Placement,
+  Point,
+  SchematicComponent,
+  Sheet,
+  Wire,
+} from "./design";
+import { buildNetlist, type Net, pinKey } from "./netlist";
+import { annotate } from "./parts";
+import type { Fragment } from "./selection";
+import { analyzeWires, type WireAnalysis } from "./wires";
+
+// Hierarchical schematics. The root sheet is design.components/wires; child
+// sheets live in design.sheets and are placed by "sheet" symbols whose pins
+// stand for the child's "port" components. Everything downstream (netlist,
+// ERC, BOM, layout) works on the flattened design, where a part inside an
+// instance has the id "<symbol id>/<part id>" (nested instances chain on).
+
+export type FlatDesign = Design & {
+  // instance path of every flattened component: "/" at the root, "/CH1/" inside CH1
+  paths: Record<string, string>;
+  // pin keys joined without a wire: sheet symbol pins and their ports
+  links: [string, string][];
+};
+
+// Spacing of ports down the side of a sheet symbol, in canvas units
+export const SHEET_PIN_PITCH = 20;
+export const SHEET_WIDTH = 100;
+
+export function sheetHeight(pins: number) {
+  return Math.max(2, pins) * SHEET_PIN_PITCH + SHEET_PIN_PITCH;
+}
+
+// Components, wires and annotations of a sheet; null (or a missing sheet) is
+// the root
+export function sheetOf(design: Design, sheetId: string | null): Fragment {
+  return (sheetId && design.sheets.find((s) => s.id === sheetId)) || design;
+}
+
+export function withSheet(design: Design, sheetId: string | null, content: Fragment): Design {
+  const current = sheetOf(design, sheetId);
+  if (
+    current.components === content.components &&
+    current.wires === content.wires &&
+    current.annotations === content.annotations
+  ) {
+    return design;
+  }
+  const { components, wires, annotations } = content;
+  if (!sheetId || current === design) return { ...design, components, wires, annotations };
+  return {
+    ...design,
+    sheets: design.sheets.map((s) =>
+      s.id === sheetId ? { ...s, components, wires, annotations } : s
+    ),
+  };
+}
+
+// Port pins of a sheet symbol: one per port of the child, down the left
+// side in the order the ports sit on the child sheet. Pin ids are the port
+// component ids so wires survive port renames and reordering.
+function portPins(child: Sheet): Pin[] {
+  const ports = child.components
+    .filter((c) => c.kind === "port")
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+  return ports.map((p, i) => ({
+    id: p.id,
+    name: p.label,
+    x: -SHEET_WIDTH / 2 - 10,
+    y: (i - (ports.length - 1) / 2) * SHEET_PIN_PITCH,
+  }));
+}
+
+const samePins = (a: Pin[], b: Pin[]) =>
+  a.length === b.length &&
+  a.every((p, i) => p.id === b[i].id && p.name === b[i].name && p.x === b[i].x && p.y === b[i].y);
+
+// Bring every sheet symbol's pins in line with its child's ports. Returns
+// the same object when nothing changed so history can skip no-op commits.
+export function syncSheetSymbols(design: Design): Design {
+  const sheets = new Map(design.sheets.map((s) => [s.id, s]));
+  const sync = (components: SchematicComponent[]) => {
+    let changed = false;
+    const next = components.map((c) => {
+      if (c.kind !== "sheet") return c;
+      const child = c.sheetId ? sheets.get(c.sheetId) : undefined;
+      const pins = child ? portPins(child) : [];
+      if (samePins(pins, c.pins)) return c;
+      changed = true;
+      return { ...c, pins };
+    });
+    return changed ? next : components;
+  };
+  const components = sync(design.components);
+  let sheetsChanged = false;
+  const nextSheets = design.sheets.map((s) => {
+    const c = sync(s.components);
+    if (c === s.components) return s;
+    sheetsChanged = true;
+    return { ...s, components: c };
+  });
+  if (components === design.components && !sheetsChanged) return design;
+  return { ...design, components, sheets: nextSheets };
+}
+
+// Whether placing `sheetId` somewhere inside `hostId` would make a loop
+export function wouldRecurse(design: Design, sheetId: string, hostId: string | null) {
+  if (!hostId) return false;
+  const visit = (id: string, seen: Set<string>): boolean => {
+    if (id === hostId) return true;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    const sheet = design.sheets.find((s) => s.id === id);
+    return !!sheet?.components.some((c) => c.kind === "sheet" && c.sheetId && visit(c.sheetId, seen));
+  };
+  return visit(sheetId, new Set());
+}
+
+// Delete a child sheet along with every symbol that places it
+export function removeSheet(design: Design, sheetId: string): Design {
+  const strip = (content: Fragment): Fragment => {
+    const gone = new Set(
+      content.components.filter((c) => c.kind === "sheet" && c.sheetId === sheetId).map((c) => c.id)
+    );
+    if (gone.size === 0) return content;
+    return {
+      ...content,
+      components: annotate(content.components.filter((c) => !gone.has(c.id))),
+      wires: content.wires.filter(
+        (w) => !(w.from && gone.has(w.from.componentId)) && !(w.to && gone.has(w.to.componentId))
+      ),
+    };
+  };
+  const root = strip(design);
+  return {
+    ...design,
+    components: root.components,
+    wires: root.wires,
+    sheets: design.sheets.filter((s) => s.id !== sheetId).map((s) => ({ ...s, ...strip(s) })),
+  };
+}
+
+export function flattenDesign(design: Design): FlatDesign {
+  const sheets = new Map(design.sheets.map((s) => [s.id, s]));
+  const components: SchematicComponent[] = [];
+  const wires: Wire[] = [];
+  const annotations: Annotation[] = [];
+  const paths: Record<string, string> = {};
+  const links: [string, string][] = [];
+  // Instance paths prefix the nets inside them, so no two instances may
+  // share one: a repeated name gets a number (a second CH1 becomes CH1_2)
+  const taken = new Set<string>();
+  const instancePath = (parent: string, name: string) => {
+    let path = `${parent}${name}/`;
+    for (let n = 2; taken.has(path); n++) path = `${parent}${name}_${n}/`;
+    taken.add(path);
+    return path;
+  };
+
+  const visit = (content: Fragment, prefix: string, path: string, origin: Point, stack: string[]) => {
+    const flatId = (id: string) => prefix + id;
+    // a sheet's own parts come before its instances so root designators
+    // match the unflattened annotation
+    const placed = content.components.map((c) => {
+      const id = flatId(c.id);
+      const placement: Placement = prefix
+        ? design.board.instancePlacements[id] ?? {
+            ...c.placement,
+            x: c.placement.x + origin.x,
+            y: c.placement.y + origin.y,
+          }
+        : c.placement;
+      const flat = { ...c, id, placement };
+      components.push(flat);
+      paths[id] = path;
+      return flat;
+    });
+    for (const w of content.wires) {
+      wires.push({
+        ...w,
+        id: flatId(w.id),
+        from: w.from && { componentId: flatId(w.from.componentId), pinId: w.from.pinId },
+        to: w.to && { componentId: flatId(w.to.componentId), pinId: w.to.pinId },
+      });
+    }
+    for (const a of content.annotations) annotations.push({ ...a, id: flatId(a.id) });
+    for (const symbol of placed) {
+      if (symbol.kind !== "sheet") continue;
+      const child = symbol.sheetId ? sheets.get(symbol.sheetId) : undefined;
+      if (!child || stack.includes(child.id)) continue;
+      const childPrefix = `${symbol.id}/`;
+      const childPath = instancePath(path, symbol.label || child.name);
+      visit(child, childPrefix, childPath, symbol.placement, [...stack, child.id]);
+      // symbol pin <-> port inside the instance
+      for (const pin of symbol.pins) {
+        const port = child.components.find((c) => c.id === pin.id && c.kind === "port");
+        if (!port?.pins[0]) continue;
+        links.push([pinKey(symbol.id, pin.id), pinKey(childPrefix + port.id, port.pins[0].id)]);
+      }
+    }
+  };
+
+  visit(design, "", "/", { x: 0, y: 0 }, []);
+  // sheets no symbol places are taken in once, under their own name
+  const placedSheets = new Set(
+    [design, ...design.sheets].flatMap((s) =>
+      s.components.filter((c) => c.kind === "sheet" && c.sheetId).map((c) => c.sheetId!)
+    )
+  );
+  for (const s of design.sheets) {
+    if (placedSheets.has(s.id)) continue;
+    visit(s, `${s.id}/`, instancePath("/", s.name), { x: 0, y: 0 }, [s.id]);
+  }
+
+  return { ...design, components: annotate(components), wires, annotations, paths, links };
+}
+
+// Where a flattened id lives: the sheet to open and the id within it
+export function locate(design: Design, flatId: string): { sheetId: string | null; id: string } {
+  const parts = flatId.split("/");
+  let sheetId: string | null = null;
+  let content: Fragment = design;
+  for (const part of parts.slice(0, -1)) {
+    const symbol = content.components.find((c) => c.id === part);
+    const next: string | undefined = symbol?.sheetId ?? (sheetId === null ? part : undefined);
+    const sheet: Sheet | undefined = next ? design.sheets.find((s) => s.id === next) : undefined;
+    if (!sheet) break;
+    sheetId = sheet.id;
+    content = sheet;
+  }
+  return { sheetId, id: parts[parts.length - 1] };
+}
+
+// Set board placements by flattened id: root parts carry their own,
+// parts inside instances are stored per instance on the board
+export function placeParts(design: Design, placements: Map<string, Placement>): Design {
+  const same = (a: Placement | undefined, b: Placement) =>
+    !!a && a.x === b.x && a.y === b.y && a.rotation === b.rotation && a.side === b.side;
+  let changed = false;
+  const components = design.components.map((c) => {
+    const p = placements.get(c.id);
+    if (!p || same(c.placement, p)) return c;
+    changed = true;
+    return { ...c, placement: p };
+  });
+  const instancePlacements = { ...design.board.instancePlacements };
+  for (const [id, p] of placements) {
+    if (!id.includes("/") || same(instancePlacements[id], p)) continue;
+    instancePlacements[id] = p;
+    changed = true;
+  }
+  if (!changed) return design;
+  return { ...design, components, board: { ...design.board, instancePlacements } };
+}
+
+// Name a net gets from the symbols on it: power and ground symbols name
+// global nets, net labels and ports name nets within their sheet instance
+// (root-level labels are unprefixed, "/CH1/VOUT" inside CH1)
+function symbolNetName(c: SchematicComponent, path: string) {
+  if (!c.label) return null;
+  if (c.kind === "power" || c.kind === "ground") return c.label;
+  if (c.kind === "netlabel" || c.kind === "port") return path === "/" ? c.label : `${path}${c.label}`;
+  return null;
+}
+
+// Nets across the whole hierarchy. Wired groups are merged when they carry
+// the same power/ground name or the same net label, then named by the most
+// significant symbol on them (power/ground, then labels, then ports, the
+// shallowest first). Anything left is named after its first part pin,
+// e.g. Net-(R1-2), so names do not move around as the schematic is edited.
+export function hierarchicalNetlist(
+  flat: FlatDesign,
+  analysis: WireAnalysis = analyzeWires(flat)
+): Net[] {
+  const components = new Map(flat.components.map((c) => [c.id, c]));
+  const groups = buildNetlist(flat, flat.links, analysis).map((n) => n.pins);
+  const wired = new Set(groups.flat());
+  // power symbols and labels join their net even with nothing wired to them
+  for (const c of flat.components) {
+    if (!symbolNetName(c, "/") || c.kind === "port") continue;
+    for (const p of c.pins) {
+      const k = pinKey(c.id, p.id);
+      if (!wired.has(k)) groups.push([k]);
+    }
+  }
+
+  const parent = groups.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const owner = new Map<string, number>();
+  groups.forEach((pins, i) => {
+    for (const k of pins) {
+      const c = components.get(k.split(":")[0]);
+      if (!c || c.kind === "port") continue;
+      const name = symbolNetName(c, flat.paths[c.id] ?? "/");
+      if (!name) continue;
+      const j = owner.get(name);
+      if (j === undefined) owner.set(name, i);
+      else parent[find(i)] = find(j);
+    }
+  });
+  const merged = new Map<number, string[]>();
+  groups.forEach((pins, i) => {
+    const root = find(i);
+    const group = merged.get(root);
+    if (group) group.push(...pins);
+    else merged.set(root, [...pins]);
+  });
+
+  const rank: Partial<Record<SchematicComponent["kind"], number>> = {
+    power: 0,
+    ground: 0,
+    netlabel: 1,
+    port: 2,
+  };
+  const depth = (name: string) => name.split("/").length;
+  const nets = Array.from(merged.values()).map((pins) => {
+    const named = pins
+      .map((k) => components.get(k.split(":")[0]))
+      .filter((c): c is SchematicComponent => !!c && symbolNetName(c, "/") !== null)
+      .map((c) => ({ rank: rank[c.kind]!, name: symbolNetName(c, flat.paths[c.id] ?? "/")! }))
+      .sort(
+        (a, b) => a.rank - b.rank || depth(a.name) - depth(b.name) || a.name.localeCompare(b.name)
+      );
+    if (named.length) return { name: named[0].name, pins };
+    return { name: autoNetName(pins, components), pins };
+  });
+  return nets.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+function autoNetName(pins: string[], components: Map<string, SchematicComponent>) {
+  let best: { ref: string; index: number; pin: string } | null = null;
+  for (const k of pins) {
+    const [cid, pid] = k.split(":");
+    const c = components.get(cid);
+    const index = c?.pins.findIndex((p) => p.id === pid) ?? -1;
+    if (!c || index < 0) continue;
+    const ref = c.ref || c.label;
+    const order = best
+      ? ref.localeCompare(best.ref, undefined, { numeric: true }) || index - best.index
+      : -1;
+    if (order < 0) best = { ref, index, pin: c.pins[index].name || String(index + 1) };
+  }
+  return best ? `Net-(${best.ref}-${best.pin})` : `Net-(${pins[0]})`;
+}
@@ -0,0 +1,73 @@
+// Undo/redo history built from labelled commands.
+// Every mutation of the present value goes through `commit`, which records the
+// previous value so it can be restored. Consecutive commits that share a
+// coalesce key (one drag, one typing session) collapse into a single step.
+
+export type HistoryEntry<T> = {
+  label: string;
+  value: T;
+};
+
+export type History<T> = {
+  past: HistoryEntry<T>[];
+  present: T;
+  future: HistoryEntry<T>[];
+  // coalesce key of the step currently open for merging, if any
+  group: string | null;
+};
+
+export const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [], group: null };
+}
+
+export function commit<T>(
+  h: History<T>,
+  label: string,
+  next: T,
+  coalesce?: string
+): History<T> {
+  if (next === h.present) return h;
+  if (coalesce && h.group === coalesce && h.past.length > 0) {
+    // extend the open step: keep its "before" value, just move present forward
+    return { ...h, present: next, future: [] };
+  }
+  const past = [...h.past, { label, value: h.present }].slice(-HISTORY_LIMIT);
+  return { past, present: next, future: [], group: coalesce ?? null };
+}
+
+// Close the open coalescing group so the next commit starts a new step.
+export function seal<T>(h: History<T>): History<T> {
+  return h.group === null ? h : { ...h, group: null };
+}
+
+export function undo<T>(h: History<T>): History<T> {
+  const prev = h.past[h.past.length - 1];
+  if (!prev) return h;
+  return {
+    past: h.past.slice(0, -1),
+    present: prev.value,
+    future: [{ label: prev.label, value: h.present }, ...h.future],
+    group: null,
+  };
+}
+
+export function redo<T>(h: History<T>): History<T> {
+  const next = h.future[0];
+  if (!next) return h;
+  return {
+    past: [...h.past, { label: next.label, value: h.present }],
+    present: next.value,
+    future: h.future.slice(1),
+    group: null,
+  };
+}
+
+export function undoLabel<T>(h: History<T>): string | null {
+  return h.past[h.past.length - 1]?.label ?? null;
+}
+
+export function redoLabel<T>(h: History<T>): string | null {
+  return h.future[0]?.label ?? null;
+}
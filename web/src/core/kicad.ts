@@ -0,0 +1,910 @@
+import { nanoid } from "nanoid";
+import {
+  annotationOutline,
+  annotationPoint,
+  arrowHead,
+  imagePixels,
+  NO_CONNECT_SIZE,
+} from "./annotations";
+import {
+  type Annotation,
+  type ComponentKind,
+  type Design,
+  emptyDesign,
+  type LibraryPart,
+  type Pin,
+  type PinType,
+  type Point,
+  type SchematicComponent,
+  type SymbolGraphic,
+  type Wire,
+  type WireEnd,
+} from "./design";
+import { pinAbsPosition, rotatePoint, snap } from "./geometry";
+import { type FlatDesign, locate, SHEET_WIDTH, sheetHeight, sheetOf } from "./hierarchy";
+import { defaultPlacement } from "./layout";
+import { boxSymbol, PIN_TYPES } from "./library";
+import type { Net } from "./netlist";
+import { annotate, defaultPins, defaultProps, isBomPart } from "./parts";
+import {
+  parseSExpr,
+  q,
+  type SExpr,
+  sFind,
+  sFindAll,
+  sHead,
+  sNum,
+  type SOut,
+  sText,
+  writeSExpr,
+} from "./sexpr";
+import { analyzeWires, pinPositions, route90, simplifyPath, wirePath } from "./wires";
+
+// KiCad interchange: .kicad_sch schematics (KiCad 8 format) and the
+// s-expression netlist (.net) read by Pcbnew and most other tools. The
+// canvas grid of 10 units lands on KiCad's 50 mil schematic grid; KiCad's
+// schematic Y points down like the canvas, symbol library Y points up.
+
+export const KICAD_MM = 0.127;
+
+const LIB = "fluxlite";
+const VERSION = 20231120;
+const FONT: SOut = ["effects", ["font", ["size", 1.27, 1.27]]];
+const HIDDEN: SOut = ["effects", ["font", ["size", 1.27, 1.27]], ["hide", "yes"]];
+const STROKE: SOut = ["stroke", ["width", 0], ["type", "default"]];
+
+const fill = (on: boolean): SOut => ["fill", ["type", on ? "background" : "none"]];
+
+// Stable UUID from an id, so exporting twice gives the same file
+export function kicadUuid(key: string) {
+  const part = (seed: number) => {
+    let h = 0x811c9dc5 ^ seed;
+    for (let i = 0; i < key.length; i++) h = Math.imul(h ^ key.charCodeAt(i), 0x01000193);
+    return (h >>> 0).toString(16).padStart(8, "0");
+  };
+  const hex = [0, 1, 2, 3].map((i) => part(Math.imul(i, 0x9e3779b9))).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20)}`;
+}
+
+const pinNumber = (p: Pin, i: number) => p.number || String(i + 1);
+
+const kicadPinType = (t: PinType | undefined) => (t ?? "passive").replace("-", "_");
+
+// --- Export ---------------------------------------------------------------
+
+const line = (...xy: number[]): SymbolGraphic => ({
+  type: "polyline",
+  points: Array.from({ length: xy.length / 2 }, (_, i) => ({ x: xy[2 * i], y: xy[2 * i + 1] })),
+  fill: false,
+});
+
+// Bodies for the built-in kinds, drawn to meet the pins of defaultPins()
+const KIND_SYMBOLS: Partial<Record<ComponentKind, { name: string; graphics: SymbolGraphic[] }>> = {
+  resistor: {
+    name: "R",
+    graphics: [
+      { type: "rect", x: -12, y: -5, w: 24, h: 10, fill: false },
+      line(-20, 0, -12, 0),
+      line(12, 0, 20, 0),
+    ],
+  },
+  capacitor: {
+    name: "C",
+    graphics: [line(-20, 0, -3, 0), line(3, 0, 20, 0), line(-3, -10, -3, 10), line(3, -10, 3, 10)],
+  },
+  led: {
+    name: "LED",
+    graphics: [
+      line(-20, 0, 20, 0),
+      {
+        type: "polyline",
+        points: [
+          { x: -6, y: -8 },
+          { x: 6, y: 0 },
+          { x: -6, y: 8 },
+          { x: -6, y: -8 },
+        ],
+        fill: true,
+      },
+      line(6, -8, 6, 8),
+    ],
+  },
+  ic: {
+    name: "IC",
+    graphics: [
+      { type: "rect", x: -20, y: -30, w: 40, h: 60, fill: true },
+      ...[-20, 0, 20].flatMap((y) => [line(-30, y, -20, y), line(20, y, 30, y)]),
+    ],
+  },
+  power: { name: "PWR", graphics: [line(0, -20, 0, -10), line(-8, -10, 8, -10)] },
+  ground: {
+    name: "GND",
+    graphics: [line(0, 20, 0, 8), line(-10, 8, 10, 8), line(-6, 4, 6, 4), line(-2, 0, 2, 0)],
+  },
+};
+
+function graphicOut(g: SymbolGraphic): SOut {
+  const xy = (x: number, y: number) => [x * KICAD_MM, -y * KICAD_MM];
+  switch (g.type) {
+    case "rect":
+      return [
+        "rectangle",
+        ["start", ...xy(g.x, g.y)],
+        ["end", ...xy(g.x + g.w, g.y + g.h)],
+        STROKE,
+        fill(g.fill),
+      ];
+    case "polyline":
+      return [
+        "polyline",
+        ["pts", ...g.points.map((p) => ["xy", ...xy(p.x, p.y)])],
+        STROKE,
+        fill(g.fill),
+      ];
+    case "circle":
+      return [
+        "circle",
+        ["center", ...xy(g.x, g.y)],
+        ["radius", g.r * KICAD_MM],
+        STROKE,
+        fill(g.fill),
+      ];
+    case "text": {
+      const size = g.size * KICAD_MM;
+      return [
+        "text",
+        q(g.text),
+        ["at", ...xy(g.x, g.y), 0],
+        ["effects", ["font", ["size", size, size]]],
+      ];
+    }
+  }
+}
+
+// Pins are zero-length: the symbol graphics already draw the stubs. The
+// angle points from the connection point into the body.
+function pinOut(p: Pin, i: number): SOut {
+  const angle = Math.abs(p.x) >= Math.abs(p.y) ? (p.x < 0 ? 0 : 180) : p.y < 0 ? 270 : 90;
+  return [
+    "pin",
+    kicadPinType(p.type),
+    "line",
+    ["at", p.x * KICAD_MM, -p.y * KICAD_MM, angle],
+    ["length", 0],
+    ["name", q(p.name || "~"), FONT],
+    ["number", q(pinNumber(p, i)), FONT],
+  ];
+}
+
+// Symbol names: the kind's for built-ins, the (unique) part name for library parts
+function symbolNames(library: LibraryPart[]) {
+  const names = new Map<string, string>();
+  const used = new Set(Object.values(KIND_SYMBOLS).map((s) => s!.name));
+  for (const part of library) {
+    const base = part.name.replace(/[^\w.+-]+/g, "_") || "PART";
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+    used.add(name);
+    names.set(part.id, name);
+  }
+  return (c: SchematicComponent) =>
+    (c.kind === "part" && c.partId && names.get(c.partId)) || KIND_SYMBOLS[c.kind]?.name || "PART";
+}
+
+function libSymbol(name: string, c: SchematicComponent, library: LibraryPart[]): SOut {
+  const part = c.kind === "part" ? library.find((p) => p.id === c.partId) : undefined;
+  const graphics = part ? part.graphics : (KIND_SYMBOLS[c.kind]?.graphics ?? []);
+  const power = c.kind === "power" || c.kind === "ground";
+  const prefix = power ? "#PWR" : (/^[A-Za-z]+/.exec(c.ref)?.[0] ?? "U");
+  return [
+    "symbol",
+    q(`${LIB}:${name}`),
+    ...(power ? [["power"]] : []),
+    ["exclude_from_sim", "no"],
+    ["in_bom", power ? "no" : "yes"],
+    ["on_board", power ? "no" : "yes"],
+    ["property", q("Reference"), q(prefix), ["at", 0, 5.08, 0], power ? HIDDEN : FONT],
+    ["property", q("Value"), q(name), ["at", 0, -5.08, 0], FONT],
+    ["property", q("Footprint"), q(""), ["at", 0, 0, 0], HIDDEN],
+    ["property", q("Description"), q(part?.description ?? ""), ["at", 0, 0, 0], HIDDEN],
+    ["symbol", q(`${name}_0_1`), ...graphics.map(graphicOut)],
+    ["symbol", q(`${name}_1_1`), ...c.pins.map(pinOut)],
+  ];
+}
+
+// Images without a resolution of their own are taken at 300 dpi
+const IMAGE_PPI = 300;
+
+// Sheet annotations as KiCad graphic items; `at` maps canvas to page
+// coordinates. Rectangles and arrows become polylines so they can turn,
+// images stay upright, and a no-connect flag's name is a text beside it.
+function annotationItems(a: Annotation, at: (p: Point) => number[]): SOut[] {
+  const uuid = (part = "") => ["uuid", q(kicadUuid(`${a.id}${part}`))];
+  const pts = (points: Point[]) => [
+    "pts",
+    ...points.map((p) => ["xy", ...at(annotationPoint(a, p))]),
+  ];
+  const angle = (360 - a.rotation) % 360;
+  const note = (text: string, p: Point, size: number, part = ""): SOut => [
+    "text",
+    q(text),
+    ["exclude_from_sim", "no"],
+    ["at", ...at(annotationPoint(a, p)), angle],
+    [
+      "effects",
+      ["font", ["size", size * KICAD_MM, size * KICAD_MM]],
+      ["justify", "left", "bottom"],
+    ],
+    uuid(part),
+  ];
+  switch (a.type) {
+    case "text":
+      return [note(a.text, { x: 0, y: 0 }, a.size)];
+    case "line":
+    case "arrow": {
+      const items: SOut[] = [
+        [
+          "polyline",
+          pts([
+            { x: 0, y: 0 },
+            { x: a.dx, y: a.dy },
+          ]),
+          STROKE,
+          uuid(),
+        ],
+      ];
+      if (a.type === "arrow") items.push(["polyline", pts(arrowHead(a)), STROKE, uuid(":head")]);
+      return items;
+    }
+    case "rect": {
+      const [w, h] = [a.w / 2, a.h / 2];
+      const corners = [
+        { x: -w, y: -h },
+        { x: w, y: -h },
+        { x: w, y: h },
+        { x: -w, y: h },
+      ];
+      return [["polyline", pts([...corners, corners[0]]), STROKE, uuid()]];
+    }
+    case "image": {
+      const size = imagePixels(a.href);
+      if (!size) return [];
+      const data = a.href.slice(a.href.indexOf(",") + 1);
+      const scale = (a.w * KICAD_MM) / ((size.width / IMAGE_PPI) * 25.4);
+      return [
+        [
+          "image",
+          ["at", ...at(a)],
+          ["scale", scale],
+          uuid(),
+          ["data", ...(data.match(/.{1,76}/g) ?? []).map(q)],
+        ],
+      ];
+    }
+    case "no-connect":
+      return [
+        ["no_connect", ["at", ...at(a)], uuid()],
+        note(a.name, { x: -NO_CONNECT_SIZE, y: -NO_CONNECT_SIZE - 4 }, 8, ":name"),
+      ];
+  }
+}
+
+const PAPERS: [string, number, number][] = [
+  ["A4", 297, 210],
+  ["A3", 420, 297],
+  ["A2", 594, 420],
+  ["A1", 841, 594],
+  ["A0", 1189, 841],
+];
+
+// One .kicad_sch per sheet: the root as `${name}.kicad_sch`, child sheets
+// named after themselves and placed through (sheet) blocks. References come
+// from the flattened design, one instance entry per placement of a sheet.
+export function writeKicadSchematic(
+  design: Design,
+  flat: FlatDesign,
+  name = "design",
+  project = LIB
+): { name: string; data: string }[] {
+  const rootUuid = kicadUuid("root");
+  const symbolName = symbolNames(design.library);
+  const files = new Map<string | null, string>([[null, `${name}.kicad_sch`]]);
+  for (const s of design.sheets) {
+    const base = s.name.replace(/[^\w.-]+/g, "_") || "sheet";
+    let file = `${base}.kicad_sch`;
+    for (let n = 2; [...files.values()].includes(file); n++) file = `${base}_${n}.kicad_sch`;
+    files.set(s.id, file);
+  }
+
+  // KiCad instance path of every placement: the root, then each sheet symbol down
+  const instances = new Map<string, { path: string; ref: string }[]>();
+  for (const c of flat.components) {
+    const chain = c.id.split("/").slice(0, -1);
+    if (chain.length && !design.components.some((r) => r.id === chain[0])) continue;
+    const { sheetId, id } = locate(design, c.id);
+    const key = `${sheetId ?? ""}|${id}`;
+    const path = `/${rootUuid}${chain.map((s) => `/${kicadUuid(s)}`).join("")}`;
+    instances.set(key, [...(instances.get(key) ?? []), { path, ref: c.ref }]);
+  }
+
+  const pages = new Map<string, number>();
+  return [...files].map(([sheetId, file]) => {
+    const content = sheetOf(design, sheetId);
+    const pins = pinPositions(content.components);
+    const paths = content.wires.map((w) => wirePath(w, pins));
+    const placedAt = (id: string) => instances.get(`${sheetId ?? ""}|${id}`) ?? [];
+
+    // keep the drawing on the page, on the 50 mil grid
+    const pts = [
+      ...content.components.flatMap((c) => [c, ...c.pins.map((p) => pinAbsPosition(c, p))]),
+      ...paths.flat(),
+      ...content.annotations.flatMap(annotationOutline),
+    ];
+    const minX = Math.min(0, ...pts.map((p) => p.x));
+    const minY = Math.min(0, ...pts.map((p) => p.y));
+    const maxX = Math.max(0, ...pts.map((p) => p.x));
+    const maxY = Math.max(0, ...pts.map((p) => p.y));
+    const ox = snap(-minX) + 200;
+    const oy = snap(-minY) + 200;
+    const at = (p: Point) => [(p.x + ox) * KICAD_MM, (p.y + oy) * KICAD_MM];
+    const width = (maxX - minX + 400) * KICAD_MM;
+    const height = (maxY - minY + 400) * KICAD_MM;
+    const paper = PAPERS.find(([, w, h]) => width <= w && height <= h)?.[0] ?? "A0";
+
+    const libSymbols = new Map<string, SOut>();
+    const items: SOut[] = [];
+    const segment = (a: Point, b: Point, key: string): SOut => [
+      "wire",
+      ["pts", ["xy", ...at(a)], ["xy", ...at(b)]],
+      STROKE,
+      ["uuid", q(kicadUuid(key))],
+    ];
+    let powerCount = 0;
+
+    for (const c of content.components) {
+      const angle = (360 - c.rotation) % 360;
+      const uuid = q(kicadUuid(c.id));
+      if (c.kind === "netlabel" || c.kind === "port") {
+        if (!c.label || !c.pins[0]) continue;
+        const anchor = at(pinAbsPosition(c, c.pins[0]));
+        items.push(
+          c.kind === "netlabel"
+            ? ["label", q(c.label), ["at", ...anchor, angle], FONT, ["uuid", uuid]]
+            : [
+                "hierarchical_label",
+                q(c.label),
+                ["shape", "bidirectional"],
+                ["at", ...anchor, angle],
+                FONT,
+                ["uuid", uuid],
+              ]
+        );
+        continue;
+      }
+      if (c.kind === "sheet") {
+        // sheets cannot rotate in KiCad: the box stays upright and a wire
+        // runs from each (possibly rotated) pin to its place on the edge
+        const child = design.sheets.find((s) => s.id === c.sheetId);
+        if (!child) continue;
+        const h = sheetHeight(c.pins.length);
+        const left = c.x - SHEET_WIDTH / 2;
+        const sheetPins = c.pins.map((p, i) => {
+          const edge = { x: left, y: c.y + p.y };
+          const from = pinAbsPosition(c, p);
+          const path = simplifyPath([from, ...route90(from, edge)]);
+          path.slice(1).forEach((b, j) => items.push(segment(path[j], b, `${c.id}:${p.id}:${j}`)));
+          return [
+            "pin",
+            q(p.name),
+            "bidirectional",
+            ["at", ...at(edge), 180],
+            FONT,
+            ["uuid", q(kicadUuid(`${c.id}:${i}`))],
+          ];
+        });
+        const page = pages.size + 2;
+        pages.set(c.id, page);
+        items.push([
+          "sheet",
+          ["at", ...at({ x: left, y: c.y - h / 2 })],
+          ["size", SHEET_WIDTH * KICAD_MM, h * KICAD_MM],
+          STROKE,
+          fill(false),
+          ["uuid", uuid],
+          [
+            "property",
+            q("Sheetname"),
+            q(c.label || child.name),
+            ["at", ...at({ x: left, y: c.y - h / 2 - 5 }), 0],
+            FONT,
+          ],
+          [
+            "property",
+            q("Sheetfile"),
+            q(files.get(child.id)!),
+            ["at", ...at({ x: left, y: c.y + h / 2 + 5 }), 0],
+            FONT,
+          ],
+          ...sheetPins,
+          [
+            "instances",
+            [
+              "project",
+              q(project),
+              ...placedAt(c.id).map((i) => ["path", q(i.path), ["page", q(String(page))]]),
+            ],
+          ],
+        ]);
+        continue;
+      }
+
+      const lib = symbolName(c);
+      if (!libSymbols.has(lib)) libSymbols.set(lib, libSymbol(lib, c, design.library));
+      const power = c.kind === "power" || c.kind === "ground";
+      const ref = power ? `#PWR0${String(++powerCount).padStart(2, "0")}` : c.ref;
+      const value = power ? c.label || lib : c.props.value || c.label;
+      const [x, y] = at(c);
+      const placed = placedAt(c.id);
+      items.push([
+        "symbol",
+        ["lib_id", q(`${LIB}:${lib}`)],
+        ["at", x, y, angle],
+        ["unit", 1],
+        ["exclude_from_sim", "no"],
+        ["in_bom", isBomPart(c) ? "yes" : "no"],
+        ["on_board", isBomPart(c) ? "yes" : "no"],
+        ["dnp", "no"],
+        ["uuid", uuid],
+        ["property", q("Reference"), q(ref), ["at", x, y - 5.08, 0], power ? HIDDEN : FONT],
+        ["property", q("Value"), q(value), ["at", x, y + 5.08, 0], FONT],
+        ["property", q("Footprint"), q(c.props.footprint), ["at", x, y, 0], HIDDEN],
+        ...(c.props.manufacturer
+          ? [["property", q("Manufacturer"), q(c.props.manufacturer), ["at", x, y, 0], HIDDEN]]
+          : []),
+        ...(c.props.mpn ? [["property", q("MPN"), q(c.props.mpn), ["at", x, y, 0], HIDDEN]] : []),
+        ...c.pins.map((p, i) => [
+          "pin",
+          q(pinNumber(p, i)),
+          ["uuid", q(kicadUuid(`${c.id}:${p.id}`))],
+        ]),
+        [
+          "instances",
+          [
+            "project",
+            q(project),
+            ...(power || placed.length === 0 ? [{ path: `/${rootUuid}`, ref }] : placed).map(
+              (i) => ["path", q(i.path), ["reference", q(power ? ref : i.ref)], ["unit", 1]]
+            ),
+          ],
+        ],
+      ]);
+    }
+
+    content.wires.forEach((w, i) =>
+      paths[i].slice(1).forEach((b, j) => items.push(segment(paths[i][j], b, `${w.id}:${j}`)))
+    );
+    for (const p of analyzeWires(content).junctions) {
+      items.push([
+        "junction",
+        ["at", ...at(p)],
+        ["diameter", 0],
+        ["color", 0, 0, 0, 0],
+        ["uuid", q(kicadUuid(`junction:${p.x},${p.y}`))],
+      ]);
+    }
+    for (const a of content.annotations) items.push(...annotationItems(a, at));
+
+    const doc: SOut = [
+      "kicad_sch",
+      ["version", VERSION],
+      ["generator", q(LIB)],
+      ["generator_version", q("1.0")],
+      ["uuid", q(sheetId ? kicadUuid(`sheet:${sheetId}`) : rootUuid)],
+      ["paper", q(paper)],
+      ["lib_symbols", ...libSymbols.values()],
+      ...items,
+      ...(sheetId ? [] : [["sheet_instances", ["path", q("/"), ["page", q("1")]]]]),
+    ];
+    return { name: file, data: writeSExpr(doc) + "\n" };
+  });
+}
+
+// KiCad netlist ("E" format) of the flattened design: every part with its
+// footprint, and every net that reaches a part pin
+export function writeKicadNetlist(
+  flat: FlatDesign,
+  nets: Net[],
+  source = "design.kicad_sch",
+  date = new Date()
+): string {
+  const symbolName = symbolNames(flat.library);
+  const parts = flat.components
+    .filter(isBomPart)
+    .sort((a, b) => a.ref.localeCompare(b.ref, undefined, { numeric: true }));
+  const byId = new Map(parts.map((c) => [c.id, c]));
+  const stamps = (id: string) =>
+    `/${id
+      .split("/")
+      .slice(0, -1)
+      .map((s) => `${kicadUuid(s)}/`)
+      .join("")}`;
+
+  const libparts = new Map<string, SOut>();
+  for (const c of parts) {
+    const name = symbolName(c);
+    if (libparts.has(name)) continue;
+    libparts.set(name, [
+      "libpart",
+      ["lib", q(LIB)],
+      ["part", q(name)],
+      [
+        "pins",
+        ...c.pins.map((p, i) => [
+          "pin",
+          ["num", q(pinNumber(p, i))],
+          ["name", q(p.name || "~")],
+          ["type", q(kicadPinType(p.type))],
+        ]),
+      ],
+    ]);
+  }
+
+  const netOut: SOut[] = [];
+  for (const net of nets) {
+    const nodes = net.pins.flatMap((k) => {
+      const [cid, pid] = k.split(":");
+      const c = byId.get(cid);
+      const i = c ? c.pins.findIndex((p) => p.id === pid) : -1;
+      if (!c || i < 0) return [];
+      const p = c.pins[i];
+      return [
+        [
+          "node",
+          ["ref", q(c.ref)],
+          ["pin", q(pinNumber(p, i))],
+          ["pinfunction", q(p.name)],
+          ["pintype", q(kicadPinType(p.type))],
+        ],
+      ];
+    });
+    if (nodes.length)
+      netOut.push(["net", ["code", q(String(netOut.length + 1))], ["name", q(net.name)], ...nodes]);
+  }
+
+  const doc: SOut = [
+    "export",
+    ["version", q("E")],
+    ["design", ["source", q(source)], ["date", q(date.toISOString())], ["tool", q("FluxLite")]],
+    [
+      "components",
+      ...parts.map((c) => [
+        "comp",
+        ["ref", q(c.ref)],
+        ["value", q(c.props.value || c.label)],
+        ["footprint", q(c.props.footprint)],
+        ["libsource", ["lib", q(LIB)], ["part", q(symbolName(c))], ["description", q("")]],
+        ["sheetpath", ["names", q(flat.paths[c.id] ?? "/")], ["tstamps", q(stamps(c.id))]],
+        ["tstamps", q(kicadUuid(c.id.split("/").pop()!))],
+      ]),
+    ],
+    ["libparts", ...libparts.values()],
+    ["nets", ...netOut],
+  ];
+  return writeSExpr(doc) + "\n";
+}
+
+// --- Import ---------------------------------------------------------------
+
+type KicadPin = { number: string; name: string; type: PinType; x: number; y: number; unit: number };
+
+type KicadLibSymbol = { power: boolean; pins: KicadPin[]; units: number; extendsFrom?: string };
+
+export type KicadImport = {
+  design: Design;
+  // one line per thing that did not come across as it was
+  report: string[];
+};
+
+const IMPORT_TYPES = new Set(PIN_TYPES.map((t) => t.id));
+
+function importPinType(t: string): PinType {
+  const mapped = t.replace("_", "-");
+  if (IMPORT_TYPES.has(mapped as PinType)) return mapped as PinType;
+  if (t === "tri_state") return "bidirectional";
+  if (t === "open_emitter") return "open-collector";
+  return "passive";
+}
+
+function readLibSymbols(root: SExpr[]): Map<string, KicadLibSymbol> {
+  const symbols = new Map<string, KicadLibSymbol>();
+  for (const s of sFindAll(sFind(root, "lib_symbols") ?? [], "symbol")) {
+    const name = sText(s[1]);
+    const pins: KicadPin[] = [];
+    let units = 1;
+    const collect = (node: SExpr[], unit: number) => {
+      for (const p of sFindAll(node, "pin")) {
+        const at = sFind(p, "at") ?? [];
+        pins.push({
+          number: sText(sFind(p, "number")?.[1]),
+          name: sText(sFind(p, "name")?.[1]).replace(/^~$/, ""),
+          type: importPinType(sText(p[1])),
+          x: sNum(at[1]),
+          y: sNum(at[2]),
+          unit,
+        });
+      }
+    };
+    collect(s, 0);
+    for (const sub of sFindAll(s, "symbol")) {
+      // "<name>_<unit>_<body style>"; only the first body style
+      const m = /_(\d+)_(\d+)$/.exec(sText(sub[1]));
+      if (!m || Number(m[2]) > 1) continue;
+      units = Math.max(units, Number(m[1]));
+      collect(sub, Number(m[1]));
+    }
+    const extendsFrom = sText(sFind(s, "extends")?.[1]) || undefined;
+    symbols.set(name, { power: !!sFind(s, "power"), pins, units, extendsFrom });
+  }
+  for (const [name, s] of symbols) {
+    const base = s.extendsFrom
+      ? (symbols.get(s.extendsFrom) ?? symbols.get(`${name.split(":")[0]}:${s.extendsFrom}`))
+      : undefined;
+    if (base && s.pins.length === 0) symbols.set(name, { ...base, power: s.power || base.power });
+  }
+  return symbols;
+}
+
+// Canvas point of a KiCad sheet position in millimetres
+const fromMm = (x: number, y: number): Point => ({
+  x: Math.round(x / KICAD_MM),
+  y: Math.round(y / KICAD_MM),
+});
+
+// Where a library pin lands: rotate (counter-clockwise on screen), then mirror
+function placePin(at: SExpr[], mirror: string, p: KicadPin): Point {
+  const r = rotatePoint(p.x, -p.y, -sNum(at[3]));
+  const x = mirror === "y" ? -r.x : r.x;
+  const y = mirror === "x" ? -r.y : r.y;
+  return fromMm(sNum(at[1]) + x, sNum(at[2]) + y);
+}
+
+const propertyOf = (node: SExpr[], name: string) =>
+  sText(sFindAll(node, "property").find((p) => sText(p[1]) === name)?.[2]);
+
+const pointKey = (p: Point) => `${p.x},${p.y}`;
+
+// Component placed so its first pin lands on `anchor`
+function anchored(
+  c: Omit<SchematicComponent, "x" | "y" | "placement">,
+  anchor: Point
+): SchematicComponent {
+  const r = rotatePoint(c.pins[0].x, c.pins[0].y, c.rotation);
+  const x = Math.round(anchor.x - r.x);
+  const y = Math.round(anchor.y - r.y);
+  return { ...c, x, y, placement: defaultPlacement(x, y) };
+}
+
+// Read a KiCad 6+ schematic sheet. Resistors, capacitors, LEDs and power
+// symbols become the built-in kinds; any other symbol becomes a generic IC
+// (a library part with a box symbol) with the same pins. Wires keep their
+// geometry and attach to the pins they end on, labels become net labels and
+// hierarchical labels become ports. Everything else is listed in the report.
+export function readKicadSchematic(text: string): KicadImport {
+  const root = parseSExpr(text)[0];
+  if (!Array.isArray(root) || sHead(root) !== "kicad_sch") {
+    throw new Error("Not a KiCad schematic (.kicad_sch)");
+  }
+  const report: string[] = [];
+  const libSymbols = readLibSymbols(root);
+  const components: SchematicComponent[] = [];
+  const wires: Wire[] = [];
+  const library = new Map<string, LibraryPart>();
+  // connection points: pins and label anchors found at each position
+  const anchors = new Map<string, WireEnd[]>();
+  const addAnchor = (at: Point, end: WireEnd) =>
+    anchors.set(pointKey(at), [...(anchors.get(pointKey(at)) ?? []), end]);
+  const blank = (kind: ComponentKind, label: string, rotation = 0) => ({
+    id: nanoid(),
+    kind,
+    rotation,
+    label,
+    ref: "",
+    props: defaultProps(kind),
+    pins: defaultPins(kind),
+  });
+
+  for (const s of sFindAll(root, "symbol")) {
+    const libId = sText(sFind(s, "lib_id")?.[1]);
+    const ref = propertyOf(s, "Reference");
+    const value = propertyOf(s, "Value");
+    const lib = libSymbols.get(libId);
+    if (!lib) {
+      report.push(
+        `Dropped ${ref || libId}: symbol ${libId} is missing from the file's lib_symbols`
+      );
+      continue;
+    }
+    const at = sFind(s, "at") ?? [];
+    const mirror = sText(sFind(s, "mirror")?.[1]);
+    const unit = sNum(sFind(s, "unit")?.[1]) || 1;
+    const pins = lib.pins
+      .filter((p) => p.unit === 0 || p.unit === unit)
+      .sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true }));
+    if (pins.length === 0) {
+      report.push(`Dropped ${ref || libId}: symbol has no pins`);
+      continue;
+    }
+    const placed = pins.map((p) => placePin(at, mirror, p));
+    const prefix = /^[A-Za-z]+/.exec(ref)?.[0]?.toUpperCase() ?? "";
+
+    let c: SchematicComponent;
+    let theirs = placed;
+    if (lib.power) {
+      const kind = /gnd|vss|earth/i.test(value) ? "ground" : "power";
+      c = anchored(blank(kind, value || (kind === "ground" ? "GND" : "VCC")), placed[0]);
+      if (kind === "power" && /\d/.test(value))
+        c.props = { ...c.props, value: value.replace(/^\+/, "") };
+      theirs = [placed[0]];
+    } else {
+      const kind: ComponentKind | null =
+        pins.length !== 2
+          ? null
+          : prefix === "R"
+            ? "resistor"
+            : prefix === "C"
+              ? "capacitor"
+              : prefix === "D" && /led/i.test(libId)
+                ? "led"
+                : null;
+      if (kind) {
+        const base = blank(kind, kind.toUpperCase());
+        // line the built-in symbol up with the two pins it replaces
+        theirs = base.pins.map((p, i) => {
+          const named = pins.findIndex((k) => k.name.toUpperCase() === p.name);
+          return placed[named >= 0 ? named : i];
+        });
+        const [a, b] = theirs;
+        const rotation =
+          (((Math.round(Math.atan2(b.y - a.y, b.x - a.x) / (Math.PI / 2)) * 90) % 360) + 360) % 360;
+        const x = snap((a.x + b.x) / 2);
+        const y = snap((a.y + b.y) / 2);
+        c = { ...base, ref, rotation, x, y, placement: defaultPlacement(x, y) };
+      } else {
+        const multi = lib.units > 1;
+        const partId = `kicad:${libId}${multi ? `:${unit}` : ""}`;
+        const baseName = libId.split(":").pop() || libId;
+        if (!library.has(partId)) {
+          const box = boxSymbol(pins.map((p) => ({ name: p.name || p.number, type: p.type })));
+          library.set(partId, {
+            id: partId,
+            name: multi ? `${baseName} unit ${String.fromCharCode(64 + unit)}` : baseName,
+            description: `Imported from KiCad (${libId})`,
+            prefix: prefix || "U",
+            footprint: "",
+            props: {},
+            pins: box.pins.map((p, i) => ({ ...p, number: pins[i].number || p.number })),
+            graphics: box.graphics,
+          });
+        }
+        const part = library.get(partId)!;
+        const [x, y] = [snap(sNum(at[1]) / KICAD_MM), snap(sNum(at[2]) / KICAD_MM)];
+        c = {
+          ...blank("part", part.name),
+          ref: prefix ? ref : `${part.prefix}?`,
+          pins: part.pins.map((p) => ({ ...p })),
+          partId,
+          x,
+          y,
+          placement: defaultPlacement(x, y),
+        };
+        report.push(
+          `${ref || libId} (${libId}) imported as a generic ${pins.length}-pin IC` +
+            (multi ? `, unit ${String.fromCharCode(64 + unit)} on its own` : "")
+        );
+      }
+      const footprint = propertyOf(s, "Footprint");
+      c.props = {
+        ...c.props,
+        value: value || c.props.value,
+        footprint: footprint.split(":").pop() || c.props.footprint,
+        manufacturer: propertyOf(s, "Manufacturer") || c.props.manufacturer,
+        mpn: propertyOf(s, "MPN") || c.props.mpn,
+      };
+    }
+    components.push(c);
+    theirs.forEach((p, i) => addAnchor(p, { componentId: c.id, pinId: c.pins[i].id }));
+  }
+
+  const labels: [string, ComponentKind][] = [
+    ["label", "netlabel"],
+    ["global_label", "netlabel"],
+    ["hierarchical_label", "port"],
+  ];
+  const labelPoints: Point[] = [];
+  let globals = 0;
+  for (const [head, kind] of labels) {
+    for (const l of sFindAll(root, head)) {
+      const at = sFind(l, "at") ?? [];
+      const anchor = fromMm(sNum(at[1]), sNum(at[2]));
+      const c = anchored(blank(kind, sText(l[1]), (360 - sNum(at[3])) % 360), anchor);
+      components.push(c);
+      addAnchor(anchor, { componentId: c.id, pinId: c.pins[0].id });
+      labelPoints.push(anchor);
+      if (head === "global_label") globals++;
+    }
+  }
+  if (globals) report.push(`${globals} global label(s) imported as net labels`);
+
+  // Segments, split where a label sits along them so the label's pin meets a
+  // wire end, as pins only connect at wire ends
+  const segments: [Point, Point][] = [];
+  for (const w of sFindAll(root, "wire")) {
+    const xy = sFindAll(sFind(w, "pts") ?? [], "xy").map((p) => fromMm(sNum(p[1]), sNum(p[2])));
+    for (let i = 1; i < xy.length; i++) {
+      const [a, b] = [xy[i - 1], xy[i]];
+      const inside = labelPoints
+        .filter(
+          (p) =>
+            (p.x - a.x) * (b.y - a.y) === (p.y - a.y) * (b.x - a.x) &&
+            (p.x - a.x) * (p.x - b.x) + (p.y - a.y) * (p.y - b.y) < 0
+        )
+        .sort((p, r) => Math.hypot(p.x - a.x, p.y - a.y) - Math.hypot(r.x - a.x, r.y - a.y));
+      const run = [a, ...inside, b];
+      for (let j = 1; j < run.length; j++) segments.push([run[j - 1], run[j]]);
+    }
+  }
+  for (const [a, b] of segments) {
+    const from = anchors.get(pointKey(a))?.[0] ?? null;
+    const to = anchors.get(pointKey(b))?.[0] ?? null;
+    if (from && to && from.componentId === to.componentId && from.pinId === to.pinId) continue;
+    wires.push({ id: nanoid(), from, to, points: [...(from ? [] : [a]), ...(to ? [] : [b])] });
+  }
+  // pins (and labels) touching each other directly, which KiCad connects
+  for (const ends of anchors.values()) {
+    for (let i = 1; i < ends.length; i++)
+      wires.push({ id: nanoid(), from: ends[0], to: ends[i], points: [] });
+  }
+
+  const dropped = new Map<string, number>();
+  const known = new Set([
+    "version",
+    "generator",
+    "generator_version",
+    "uuid",
+    "paper",
+    "title_block",
+    "lib_symbols",
+    "symbol",
+    "wire",
+    "junction",
+    "label",
+    "global_label",
+    "hierarchical_label",
+    "sheet_instances",
+    "symbol_instances",
+    "embedded_fonts",
+  ]);
+  for (const node of root.slice(1)) {
+    const head = sHead(node);
+    if (head === "sheet") {
+      const sheet = node as SExpr[];
+      const file = propertyOf(sheet, "Sheetfile") || propertyOf(sheet, "Sheet file");
+      report.push(
+        `Dropped sheet ${propertyOf(sheet, "Sheetname") || propertyOf(sheet, "Sheet name")} (${file}); import that file on its own`
+      );
+    } else if (!known.has(head)) {
+      dropped.set(head, (dropped.get(head) ?? 0) + 1);
+    }
+  }
+  for (const [head, n] of dropped) report.push(`Dropped ${n} ${head.replace(/_/g, " ")} item(s)`);
+
+  const annotated = annotate(components);
+  const renamed = annotated.filter(
+    (c, i) => /\d$/.test(components[i].ref) && components[i].ref !== c.ref
+  ).length;
+  if (renamed) report.push(`${renamed} designator(s) renumbered`);
+  return {
+    design: { ...emptyDesign(), components: annotated, wires, library: [...library.values()] },
+    report,
+  };
+}
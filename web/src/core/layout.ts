@@ -0,0 +1,114 @@
+import type { BoardSide, Design, Placement, Point } from "./design";
+import { getFootprint, type Pad } from "./footprints";
+import { rotatePoint, snap } from "./geometry";
+import { type Net, pinKey } from "./netlist";
+
+// Placement grid in millimetres
+export const LAYOUT_GRID = 0.5;
+
+// Canvas units per millimetre in layout mode
+export const MM = 10;
+
+// Seed a board position from the schematic position (canvas units)
+export function defaultPlacement(x: number, y: number): Placement {
+  return { x: snap(x / MM, LAYOUT_GRID), y: snap(y / MM, LAYOUT_GRID), rotation: 0, side: "top" };
+}
+
+// Footprint-local point (a pad centre, a body corner) on the board;
+// bottom-side parts are mirrored in X before rotating
+export function padPosition(p: Placement, local: Point): Point {
+  const r = rotatePoint(p.side === "bottom" ? -local.x : local.x, local.y, p.rotation);
+  return { x: p.x + r.x, y: p.y + r.y };
+}
+
+export type PlacedPad = Point & {
+  componentId: string;
+  pinId: string;
+  pad: Pad;
+  side: BoardSide;
+};
+
+// Every pad of every part that has a known footprint, keyed by pinKey
+export function placedPads(design: Design): Map<string, PlacedPad> {
+  const pads = new Map<string, PlacedPad>();
+  for (const c of design.components) {
+    const fp = getFootprint(c.props.footprint);
+    if (!fp) continue;
+    c.pins.forEach((pin, i) => {
+      const pad = fp.pads.find((p) => p.number === (pin.number || String(i + 1)));
+      if (!pad) return;
+      const pos = padPosition(c.placement, pad);
+      pads.set(pinKey(c.id, pin.id), {
+        ...pos,
+        componentId: c.id,
+        pinId: pin.id,
+        pad,
+        side: c.placement.side,
+      });
+    });
+  }
+  return pads;
+}
+
+export type RatsnestLine = { net: string; a: PlacedPad; b: PlacedPad };
+
+// Shortest set of airwires joining the pads of each net (Prim's MST).
+// Pads already joined by copper share a cluster id and need no airwire
+// between them; without cluster info every pad stands alone.
+export function ratsnest(
+  nets: Net[],
+  pads: Map<string, PlacedPad>,
+  clusterOf: (pinKey: string) => string = (k) => k
+): RatsnestLine[] {
+  const lines: RatsnestLine[] = [];
+  for (const n of nets) {
+    const groups = new Map<string, PlacedPad[]>();
+    for (const k of n.pins) {
+      const pad = pads.get(k);
+      if (!pad) continue;
+      const id = clusterOf(k);
+      const group = groups.get(id);
+      if (group) group.push(pad);
+      else groups.set(id, [pad]);
+    }
+    const clusters = Array.from(groups.values());
+    if (clusters.length < 2) continue;
+    // Pad coordinates are copied into flat arrays, cluster c holding
+    // start[c]..start[c + 1]: the biggest nets have thousands of clusters.
+    // best* keep the closest pad pair from the tree to each cluster outside.
+    const count = clusters.length;
+    const members = clusters.flat();
+    const xs = Float64Array.from(members, (p) => p.x);
+    const ys = Float64Array.from(members, (p) => p.y);
+    const start = new Uint32Array(count + 1);
+    clusters.forEach((c, i) => (start[i + 1] = start[i] + c.length));
+    const inTree = new Uint8Array(count);
+    const bestD = new Float64Array(count).fill(Infinity);
+    const bestA = new Uint32Array(count);
+    const bestB = new Uint32Array(count);
+    let next = 0;
+    for (let added = 1; added < count; added++) {
+      inTree[next] = 1;
+      for (let i = 0; i < count; i++) {
+        if (inTree[i]) continue;
+        for (let p = start[next]; p < start[next + 1]; p++) {
+          for (let q = start[i]; q < start[i + 1]; q++) {
+            // squared distance orders the same and skips the square root
+            const d = (xs[p] - xs[q]) ** 2 + (ys[p] - ys[q]) ** 2;
+            if (d < bestD[i]) {
+              bestD[i] = d;
+              bestA[i] = p;
+              bestB[i] = q;
+            }
+          }
+        }
+      }
+      next = -1;
+      for (let i = 0; i < count; i++) {
+        if (!inTree[i] && (next < 0 || bestD[i] < bestD[next])) next = i;
+      }
+      lines.push({ net: n.name, a: members[bestA[next]], b: members[bestB[next]] });
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,418 @@
+import { nanoid } from "nanoid";
+import type {
+  ComponentProps,
+  Design,
+  LibraryPart,
+  Pin,
+  PinType,
+  SchematicComponent,
+  SymbolGraphic,
+} from "./design";
+import { annotate } from "./parts";
+
+// Part libraries. A library is a list of LibraryPart definitions; the
+// built-in one ships with the app, the user's own lives in the browser and
+// moves between machines as a JSON file. Placing a part embeds its
+// definition in design.library and instances follow that copy.
+
+export const PIN_TYPES: { id: PinType; label: string }[] = [
+  { id: "input", label: "Input" },
+  { id: "output", label: "Output" },
+  { id: "bidirectional", label: "Bidirectional" },
+  { id: "passive", label: "Passive" },
+  { id: "power-in", label: "Power input" },
+  { id: "power-out", label: "Power output" },
+  { id: "open-collector", label: "Open collector" },
+  { id: "no-connect", label: "Not connected" },
+];
+
+// Distance between pins on generated symbols, in canvas units
+export const SYMBOL_PIN_PITCH = 20;
+const PIN_LENGTH = 20;
+
+type PinSpec = { name: string; type: PinType };
+
+// IC-style symbol: a box with pins down the left side and up the right side,
+// numbered counter-clockwise like the package
+export function boxSymbol(specs: PinSpec[]): Pick<LibraryPart, "pins" | "graphics"> {
+  const left = Math.ceil(specs.length / 2);
+  const right = specs.length - left;
+  const rows = Math.max(left, right, 1);
+  const h = (rows + 1) * SYMBOL_PIN_PITCH;
+  const w = 60;
+  const top = -Math.floor(rows / 2) * SYMBOL_PIN_PITCH;
+  const pins = specs.map((s, i): Pin => {
+    const onLeft = i < left;
+    const row = onLeft ? i : specs.length - 1 - i;
+    return {
+      id: `p${i + 1}`,
+      number: String(i + 1),
+      name: s.name,
+      type: s.type,
+      x: onLeft ? -w / 2 - PIN_LENGTH : w / 2 + PIN_LENGTH,
+      y: top + row * SYMBOL_PIN_PITCH,
+    };
+  });
+  const y0 = top - SYMBOL_PIN_PITCH;
+  const graphics: SymbolGraphic[] = [
+    { type: "rect", x: -w / 2, y: y0, w, h, fill: true },
+    ...pinStubs(pins, w / 2),
+  ];
+  return { pins, graphics };
+}
+
+// Horizontal leads from each pin to a body edge at x = ±edge
+function pinStubs(pins: Pin[], edge: number): SymbolGraphic[] {
+  return pins.map((p) => ({
+    type: "polyline",
+    points: [
+      { x: p.x, y: p.y },
+      { x: Math.sign(p.x) * edge, y: p.y },
+    ],
+    fill: false,
+  }));
+}
+
+const line = (...coords: number[]): SymbolGraphic => ({
+  type: "polyline",
+  points: Array.from({ length: coords.length / 2 }, (_, i) => ({
+    x: coords[i * 2],
+    y: coords[i * 2 + 1],
+  })),
+  fill: false,
+});
+
+const pin = (id: string, name: string, type: PinType, x: number, y: number): Pin => ({
+  id,
+  number: id,
+  name,
+  type,
+  x,
+  y,
+});
+
+const genericIc = (count: number, footprint: string): LibraryPart => ({
+  id: `builtin:ic-${count}`,
+  name: `IC ${count}-pin`,
+  description: `Generic ${count}-pin IC`,
+  prefix: "U",
+  footprint,
+  props: {},
+  ...boxSymbol(
+    Array.from({ length: count }, (_, i) => ({ name: String(i + 1), type: "bidirectional" }))
+  ),
+});
+
+const connector = (count: number): LibraryPart => {
+  const pins = Array.from({ length: count }, (_, i) =>
+    pin(String(i + 1), String(i + 1), "passive", -30, (i - Math.floor((count - 1) / 2)) * 20)
+  );
+  const top = pins[0].y - 10;
+  return {
+    id: `builtin:conn-1x${count}`,
+    name: `Conn 1x${count}`,
+    description: `Pin header, 1 row, ${count} pins, 2.54 mm pitch`,
+    prefix: "J",
+    footprint: `PinHeader_1x0${count}_P2.54mm`,
+    props: {},
+    pins,
+    graphics: [
+      { type: "rect", x: -10, y: top, w: 20, h: count * 20, fill: true },
+      ...pinStubs(pins, 10),
+    ],
+  };
+};
+
+export const BUILTIN_LIBRARY: LibraryPart[] = [
+  {
+    id: "builtin:opamp",
+    name: "Op-amp",
+    description: "Single operational amplifier, e.g. LMV321",
+    prefix: "U",
+    footprint: "SOT-23-5",
+    props: { value: "LMV321" },
+    pins: [
+      pin("1", "OUT", "output", 40, 0),
+      pin("2", "V-", "power-in", 0, 30),
+      pin("3", "+", "input", -40, 10),
+      pin("4", "-", "input", -40, -10),
+      pin("5", "V+", "power-in", 0, -30),
+    ],
+    graphics: [
+      { type: "polyline", points: [{ x: -20, y: -20 }, { x: 20, y: 0 }, { x: -20, y: 20 }], fill: true },
+      line(-40, 10, -20, 10),
+      line(-40, -10, -20, -10),
+      line(20, 0, 40, 0),
+      line(0, -30, 0, -10),
+      line(0, 30, 0, 10),
+      { type: "text", x: -16, y: 13, text: "+", size: 8 },
+      { type: "text", x: -16, y: -7, text: "−", size: 8 },
+    ],
+  },
+  {
+    id: "builtin:npn",
+    name: "NPN transistor",
+    description: "NPN bipolar transistor, e.g. MMBT3904",
+    prefix: "Q",
+    footprint: "SOT-23",
+    props: { value: "MMBT3904" },
+    pins: [pin("1", "B", "input", -30, 0), pin("2", "E", "passive", 10, 30), pin("3", "C", "passive", 10, -30)],
+    graphics: [
+      { type: "circle", x: 2, y: 0, r: 16, fill: false },
+      line(-30, 0, -6, 0),
+      line(-6, -10, -6, 10),
+      line(-6, -4, 10, -14, 10, -30),
+      line(-6, 4, 10, 14, 10, 30),
+      { type: "polyline", points: [{ x: 10, y: 14 }, { x: 3, y: 13 }, { x: 6, y: 7 }], fill: true },
+    ],
+  },
+  {
+    id: "builtin:nmos",
+    name: "N-MOSFET",
+    description: "N-channel enhancement MOSFET, e.g. 2N7002",
+    prefix: "Q",
+    footprint: "SOT-23",
+    props: { value: "2N7002" },
+    pins: [pin("1", "G", "input", -30, 0), pin("2", "S", "passive", 10, 30), pin("3", "D", "passive", 10, -30)],
+    graphics: [
+      { type: "circle", x: 2, y: 0, r: 16, fill: false },
+      line(-30, 0, -8, 0),
+      line(-8, -10, -8, 10),
+      line(-4, -12, -4, -6),
+      line(-4, -3, -4, 3),
+      line(-4, 6, -4, 12),
+      line(-4, -9, 10, -9, 10, -30),
+      line(-4, 9, 10, 9, 10, 30),
+      line(-4, 0, 10, 0, 10, 9),
+    ],
+  },
+  connector(2),
+  connector(3),
+  connector(4),
+  genericIc(8, "SOIC-8"),
+  genericIc(14, "SOIC-14"),
+  genericIc(16, "SOIC-16"),
+];
+
+// Extent of a part's drawing and pins, for placing its texts and outline
+export function symbolBounds(part: Pick<LibraryPart, "pins" | "graphics">) {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const add = (x: number, y: number) => {
+    xs.push(x);
+    ys.push(y);
+  };
+  for (const p of part.pins) add(p.x, p.y);
+  for (const g of part.graphics) {
+    if (g.type === "rect") {
+      add(g.x, g.y);
+      add(g.x + g.w, g.y + g.h);
+    } else if (g.type === "circle") {
+      add(g.x - g.r, g.y - g.r);
+      add(g.x + g.r, g.y + g.r);
+    } else if (g.type === "polyline") {
+      for (const p of g.points) add(p.x, p.y);
+    } else {
+      add(g.x, g.y - g.size);
+      add(g.x + g.text.length * g.size * 0.6, g.y);
+    }
+  }
+  if (xs.length === 0) return { x: -20, y: -20, w: 40, h: 40 };
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+// A blank part for the symbol editor
+export function newLibraryPart(): LibraryPart {
+  return {
+    id: nanoid(),
+    name: "New part",
+    description: "",
+    prefix: "U",
+    footprint: "",
+    props: {},
+    ...boxSymbol([
+      { name: "IN", type: "input" },
+      { name: "OUT", type: "output" },
+    ]),
+  };
+}
+
+// Problems that would stop a part from placing and annotating cleanly
+export function partProblems(part: LibraryPart): string[] {
+  const problems: string[] = [];
+  if (!part.name.trim()) problems.push("Name is empty");
+  if (!/^[A-Za-z]+$/.test(part.prefix)) problems.push("Prefix must be letters only, e.g. U or Q");
+  if (part.pins.length === 0) problems.push("Part has no pins");
+  const numbers = new Set<string>();
+  for (const p of part.pins) {
+    const n = p.number ?? "";
+    if (!n) problems.push(`Pin ${p.name || "?"} has no number`);
+    else if (numbers.has(n)) problems.push(`Pin number ${n} is used twice`);
+    numbers.add(n);
+  }
+  return problems;
+}
+
+// Case-insensitive match on name, description and value
+export function searchParts(parts: LibraryPart[], query: string) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return parts.filter((p) => {
+    const text = `${p.name} ${p.description} ${p.props.value ?? ""} ${p.footprint}`.toLowerCase();
+    return words.every((w) => text.includes(w));
+  });
+}
+
+// New component for a library part, pins copied from the definition
+export function partInstance(part: LibraryPart): Pick<
+  SchematicComponent,
+  "kind" | "label" | "ref" | "props" | "pins" | "partId"
+> {
+  const blank: ComponentProps = { value: "", tolerance: "", footprint: "", mpn: "", manufacturer: "" };
+  return {
+    kind: "part",
+    label: part.name,
+    ref: `${part.prefix}?`,
+    props: { ...blank, ...part.props, footprint: part.footprint },
+    pins: part.pins.map((p) => ({ ...p })),
+    partId: part.id,
+  };
+}
+
+// Put (or replace) a part definition in the design's embedded library
+export function embedPart(design: Design, part: LibraryPart): Design {
+  const current = design.library.find((p) => p.id === part.id);
+  if (current && JSON.stringify(current) === JSON.stringify(part)) return design;
+  return {
+    ...design,
+    library: current
+      ? design.library.map((p) => (p.id === part.id ? part : p))
+      : [...design.library, part],
+  };
+}
+
+const samePins = (a: Pin[], b: Pin[]) => JSON.stringify(a) === JSON.stringify(b);
+
+// Bring placed parts in line with their definitions: pins mirror the part's
+// pins and a changed designator prefix re-annotates. Returns the same object
+// when nothing changed.
+export function syncLibraryParts(design: Design): Design {
+  const parts = new Map(design.library.map((p) => [p.id, p]));
+  if (parts.size === 0) return design;
+  const sync = (components: SchematicComponent[]) => {
+    let changed = false;
+    const next = components.map((c) => {
+      const part = c.kind === "part" && c.partId ? parts.get(c.partId) : undefined;
+      if (!part) return c;
+      const prefix = /^[A-Za-z]+/.exec(c.ref)?.[0];
+      const pins = samePins(c.pins, part.pins) ? c.pins : part.pins.map((p) => ({ ...p }));
+      const ref = prefix === part.prefix ? c.ref : `${part.prefix}?`;
+      if (pins === c.pins && ref === c.ref) return c;
+      changed = true;
+      return { ...c, pins, ref };
+    });
+    return changed ? annotate(next) : components;
+  };
+  const components = sync(design.components);
+  let sheetsChanged = false;
+  const sheets = design.sheets.map((s) => {
+    const next = sync(s.components);
+    if (next === s.components) return s;
+    sheetsChanged = true;
+    return { ...s, components: next };
+  });
+  if (components === design.components && !sheetsChanged) return design;
+  return { ...design, components, sheets: sheetsChanged ? sheets : design.sheets };
+}
+
+export const LIBRARY_FORMAT = "fluxlite-library";
+
+export function serializeLibrary(name: string, parts: LibraryPart[]) {
+  return JSON.stringify({ format: LIBRARY_FORMAT, version: 1, name, parts }, null, 2);
+}
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isStr = (v: unknown): v is string => typeof v === "string";
+
+function checkGraphic(g: unknown): g is SymbolGraphic {
+  if (!g || typeof g !== "object") return false;
+  const o = g as Record<string, unknown>;
+  switch (o.type) {
+    case "rect":
+      return isNum(o.x) && isNum(o.y) && isNum(o.w) && isNum(o.h);
+    case "circle":
+      return isNum(o.x) && isNum(o.y) && isNum(o.r);
+    case "polyline":
+      return (
+        Array.isArray(o.points) &&
+        o.points.every((p) => p && isNum((p as Pin).x) && isNum((p as Pin).y))
+      );
+    case "text":
+      return isNum(o.x) && isNum(o.y) && isStr(o.text) && isNum(o.size);
+    default:
+      return false;
+  }
+}
+
+// Read a library file. Parts that fail validation are left out and
+// reported; the rest load.
+export function parseLibrary(text: string): { name: string; parts: LibraryPart[]; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { name: "", parts: [], errors: ["Not a JSON file"] };
+  }
+  const root = data as Record<string, unknown>;
+  if (!root || root.format !== LIBRARY_FORMAT || !Array.isArray(root.parts)) {
+    return { name: "", parts: [], errors: ["Not a FluxLite library file"] };
+  }
+  const types = new Set(PIN_TYPES.map((t) => t.id));
+  const parts: LibraryPart[] = [];
+  const errors: string[] = [];
+  root.parts.forEach((raw: unknown, i) => {
+    const o = (raw ?? {}) as Record<string, unknown>;
+    const label = isStr(o.name) && o.name ? o.name : `part ${i + 1}`;
+    const pins = Array.isArray(o.pins) ? o.pins : null;
+    const graphics = Array.isArray(o.graphics) ? o.graphics : null;
+    if (!isStr(o.id) || !isStr(o.name) || !isStr(o.prefix) || !pins || !graphics) {
+      errors.push(`${label}: missing id, name, prefix, pins or graphics`);
+      return;
+    }
+    const badPin = pins.find((p: Record<string, unknown>) => {
+      return (
+        !p ||
+        !isStr(p.id) ||
+        !isStr(p.name) ||
+        !isNum(p.x) ||
+        !isNum(p.y) ||
+        (p.type !== undefined && !types.has(p.type as PinType))
+      );
+    });
+    if (badPin !== undefined) {
+      errors.push(`${label}: invalid pin`);
+      return;
+    }
+    if (!graphics.every(checkGraphic)) {
+      errors.push(`${label}: invalid graphic`);
+      return;
+    }
+    const part: LibraryPart = {
+      id: o.id,
+      name: o.name,
+      description: isStr(o.description) ? o.description : "",
+      prefix: o.prefix,
+      footprint: isStr(o.footprint) ? o.footprint : "",
+      props: o.props && typeof o.props === "object" ? (o.props as Partial<ComponentProps>) : {},
+      pins: pins as Pin[],
+      graphics: (graphics as SymbolGraphic[]).map((g) =>
+        g.type === "text" ? g : { ...g, fill: !!g.fill }
+      ),
+    };
+    const problems = partProblems(part);
+    if (problems.length) errors.push(`${label}: ${problems[0]}`);
+    else parts.push(part);
+  });
+  return { name: isStr(root.name) ? root.name : "", parts, errors };
+}
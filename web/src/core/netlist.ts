@@ -0,0 +1,55 @@
+import type { Design } from "./design";
+import { analyzeWires, type WireAnalysis } from "./wires";
+
+export type Net = {
+  name: string;
+  // pin keys, see pinKey()
+  pins: string[];
+};
+
+export function pinKey(componentId: string, pinId: string) {
+  return `${componentId}:${pinId}`;
+}
+
+// Nets are groups of pins connected by wires. Wires touching each other
+// (shared vertices, T-junctions) form one net; `links` adds extra pin-to-pin
+// connections that have no wire, such as sheet symbol pins to their ports.
+// Callers that already analyzed the wiring pass it in as `analysis`.
+export function buildNetlist(
+  content: Pick<Design, "components" | "wires">,
+  links: [string, string][] = [],
+  analysis: WireAnalysis = analyzeWires(content)
+): Net[] {
+  const parent = new Map<string, string>();
+  const find = (k: string): string => {
+    const p = parent.get(k);
+    if (p === undefined) {
+      parent.set(k, k);
+      return k;
+    }
+    if (p === k) return k;
+    const root = find(p);
+    parent.set(k, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(rb, ra);
+  };
+
+  const key = (item: { wire: string } | { pin: { componentId: string; pinId: string } }) =>
+    "wire" in item ? `wire:${item.wire}` : pinKey(item.pin.componentId, item.pin.pinId);
+  for (const [a, b] of analysis.links) union(key(a), key(b));
+  for (const [a, b] of links) union(a, b);
+
+  const groups = new Map<string, string[]>();
+  for (const k of parent.keys()) {
+    if (k.startsWith("wire:")) continue;
+    const root = find(k);
+    const group = groups.get(root);
+    if (group) group.push(k);
+    else groups.set(root, [k]);
+  }
+  return Array.from(groups.values()).map((g, i) => ({ name: `N${i + 1}`, pins: g }));
+}
@@ -0,0 +1,68 @@
+// Loading design files:
+//
+//   npx tsx --test src/core/normalize.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { emptyDesign } from "./design";
+import { placeComponent } from "./edit";
+import { loadDesign } from "./normalize";
+import { DesignFormatError, formatIssue } from "./validate";
+
+const issues = (run: () => unknown) => {
+  try {
+    run();
+  } catch (err) {
+    assert.ok(err instanceof DesignFormatError);
+    return err.issues.map(formatIssue);
+  }
+  assert.fail("expected the file to be refused");
+};
+
+test("duplicate component, pin and wire ids are refused", () => {
+  let d = placeComponent(emptyDesign(), null, "resistor", { x: 0, y: 0 });
+  d = placeComponent(d, null, "resistor", { x: 100, y: 0 });
+  const [a, b] = d.components;
+  const wire = { id: "w1", from: null, to: null, points: [] };
+  assert.deepEqual(
+    issues(() =>
+      loadDesign({
+        ...d,
+        components: [a, { ...b, id: a.id, pins: [b.pins[0], { ...b.pins[1], id: b.pins[0].id }] }],
+        wires: [wire, wire],
+      })
+    ),
+    [
+      `components[1].id: component id "${a.id}" is already used by components[0]`,
+      `components[1].pins[1].id: pin id "${b.pins[0].id}" is already used by components[1].pins[0]`,
+      `wires[1].id: wire id "w1" is already used by wires[0]`,
+    ]
+  );
+  // ids only need to be unique within their sheet
+  const sheet = { id: "s1", name: "Child", components: [a], wires: [wire], annotations: [] };
+  assert.doesNotThrow(() => loadDesign({ ...d, wires: [wire], sheets: [sheet] }));
+});
+
+test("half-drawn wires of unversioned files are dropped and reported", () => {
+  const d = placeComponent(emptyDesign(), null, "resistor", { x: 0, y: 0 });
+  const [r] = d.components;
+  const end = { componentId: r.id, pinId: r.pins[0].id };
+  // no version, library, board or annotations: as saved before versioning
+  const { design, repairs } = loadDesign({
+    components: d.components,
+    wires: [
+      { id: "w1", from: end, to: { componentId: r.id, pinId: r.pins[1].id } },
+      { id: "w2", from: end, to: null },
+    ],
+    sheets: [{ id: "s1", name: "Child", components: [], wires: [{ id: "w3", from: null }] }],
+  });
+  assert.deepEqual(
+    design.wires.map((w) => w.id),
+    ["w1"]
+  );
+  assert.deepEqual(design.sheets[0].wires, []);
+  assert.deepEqual(repairs.map(formatIssue), [
+    "wires[1]: wire left half-drawn by an older version",
+    "sheets[0].wires[0]: wire left half-drawn by an older version",
+  ]);
+});
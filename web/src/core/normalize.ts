@@ -0,0 +1,156 @@
+import {
+  type ComponentKind,
+  type Design,
+  DESIGN_VERSION,
+  emptyBoard,
+  type SchematicComponent,
+} from "./design";
+import { syncSheetSymbols } from "./hierarchy";
+import { defaultPlacement } from "./layout";
+import { syncLibraryParts } from "./library";
+import { annotate, defaultProps, KIND_FIELDS } from "./parts";
+import {
+  danglingReferences,
+  type DesignIssue,
+  DesignFormatError,
+  isObject,
+  repairReferences,
+  validateDesign,
+} from "./validate";
+
+// Loading saved designs: migrate the file up to DESIGN_VERSION, validate it,
+// optionally repair dangling references, then bring derived state
+// (designators, sheet symbol and library part pins) up to date.
+
+type Raw = Record<string, unknown>;
+
+const mapObjects = (v: unknown, f: (item: Raw, index: number) => unknown) =>
+  Array.isArray(v) ? v.map((item, i) => (isObject(item) ? f(item, i) : item)) : v;
+
+// Files from before the format was versioned: designators and props, board
+// placement, board outline and copper, sheets, polyline wires and the
+// embedded part library all came in along the way.
+function fromUnversioned(d: Raw, repairs: DesignIssue[]): Raw {
+  const component = (c: Raw) => ({
+    ...c,
+    ref: c.ref ?? "",
+    props: {
+      ...(typeof c.kind === "string" && c.kind in KIND_FIELDS
+        ? defaultProps(c.kind as ComponentKind)
+        : {}),
+      ...(isObject(c.props) ? c.props : {}),
+    },
+    placement:
+      c.placement ??
+      (typeof c.x === "number" && typeof c.y === "number" ? defaultPlacement(c.x, c.y) : undefined),
+  });
+  // straight pin-to-pin wires gain their (empty) vertex list; wires left
+  // half-drawn by older versions are dropped and reported
+  const wires = (v: unknown, path: string) =>
+    Array.isArray(v)
+      ? v
+          .filter((w, i) => {
+            if (!isObject(w) || w.points || (w.from && w.to)) return true;
+            repairs.push({
+              path: `${path}wires[${i}]`,
+              reason: "wire left half-drawn by an older version",
+              repairable: true,
+            });
+            return false;
+          })
+          .map((w) => (isObject(w) && !w.points ? { ...w, points: [] } : w))
+      : v;
+  const content = (s: Raw, path: string) => ({
+    ...s,
+    components: mapObjects(s.components, component),
+    wires: wires(s.wires, path),
+  });
+  return {
+    ...content(d, ""),
+    sheets: mapObjects(d.sheets ?? [], (s, i) => content(s, `sheets[${i}].`)),
+    library: d.library ?? [],
+    board: isObject(d.board) ? { ...emptyBoard(), ...d.board } : (d.board ?? emptyBoard()),
+  };
+}
+
+// Version 2 added annotations to every sheet
+function withAnnotations(d: Raw): Raw {
+  const content = (s: Raw) => ({ ...s, annotations: s.annotations ?? [] });
+  return { ...content(d), sheets: mapObjects(d.sheets, content) };
+}
+
+// Each step upgrades a file from the version before `to`, noting anything
+// it had to drop in `repairs`
+const MIGRATIONS: { to: number; migrate: (d: Raw, repairs: DesignIssue[]) => Raw }[] = [
+  { to: 1, migrate: fromUnversioned },
+  { to: 2, migrate: withAnnotations },
+];
+
+export function migrateDesign(data: Raw, repairs: DesignIssue[] = []): Raw {
+  const version = typeof data.version === "number" ? data.version : 0;
+  if (version > DESIGN_VERSION) {
+    throw new DesignFormatError([
+      {
+        path: "version",
+        reason: `file format ${version} is newer than this app reads (${DESIGN_VERSION})`,
+      },
+    ]);
+  }
+  return MIGRATIONS.filter((m) => m.to > version).reduce(
+    (d, m) => ({ ...m.migrate(d, repairs), version: m.to }),
+    data
+  );
+}
+
+const upgradeComponents = (components: SchematicComponent[]) =>
+  annotate(components).map((c) =>
+    c.placement ? c : { ...c, placement: defaultPlacement(c.x, c.y) }
+  );
+
+// Bring a current-format design's derived state up to date: designators,
+// sheet symbol pins, library part pins
+export function normalizeDesign(d: Design): Design {
+  const design: Design = {
+    ...d,
+    components: upgradeComponents(d.components),
+    sheets: d.sheets.map((s) => ({ ...s, components: upgradeComponents(s.components) })),
+  };
+  return syncSheetSymbols(syncLibraryParts(design));
+}
+
+export type LoadOptions = {
+  // drop wires and sheet symbols whose references point nowhere instead of
+  // refusing the file
+  repair?: boolean;
+};
+
+// Throws DesignFormatError with every problem found. `repairs` lists what
+// was dropped: half-drawn wires from old files always, dangling references
+// in repair mode.
+export function loadDesign(
+  data: unknown,
+  options: LoadOptions = {}
+): { design: Design; repairs: DesignIssue[] } {
+  if (!isObject(data)) {
+    throw new DesignFormatError([{ path: "", reason: "expected a design object" }]);
+  }
+  const migrationRepairs: DesignIssue[] = [];
+  const migrated = migrateDesign(data, migrationRepairs);
+  const issues = validateDesign(migrated);
+  if (issues.length) throw new DesignFormatError(issues);
+  const design = normalizeDesign(migrated as Design);
+  const dangling = danglingReferences(design);
+  if (dangling.length === 0) return { design, repairs: migrationRepairs };
+  if (!options.repair) throw new DesignFormatError(dangling);
+  return { design: repairReferences(design), repairs: [...migrationRepairs, ...dangling] };
+}
+
+export function parseDesign(text: string, options: LoadOptions = {}) {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new DesignFormatError([{ path: "", reason: "not a JSON file" }]);
+  }
+  return loadDesign(data, options);
+}
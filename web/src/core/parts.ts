@@ -0,0 +1,178 @@
+import { nanoid } from "nanoid";
+import type { ComponentKind, ComponentProps, Pin, SchematicComponent } from "./design";
+
+// Which properties are meaningful for each kind, in display order
+export const KIND_FIELDS: Record<ComponentKind, (keyof ComponentProps)[]> = {
+  resistor: ["value", "tolerance", "footprint", "manufacturer", "mpn"],
+  capacitor: ["value", "tolerance", "footprint", "manufacturer", "mpn"],
+  led: ["value", "footprint", "manufacturer", "mpn"],
+  ic: ["value", "footprint", "manufacturer", "mpn"],
+  power: ["value"],
+  ground: [],
+  netlabel: [],
+  port: [],
+  sheet: [],
+  part: ["value", "footprint", "manufacturer", "mpn"],
+};
+
+export const FIELD_LABELS: Record<keyof ComponentProps, string> = {
+  value: "Value",
+  tolerance: "Tolerance",
+  footprint: "Footprint",
+  mpn: "MPN",
+  manufacturer: "Manufacturer",
+};
+
+// Designator prefix per kind; power symbols, labels, ports and sheet symbols
+// are virtual and never annotated. Library parts carry their own prefix in
+// the ref ("Q?" until annotated), see refPrefix().
+const REF_PREFIX: Record<ComponentKind, string | null> = {
+  resistor: "R",
+  capacitor: "C",
+  led: "D",
+  ic: "U",
+  power: null,
+  ground: null,
+  netlabel: null,
+  port: null,
+  sheet: null,
+  part: "U",
+};
+
+function refPrefix(c: SchematicComponent) {
+  if (c.kind !== "part") return REF_PREFIX[c.kind];
+  return /^[A-Za-z]+/.exec(c.ref)?.[0] ?? REF_PREFIX.part;
+}
+
+export function defaultProps(kind: ComponentKind): ComponentProps {
+  const blank = { value: "", tolerance: "", footprint: "", mpn: "", manufacturer: "" };
+  switch (kind) {
+    case "resistor":
+      return { ...blank, value: "10k", tolerance: "1%", footprint: "R_0805" };
+    case "capacitor":
+      return { ...blank, value: "100n", tolerance: "10%", footprint: "C_0805" };
+    case "led":
+      return { ...blank, value: "RED", footprint: "LED_0805" };
+    case "ic":
+      return { ...blank, footprint: "SOT-23-6" };
+    case "power":
+      return { ...blank, value: "5V" };
+    case "ground":
+    case "netlabel":
+    case "port":
+    case "sheet":
+    case "part":
+      return blank;
+  }
+}
+
+// Pins of a freshly placed component, relative to its origin
+export function defaultPins(kind: ComponentKind): Pin[] {
+  switch (kind) {
+    case "resistor":
+      return [
+        { id: nanoid(), name: "1", x: -20, y: 0 },
+        { id: nanoid(), name: "2", x: 20, y: 0 },
+      ];
+    case "capacitor":
+      return [
+        { id: nanoid(), name: "+", x: -20, y: 0 },
+        { id: nanoid(), name: "-", x: 20, y: 0 },
+      ];
+    case "led":
+      return [
+        { id: nanoid(), name: "A", x: -20, y: 0 },
+        { id: nanoid(), name: "K", x: 20, y: 0 },
+      ];
+    case "power":
+      return [{ id: nanoid(), name: "+V", x: 0, y: -20 }];
+    case "ground":
+      return [{ id: nanoid(), name: "GND", x: 0, y: 20 }];
+    case "netlabel":
+      return [{ id: nanoid(), name: "", x: -20, y: 0 }];
+    case "port":
+      return [{ id: nanoid(), name: "", x: -30, y: 0 }];
+    case "sheet":
+    case "part":
+      // filled in from the child sheet's ports or the library part
+      return [];
+    case "ic":
+      return [
+        { id: nanoid(), name: "1", x: -30, y: -20 },
+        { id: nanoid(), name: "2", x: -30, y: 0 },
+        { id: nanoid(), name: "3", x: -30, y: 20 },
+        { id: nanoid(), name: "4", x: 30, y: -20 },
+        { id: nanoid(), name: "5", x: 30, y: 0 },
+        { id: nanoid(), name: "6", x: 30, y: 20 },
+      ];
+  }
+}
+
+export function isBomPart(c: SchematicComponent) {
+  return REF_PREFIX[c.kind] !== null;
+}
+
+// Assign reference designators R1..Rn, C1..Cn etc. in placement order and fill
+// in props missing from older designs. Unchanged components keep identity.
+export function annotate(components: SchematicComponent[]): SchematicComponent[] {
+  const counters = new Map<string, number>();
+  return components.map((c) => {
+    const prefix = refPrefix(c);
+    let ref = "";
+    if (prefix) {
+      const n = (counters.get(prefix) || 0) + 1;
+      counters.set(prefix, n);
+      ref = `${prefix}${n}`;
+    }
+    if (c.ref === ref && c.props) return c;
+    return { ...c, ref, props: { ...defaultProps(c.kind), ...c.props } };
+  });
+}
+
+export type BomLine = {
+  kind: ComponentKind;
+  refs: string[];
+  qty: number;
+} & ComponentProps;
+
+function compareRefs(a: string, b: string) {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+// Group parts by value + footprint + MPN so a 10k and a 220R are separate lines
+export function buildBom(components: SchematicComponent[]): BomLine[] {
+  const lines = new Map<string, BomLine>();
+  for (const c of components) {
+    if (!isBomPart(c)) continue;
+    const key = [c.kind, c.props.value, c.props.footprint, c.props.mpn].join("\u0000");
+    const line = lines.get(key);
+    if (line) {
+      line.refs.push(c.ref);
+      line.qty++;
+    } else {
+      lines.set(key, { kind: c.kind, ...c.props, refs: [c.ref], qty: 1 });
+    }
+  }
+  const result = Array.from(lines.values());
+  for (const l of result) l.refs.sort(compareRefs);
+  return result.sort((a, b) => compareRefs(a.refs[0], b.refs[0]));
+}
+
+export function csvCell(v: string | number) {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function bomToCsv(lines: BomLine[]): string {
+  const header = ["Designators", "Qty", "Value", "Tolerance", "Footprint", "Manufacturer", "MPN"];
+  const rows = lines.map((l) => [
+    l.refs.join(" "),
+    l.qty,
+    l.value,
+    l.tolerance,
+    l.footprint,
+    l.manufacturer,
+    l.mpn,
+  ]);
+  return [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
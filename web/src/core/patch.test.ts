@@ -0,0 +1,43 @@
+// Scripted design edits:
+//
+//   npx tsx --test src/core/patch.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { type Design, emptyDesign, type Track } from "./design";
+import { placeComponent } from "./edit";
+import { applyPatch } from "./patch";
+
+test("rename-net carries root and sheet instance nets over on the board", () => {
+  const d = placeComponent(emptyDesign(), null, "netlabel", { x: 0, y: 0 });
+  const track = (id: string, net: string): Track => ({
+    id,
+    net,
+    layer: "top",
+    width: 0.25,
+    points: [],
+  });
+  const design: Design = {
+    ...d,
+    components: d.components.map((c) => ({ ...c, label: "VOUT" })),
+    board: {
+      ...d.board,
+      tracks: [
+        track("t1", "VOUT"),
+        track("t2", "/CH1/VOUT"),
+        track("t3", "/CH1/VOUT2"),
+        track("t4", "Net-(R1-VOUT)"),
+      ],
+      vias: [{ id: "v1", net: "/CH1/CH2/VOUT", x: 0, y: 0, diameter: 0.8, drill: 0.4 }],
+      netWidths: { "/CH1/VOUT": 0.5 },
+    },
+  };
+  const { components, board } = applyPatch(design, [{ op: "rename-net", from: "VOUT", to: "VIN" }]);
+  assert.equal(components[0].label, "VIN");
+  assert.deepEqual(
+    board.tracks.map((t) => t.net),
+    ["VIN", "/CH1/VIN", "/CH1/VOUT2", "Net-(R1-VOUT)"]
+  );
+  assert.equal(board.vias[0].net, "/CH1/CH2/VIN");
+  assert.deepEqual(board.netWidths, { "/CH1/VIN": 0.5 });
+});
@@ -0,0 +1,123 @@
+import type { ComponentProps, Design, SchematicComponent } from "./design";
+import { isObject } from "./validate";
+
+// Scripted edits read from a JSON file, applied in order:
+//
+//   [
+//     { "op": "set", "component": "R1", "field": "value", "value": "10k" },
+//     { "op": "rename-net", "from": "NET1", "to": "VIN" }
+//   ]
+//
+// "set" finds components by designator, or by label when no designator
+// matches, on every sheet. "rename-net" relabels the power symbols, net
+// labels and ports that name the net, and carries the board's per-net track
+// widths, tracks and vias over to the new name, including the nets of sheet
+// instances ("/CH1/NET1" becomes "/CH1/VIN").
+
+export type PatchField = keyof ComponentProps | "label";
+
+export type PatchOp =
+  | { op: "set"; component: string; field: PatchField; value: string }
+  | { op: "rename-net"; from: string; to: string };
+
+export class PatchError extends Error {}
+
+const FIELDS: PatchField[] = ["value", "tolerance", "footprint", "mpn", "manufacturer", "label"];
+
+const NAMING_KINDS = new Set<SchematicComponent["kind"]>(["power", "ground", "netlabel", "port"]);
+
+// Check the shape of a parsed patch file
+export function parsePatch(data: unknown): PatchOp[] {
+  if (!Array.isArray(data)) throw new PatchError("patch: expected a list of edits");
+  return data.map((op, i): PatchOp => {
+    const at = `patch[${i}]`;
+    if (!isObject(op)) throw new PatchError(`${at}: expected an object`);
+    const text = (key: string) => {
+      const v = op[key];
+      if (typeof v !== "string" || (key !== "value" && !v)) {
+        throw new PatchError(
+          `${at}.${key}: expected ${key === "value" ? "a" : "a non-empty"} string`
+        );
+      }
+      return v;
+    };
+    if (op.op === "set") {
+      const field = text("field") as PatchField;
+      if (!FIELDS.includes(field)) {
+        throw new PatchError(`${at}.field: expected one of ${FIELDS.join(", ")}`);
+      }
+      return { op: "set", component: text("component"), field, value: text("value") };
+    }
+    if (op.op === "rename-net") return { op: "rename-net", from: text("from"), to: text("to") };
+    throw new PatchError(`${at}.op: expected "set" or "rename-net"`);
+  });
+}
+
+// Apply edits to the root and every sheet's components; throws when an edit
+// matches nothing, so a stale patch does not pass silently
+function editComponents(
+  design: Design,
+  match: (c: SchematicComponent) => boolean,
+  edit: (c: SchematicComponent) => SchematicComponent
+): { design: Design; count: number } {
+  let count = 0;
+  const apply = (components: SchematicComponent[]) =>
+    components.map((c) => {
+      if (!match(c)) return c;
+      count++;
+      return edit(c);
+    });
+  const next = {
+    ...design,
+    components: apply(design.components),
+    sheets: design.sheets.map((s) => ({ ...s, components: apply(s.components) })),
+  };
+  return { design: next, count };
+}
+
+export function applyPatch(design: Design, ops: PatchOp[]): Design {
+  return ops.reduce((d, op, i) => {
+    const at = `patch[${i}]`;
+    if (op.op === "set") {
+      const all = [d, ...d.sheets].flatMap((s) => s.components);
+      const byRef = all.some((c) => c.ref === op.component);
+      const { design: next, count } = editComponents(
+        d,
+        (c) => (byRef ? c.ref === op.component : c.label === op.component),
+        (c) =>
+          op.field === "label"
+            ? { ...c, label: op.value }
+            : { ...c, props: { ...c.props, [op.field]: op.value } }
+      );
+      if (count === 0) throw new PatchError(`${at}: no component ${op.component}`);
+      return next;
+    }
+    const { design: next, count } = editComponents(
+      d,
+      (c) => NAMING_KINDS.has(c.kind) && c.label === op.from,
+      (c) => ({ ...c, label: op.to })
+    );
+    if (count === 0) {
+      throw new PatchError(`${at}: no power symbol, net label or port names ${op.from}`);
+    }
+    // labels and ports inside sheet instances name "<path>NAME" nets
+    const rename = (net: string) =>
+      net === op.from
+        ? op.to
+        : net.startsWith("/") && net.endsWith(`/${op.from}`)
+          ? `${net.slice(0, -op.from.length)}${op.to}`
+          : net;
+    const board = next.board;
+    return {
+      ...next,
+      board: {
+        ...board,
+        tracks: board.tracks.map((t) => ({ ...t, net: rename(t.net) })),
+        vias: board.vias.map((v) => ({ ...v, net: rename(v.net) })),
+        netWidths: Object.fromEntries(
+          Object.entries(board.netWidths).map(([net, w]) => [rename(net), w])
+        ),
+      },
+    };
+  }, design);
+}
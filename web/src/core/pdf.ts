@@ -0,0 +1,182 @@
+import { base64Bytes, imagePixels } from "./annotations";
+import { type PlotPage, type Shape, textWidth } from "./plot";
+
+// Vector PDF of plot pages, one PDF page each. Drawing happens in page
+// millimetres with y down (a flipped CTM); text uses the standard Helvetica
+// fonts, so no font is embedded. JPEG images go in as they are; other
+// images are outlined only.
+
+type Image = Extract<Shape, { type: "image" }>;
+
+const PT_PER_MM = 72 / 25.4;
+// Bezier control distance for a quarter circle
+const KAPPA = 0.5523;
+
+const num = (n: number) => String(Math.round(n * 1000) / 1000);
+
+function rgb(hex: string) {
+  const h = hex.replace("#", "");
+  const full = h.length === 3 ? [...h].map((c) => c + c).join("") : h;
+  return [0, 2, 4].map((i) => num(parseInt(full.slice(i, i + 2), 16) / 255)).join(" ");
+}
+
+// PDF string literal in WinAnsi (Latin-1 here); other characters become "?"
+function pdfString(s: string) {
+  let out = "";
+  for (const ch of s) {
+    const code = ch.charCodeAt(0);
+    out += code > 255 ? "?" : ch;
+  }
+  return `(${out.replace(/[\\()]/g, (c) => `\\${c}`)})`;
+}
+
+function paint(s: Exclude<Shape, { type: "text" | "image" }>) {
+  const ops: string[] = [];
+  const stroke = !!s.stroke && s.width > 0;
+  const fill = !!s.fill && s.fill !== "none";
+  if (stroke) ops.push(`${rgb(s.stroke!)} RG ${num(s.width)} w`);
+  if (fill) ops.push(`${rgb(s.fill!)} rg`);
+  return { setup: ops.join(" "), op: fill && stroke ? "B" : fill ? "f" : stroke ? "S" : "n" };
+}
+
+// Rotation by `deg` degrees, clockwise on the page
+const turn = (deg = 0) => {
+  const rad = (deg * Math.PI) / 180;
+  return { cos: Math.cos(rad), sin: Math.sin(rad) };
+};
+
+// `images` names the image XObjects by data: URL
+function shapeOps(s: Shape, images: Map<string, string>): string {
+  if (s.type === "text") {
+    const w = textWidth(s.text, s.size, s.bold);
+    const shift = s.anchor === "start" ? 0 : s.anchor === "middle" ? -w / 2 : -w;
+    const { cos, sin } = turn(s.rotation);
+    const [x, y] = [s.x + shift * cos, s.y + shift * sin];
+    const font = s.bold ? "/F2" : "/F1";
+    // the text matrix flips y back so glyphs stand upright
+    const tm = [cos, sin, sin, -cos, x, y].map(num).join(" ");
+    return `BT ${rgb(s.color)} rg ${font} ${num(s.size)} Tf ${tm} Tm ${pdfString(s.text)} Tj ET`;
+  }
+  if (s.type === "image") return imageOps(s, images.get(s.href));
+  const { setup, op } = paint(s);
+  if (s.type === "circle") {
+    const { x, y, r } = s;
+    const k = r * KAPPA;
+    return [
+      setup,
+      `${num(x + r)} ${num(y)} m`,
+      `${num(x + r)} ${num(y + k)} ${num(x + k)} ${num(y + r)} ${num(x)} ${num(y + r)} c`,
+      `${num(x - k)} ${num(y + r)} ${num(x - r)} ${num(y + k)} ${num(x - r)} ${num(y)} c`,
+      `${num(x - r)} ${num(y - k)} ${num(x - k)} ${num(y - r)} ${num(x)} ${num(y - r)} c`,
+      `${num(x + k)} ${num(y - r)} ${num(x + r)} ${num(y - k)} ${num(x + r)} ${num(y)} c`,
+      `h ${op}`,
+    ].join("\n");
+  }
+  const [first, ...rest] = s.points;
+  if (!first) return "";
+  return [
+    setup,
+    `${num(first.x)} ${num(first.y)} m`,
+    ...rest.map((p) => `${num(p.x)} ${num(p.y)} l`),
+    `${s.closed ? "h " : ""}${op}`,
+  ].join("\n");
+}
+
+// The unit square of an image XObject spread over the image's place, top
+// row up; without an XObject, the outline of that place
+function imageOps(s: Image, name: string | undefined) {
+  const { cos, sin } = turn(s.rotation);
+  const at = (x: number, y: number) => [s.x + x * cos - y * sin, s.y + x * sin + y * cos];
+  if (!name) {
+    const [w, h] = [s.w / 2, s.h / 2];
+    const corners = [at(-w, -h), at(w, -h), at(w, h), at(-w, h)];
+    return [
+      `${rgb("#52525b")} RG 0.25 w`,
+      corners.map(([x, y], i) => `${num(x)} ${num(y)} ${i ? "l" : "m"}`).join("\n"),
+      "h S",
+    ].join("\n");
+  }
+  const [e, f] = at(-s.w / 2, s.h / 2);
+  const cm = [s.w * cos, s.w * sin, s.h * sin, -s.h * cos, e, f].map(num).join(" ");
+  return `q ${cm} cm ${name} Do Q`;
+}
+
+const COLOR_SPACES: Record<number, string> = { 1: "/DeviceGray", 3: "/DeviceRGB" };
+
+// JPEG images of the plot as XObject dictionaries with their data, by data: URL
+function jpegImages(pages: PlotPage[]) {
+  const images = new Map<string, string>();
+  for (const page of pages) {
+    for (const s of page.shapes) {
+      if (s.type !== "image" || images.has(s.href) || !s.href.startsWith("data:image/jpeg")) {
+        continue;
+      }
+      const size = imagePixels(s.href);
+      const colors = size?.channels && COLOR_SPACES[size.channels];
+      if (!size || !colors) continue;
+      const bytes = base64Bytes(s.href.slice(s.href.indexOf(",") + 1));
+      let data = "";
+      for (const b of bytes) data += String.fromCharCode(b);
+      images.set(
+        s.href,
+        `<< /Type /XObject /Subtype /Image /Width ${size.width} /Height ${size.height} ` +
+          `/ColorSpace ${colors} /BitsPerComponent 8 /Filter /DCTDecode /Length ${bytes.length} >>\n` +
+          `stream\n${data}\nendstream`
+      );
+    }
+  }
+  return images;
+}
+
+function pageContent(page: PlotPage, images: Map<string, string>) {
+  return [
+    `${num(PT_PER_MM)} 0 0 ${num(-PT_PER_MM)} 0 ${num(page.height * PT_PER_MM)} cm`,
+    "1 J 1 j",
+    ...page.shapes.map((s) => shapeOps(s, images)),
+  ].join("\n");
+}
+
+export function writePdf(pages: PlotPage[], title = "Schematic"): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [];
+  // objects 1-5 are fixed; each page then adds its dictionary and its
+  // content, and the images shared by all pages come last
+  const add = (body: string) => objects.push(body);
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const jpegs = jpegImages(pages);
+  const imageIds = [...jpegs.keys()].map((_, i) => 6 + pages.length * 2 + i);
+  const imageNames = new Map([...jpegs.keys()].map((href, i) => [href, `/Im${i + 1}`]));
+  const xObjects = imageIds.map((id, i) => `/Im${i + 1} ${id} 0 R`).join(" ");
+  add("<< /Type /Catalog /Pages 2 0 R >>");
+  add(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+  );
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  add(`<< /Title ${pdfString(title)} /Producer (fluxlite) >>`);
+  pages.forEach((page, i) => {
+    const w = num(page.width * PT_PER_MM);
+    const h = num(page.height * PT_PER_MM);
+    const content = pageContent(page, imageNames);
+    const resources = `/Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ""}`;
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] ` +
+        `/Resources << ${resources} >> /Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+  for (const image of jpegs.values()) add(image);
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  // every character is below 256 (see pdfString; images are bytes), so one
+  // byte each
+  return Uint8Array.from(out, (ch) => ch.charCodeAt(0));
+}
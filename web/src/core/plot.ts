@@ -0,0 +1,613 @@
+import { annotationPoint, arrowHead, NO_CONNECT_SIZE } from "./annotations";
+import type { Annotation, Design, Point, SchematicComponent } from "./design";
+import { getFootprint } from "./footprints";
+import { pinAbsPosition, rotatePoint } from "./geometry";
+import { flattenDesign, SHEET_WIDTH, sheetHeight } from "./hierarchy";
+import { KICAD_MM } from "./kicad";
+import { padPosition } from "./layout";
+import { symbolBounds } from "./library";
+import type { Fragment } from "./selection";
+import { analyzeWires } from "./wires";
+
+// Printable plots of the schematic (one page per sheet) and the board: a
+// drawing frame and title block on a sheet of paper, as shapes in
+// millimetres with y down. pageSvg() and pdf.ts turn the pages into files.
+
+export type PaperSize = "A4" | "A3" | "Letter";
+
+// Landscape, in millimetres
+export const PAPER_SIZES: Record<PaperSize, { w: number; h: number }> = {
+  A4: { w: 297, h: 210 },
+  A3: { w: 420, h: 297 },
+  Letter: { w: 279.4, h: 215.9 },
+};
+
+export type TitleBlock = { project: string; revision: string; date: string };
+
+export type PlotOptions = {
+  paper: PaperSize;
+  // scale the drawing to fill the page; otherwise plot at the natural scale
+  // (KiCad's for the schematic, 1:1 for the board), centred
+  fit: boolean;
+  monochrome: boolean;
+  title: TitleBlock;
+};
+
+export type Anchor = "start" | "middle" | "end";
+
+// `solid` fills stay dark in monochrome plots; other fills turn white.
+// Texts and images turn by `rotation` degrees about (x, y); images are
+// centred there.
+export type Shape =
+  | {
+      type: "path";
+      points: Point[];
+      closed?: boolean;
+      stroke?: string;
+      fill?: string;
+      solid?: boolean;
+      width: number;
+    }
+  | {
+      type: "circle";
+      x: number;
+      y: number;
+      r: number;
+      stroke?: string;
+      fill?: string;
+      solid?: boolean;
+      width: number;
+    }
+  | {
+      type: "text";
+      x: number;
+      y: number;
+      text: string;
+      size: number;
+      anchor: Anchor;
+      color: string;
+      bold?: boolean;
+      rotation?: number;
+    }
+  | {
+      type: "image";
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+      rotation: number;
+      // data: URL
+      href: string;
+    };
+
+type PathShape = Extract<Shape, { type: "path" }>;
+type TextShape = Extract<Shape, { type: "text" }>;
+
+export type PlotPage = { name: string; width: number; height: number; shapes: Shape[] };
+
+const INK = "#111";
+const MARGIN = 10;
+const TITLE_W = 110;
+const TITLE_H = 24;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126; others count as "n"
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+export function textWidth(text: string, size: number, bold = false) {
+  let units = 0;
+  for (const ch of text) units += HELVETICA[ch.charCodeAt(0) - 32] ?? 556;
+  return ((units * size) / 1000) * (bold ? 1.08 : 1);
+}
+
+const line = (a: Point, b: Point, width = 2): PathShape => ({
+  type: "path",
+  points: [a, b],
+  stroke: INK,
+  width,
+});
+
+const polygon = (points: number[][], fill?: string): PathShape => ({
+  type: "path",
+  points: points.map(([x, y]) => ({ x, y })),
+  closed: true,
+  stroke: INK,
+  fill,
+  width: 1,
+});
+
+const rect = (
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  fill?: string,
+  stroke = INK
+): PathShape => ({
+  ...polygon(
+    [
+      [x, y],
+      [x + w, y],
+      [x + w, y + h],
+      [x, y + h],
+    ],
+    fill
+  ),
+  stroke,
+});
+
+const text = (
+  x: number,
+  y: number,
+  value: string,
+  size: number,
+  anchor: Anchor = "middle",
+  color = INK
+): TextShape => ({ type: "text", x, y, text: value, size, anchor, color });
+
+// Symbol body in component coordinates, as drawn on the canvas
+function bodyShapes(c: SchematicComponent, design: Design): Shape[] {
+  const p = (x: number, y: number) => ({ x, y });
+  switch (c.kind) {
+    case "resistor":
+      return [
+        line(p(-30, 0), p(-20, 0)),
+        rect(-20, -8, 40, 16, "#f9d57a"),
+        line(p(20, 0), p(30, 0)),
+      ];
+    case "capacitor":
+      return [
+        line(p(-20, -10), p(-20, 10)),
+        line(p(20, -10), p(20, 10)),
+        line(p(-30, 0), p(-20, 0)),
+        line(p(20, 0), p(30, 0)),
+      ];
+    case "led":
+      return [
+        { type: "circle", x: 0, y: 0, r: 10, stroke: INK, fill: "#ff6b6b", width: 1 },
+        line(p(-30, 0), p(-10, 0)),
+        line(p(10, 0), p(30, 0)),
+      ];
+    case "power":
+      return [
+        polygon(
+          [
+            [0, -20],
+            [-8, 0],
+            [8, 0],
+          ],
+          "#4ade80"
+        ),
+      ];
+    case "ground":
+      return [line(p(-10, 0), p(10, 0), 1), line(p(-6, 4), p(6, 4), 1), line(p(-2, 8), p(2, 8), 1)];
+    case "ic":
+      return [rect(-30, -30, 60, 60, "#e5e7eb")];
+    case "netlabel":
+      return [
+        line(p(-20, 0), p(-10, 0)),
+        polygon(
+          [
+            [-10, 0],
+            [-4, -7],
+            [30, -7],
+            [30, 7],
+            [-4, 7],
+          ],
+          "#dbeafe"
+        ),
+      ];
+    case "port":
+      return [
+        line(p(-30, 0), p(-20, 0)),
+        polygon(
+          [
+            [-20, -8],
+            [10, -8],
+            [20, 0],
+            [10, 8],
+            [-20, 8],
+          ],
+          "#fde68a"
+        ),
+      ];
+    case "sheet": {
+      const h = sheetHeight(c.pins.length);
+      return [
+        { ...rect(-SHEET_WIDTH / 2, -h / 2, SHEET_WIDTH, h, "#ecfeff", "#0e7490"), width: 1.5 },
+        ...c.pins.map((pin) => line(p(pin.x, pin.y), p(-SHEET_WIDTH / 2, pin.y))),
+      ];
+    }
+    case "part": {
+      const part = design.library.find((lp) => lp.id === c.partId);
+      return (part?.graphics ?? []).map((g): Shape => {
+        const fill = "fill" in g && g.fill ? "#e5e7eb" : undefined;
+        switch (g.type) {
+          case "rect":
+            return rect(g.x, g.y, g.w, g.h, fill);
+          case "circle":
+            return { type: "circle", x: g.x, y: g.y, r: g.r, stroke: INK, fill, width: 1 };
+          case "polyline":
+            return g.fill
+              ? { type: "path", points: g.points, closed: true, stroke: INK, fill, width: 1 }
+              : { type: "path", points: g.points, stroke: INK, width: 2 };
+          case "text":
+            return text(g.x, g.y, g.text, g.size, "start");
+        }
+      });
+    }
+  }
+}
+
+// Rotate and place shapes from component to sheet coordinates. Texts move
+// with the part but stay upright.
+function place(shapes: Shape[], c: SchematicComponent): Shape[] {
+  const at = (x: number, y: number) => {
+    const r = rotatePoint(x, y, c.rotation);
+    return { x: c.x + r.x, y: c.y + r.y };
+  };
+  return shapes.map((s) => {
+    if (s.type === "path") return { ...s, points: s.points.map((pt) => at(pt.x, pt.y)) };
+    return { ...s, ...at(s.x, s.y) };
+  });
+}
+
+function componentShapes(c: SchematicComponent, design: Design): Shape[] {
+  const part = c.kind === "part" ? design.library.find((p) => p.id === c.partId) : undefined;
+  const bounds = part ? symbolBounds(part) : { x: -36, y: -36, w: 72, h: 72 };
+  const labelY = part
+    ? bounds.y - 6
+    : c.kind === "sheet"
+      ? -sheetHeight(c.pins.length) / 2 - 6
+      : -18;
+  const shapes = [...bodyShapes(c, design), text(0, labelY, c.label, 10)];
+  if (c.ref) {
+    const refY = part ? bounds.y + bounds.h + 12 : 26;
+    shapes.push(text(0, refY, `${c.ref} ${c.props.value}`.trim(), 8, "middle", "#52525b"));
+  }
+  if (c.kind === "sheet") {
+    const name = design.sheets.find((s) => s.id === c.sheetId)?.name ?? "missing sheet";
+    shapes.push(text(0, 4, name, 9, "middle", "#0e7490"));
+  }
+  const placed = place(shapes, c);
+  for (const pin of c.pins) {
+    const pos = pinAbsPosition(c, pin);
+    placed.push(text(pos.x, pos.y - 8, pin.name, 8));
+  }
+  return placed;
+}
+
+const NO_CONNECT = "#2563eb";
+
+function annotationShapes(a: Annotation): Shape[] {
+  const at = (x: number, y: number) => annotationPoint(a, { x, y });
+  switch (a.type) {
+    case "text":
+      return [{ ...text(a.x, a.y, a.text, a.size, "start"), rotation: a.rotation }];
+    case "line":
+    case "arrow": {
+      const shapes: Shape[] = [line(at(0, 0), at(a.dx, a.dy), 1.5)];
+      if (a.type === "arrow") {
+        const head = arrowHead(a).map((p) => at(p.x, p.y));
+        shapes.push({
+          type: "path",
+          points: head,
+          closed: true,
+          stroke: INK,
+          fill: INK,
+          solid: true,
+          width: 1,
+        });
+      }
+      return shapes;
+    }
+    case "rect": {
+      const [w, h] = [a.w / 2, a.h / 2];
+      return [
+        {
+          type: "path",
+          points: [at(-w, -h), at(w, -h), at(w, h), at(-w, h)],
+          closed: true,
+          stroke: INK,
+          width: 1.5,
+        },
+      ];
+    }
+    case "image":
+      return [
+        { type: "image", x: a.x, y: a.y, w: a.w, h: a.h, rotation: a.rotation, href: a.href },
+      ];
+    case "no-connect": {
+      const s = NO_CONNECT_SIZE;
+      return [
+        { ...line(at(-s, -s), at(s, s), 1.5), stroke: NO_CONNECT },
+        { ...line(at(-s, s), at(s, -s), 1.5), stroke: NO_CONNECT },
+        { ...text(0, 0, a.name, 8, "start", NO_CONNECT), ...at(-s, -s - 4), rotation: a.rotation },
+      ];
+    }
+  }
+}
+
+// One sheet's drawing, in canvas units. Annotations go underneath.
+export function schematicShapes(design: Design, content: Fragment): Shape[] {
+  const wires = analyzeWires(content);
+  return [
+    ...content.annotations.flatMap(annotationShapes),
+    ...[...wires.paths.values()]
+      .filter((path) => path.length >= 2)
+      .map((path): Shape => ({ type: "path", points: path, stroke: "#2563eb", width: 2 })),
+    ...wires.junctions.map((j): Shape => ({
+      type: "circle",
+      ...j,
+      r: 4,
+      fill: "#2563eb",
+      solid: true,
+      width: 0,
+    })),
+    ...content.components.flatMap((c) => componentShapes(c, design)),
+  ];
+}
+
+const COPPER = { top: "#dc2626", bottom: "#2563eb" };
+
+// The board in millimetres: outline, footprints with pads and references,
+// tracks and vias; bottom side under top
+export function layoutShapes(design: Design): Shape[] {
+  const flat = flattenDesign(design);
+  const shapes: Shape[] = [];
+  const board = design.board;
+  if (board.outline.length > 2) {
+    shapes.push({ type: "path", points: board.outline, closed: true, stroke: INK, width: 0.2 });
+  }
+  const parts = [...flat.components].sort(
+    (a, b) => Number(b.placement.side === "bottom") - Number(a.placement.side === "bottom")
+  );
+  for (const c of parts) {
+    const fp = getFootprint(c.props.footprint);
+    if (!fp) continue;
+    const pl = c.placement;
+    const at = (x: number, y: number) => padPosition(pl, { x, y });
+    const { w, h } = fp.body;
+    shapes.push({
+      type: "path",
+      points: [at(-w / 2, -h / 2), at(w / 2, -h / 2), at(w / 2, h / 2), at(-w / 2, h / 2)],
+      closed: true,
+      stroke: "#52525b",
+      width: 0.12,
+    });
+    for (const pad of fp.pads) {
+      const copper = pad.drill ? "#b45309" : COPPER[pl.side];
+      const centre = at(pad.x, pad.y);
+      if (pad.shape === "round") {
+        shapes.push({
+          type: "circle",
+          ...centre,
+          r: pad.w / 2,
+          fill: copper,
+          solid: true,
+          width: 0,
+        });
+      } else {
+        const corners = [
+          [-1, -1],
+          [1, -1],
+          [1, 1],
+          [-1, 1],
+        ].map(([sx, sy]) => at(pad.x + (sx * pad.w) / 2, pad.y + (sy * pad.h) / 2));
+        shapes.push({
+          type: "path",
+          points: corners,
+          closed: true,
+          fill: copper,
+          solid: true,
+          width: 0,
+        });
+      }
+      if (pad.drill) {
+        shapes.push({ type: "circle", ...centre, r: pad.drill / 2, fill: "#fff", width: 0 });
+      }
+    }
+    shapes.push(text(pl.x, pl.y - h / 2 - 0.6, c.ref, 1.2, "middle", "#52525b"));
+  }
+  for (const layer of ["bottom", "top"] as const) {
+    for (const t of board.tracks.filter((t) => t.layer === layer)) {
+      shapes.push({ type: "path", points: t.points, stroke: COPPER[layer], width: t.width });
+    }
+  }
+  for (const v of board.vias) {
+    shapes.push({
+      type: "circle",
+      x: v.x,
+      y: v.y,
+      r: v.diameter / 2,
+      fill: "#71717a",
+      solid: true,
+      width: 0,
+    });
+    shapes.push({ type: "circle", x: v.x, y: v.y, r: v.drill / 2, fill: "#fff", width: 0 });
+  }
+  return shapes;
+}
+
+// A text's box about its anchor point, before it turns
+function textBox(s: TextShape) {
+  const w = textWidth(s.text, s.size, s.bold);
+  const x = s.anchor === "start" ? 0 : s.anchor === "middle" ? -w / 2 : -w;
+  return { x, y: -s.size, w, h: s.size };
+}
+
+function extent(shapes: Shape[]) {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const s of shapes) {
+    if (s.type === "path") {
+      for (const p of s.points) {
+        xs.push(p.x);
+        ys.push(p.y);
+      }
+    } else if (s.type === "circle") {
+      xs.push(s.x - s.r, s.x + s.r);
+      ys.push(s.y - s.r, s.y + s.r);
+    } else if (s.type === "image" || s.text) {
+      // a box about (x, y), turned along with the text or image
+      const box = s.type === "image" ? { x: -s.w / 2, y: -s.h / 2, w: s.w, h: s.h } : textBox(s);
+      for (const fx of [0, 1]) {
+        for (const fy of [0, 1]) {
+          const p = rotatePoint(box.x + fx * box.w, box.y + fy * box.h, s.rotation ?? 0);
+          xs.push(s.x + p.x);
+          ys.push(s.y + p.y);
+        }
+      }
+    }
+  }
+  if (!xs.length) return { x: 0, y: 0, w: 0, h: 0 };
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+// Scale and move drawing shapes; stroke widths and text sizes scale along
+function transform(shapes: Shape[], scale: number, dx: number, dy: number): Shape[] {
+  const at = (p: Point) => ({ x: p.x * scale + dx, y: p.y * scale + dy });
+  return shapes.map((s) => {
+    if (s.type === "path") return { ...s, points: s.points.map(at), width: s.width * scale };
+    if (s.type === "circle") return { ...s, ...at(s), r: s.r * scale, width: s.width * scale };
+    if (s.type === "image") return { ...s, ...at(s), w: s.w * scale, h: s.h * scale };
+    return { ...s, ...at(s), size: s.size * scale };
+  });
+}
+
+function monochrome(s: Shape): Shape {
+  if (s.type === "text") return { ...s, color: INK };
+  if (s.type === "image") return s;
+  return {
+    ...s,
+    stroke: s.stroke && INK,
+    fill: s.fill && (s.solid ? INK : "#fff"),
+  };
+}
+
+function titleBlock(x: number, y: number, name: string, sheet: string, options: PlotOptions) {
+  const { title } = options;
+  const row = TITLE_H / 4;
+  const cell = (cx: number, cy: number, label: string, value: string, bold = false): Shape[] => [
+    text(cx + 1.5, cy + 2.6, label, 1.8, "start", "#52525b"),
+    { ...text(cx + 1.5, cy + row - 1.2, value, 2.6, "start"), bold },
+  ];
+  return [
+    rect(x, y, TITLE_W, TITLE_H),
+    line({ x, y: y + row * 2 }, { x: x + TITLE_W, y: y + row * 2 }, 0.25),
+    line({ x, y: y + row * 3 }, { x: x + TITLE_W, y: y + row * 3 }, 0.25),
+    line({ x: x + TITLE_W / 2, y: y + row * 2 }, { x: x + TITLE_W / 2, y: y + TITLE_H }, 0.25),
+    ...cell(x, y, "Project", title.project, true),
+    ...cell(x, y + row, "Sheet", name),
+    ...cell(x, y + row * 2, "Revision", title.revision),
+    ...cell(x + TITLE_W / 2, y + row * 2, "Date", title.date),
+    ...cell(x, y + row * 3, "Sheet number", sheet),
+    ...cell(x + TITLE_W / 2, y + row * 3, "Paper", options.paper),
+  ].map((s): Shape => (s.type === "path" ? { ...s, width: 0.25 } : s));
+}
+
+// Lay a drawing out on the paper, inside the frame and above the title block
+function compose(
+  name: string,
+  drawing: Shape[],
+  naturalScale: number,
+  sheet: string,
+  options: PlotOptions
+): PlotPage {
+  const { w, h } = PAPER_SIZES[options.paper];
+  const area = {
+    x: MARGIN + 4,
+    y: MARGIN + 4,
+    w: w - MARGIN * 2 - 8,
+    h: h - MARGIN * 2 - TITLE_H - 12,
+  };
+  const box = extent(drawing);
+  const scale =
+    options.fit && box.w > 0 && box.h > 0 ? Math.min(area.w / box.w, area.h / box.h) : naturalScale;
+  const dx = area.x + (area.w - box.w * scale) / 2 - box.x * scale;
+  const dy = area.y + (area.h - box.h * scale) / 2 - box.y * scale;
+  const frame = { ...rect(MARGIN, MARGIN, w - MARGIN * 2, h - MARGIN * 2), width: 0.35 };
+  const shapes = [
+    ...transform(drawing, scale, dx, dy),
+    frame,
+    ...titleBlock(w - MARGIN - TITLE_W, h - MARGIN - TITLE_H, name, sheet, options),
+  ];
+  return {
+    name,
+    width: w,
+    height: h,
+    shapes: options.monochrome ? shapes.map(monochrome) : shapes,
+  };
+}
+
+// Root sheet first, then every child sheet
+export function plotSchematic(design: Design, options: PlotOptions): PlotPage[] {
+  const sheets = [
+    { name: "Root", content: design as Fragment },
+    ...design.sheets.map((s) => ({ name: s.name, content: s })),
+  ];
+  return sheets.map((s, i) =>
+    compose(
+      s.name,
+      schematicShapes(design, s.content),
+      KICAD_MM,
+      `${i + 1} of ${sheets.length}`,
+      options
+    )
+  );
+}
+
+export function plotLayout(design: Design, options: PlotOptions): PlotPage[] {
+  return [compose("Board", layoutShapes(design), 1, "1 of 1", options)];
+}
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const num = (n: number) => String(Math.round(n * 1000) / 1000);
+
+function paint(s: { stroke?: string; fill?: string; width: number }) {
+  const stroke =
+    s.stroke && s.width > 0 ? ` stroke="${s.stroke}" stroke-width="${num(s.width)}"` : "";
+  return `fill="${s.fill || "none"}"${stroke} stroke-linecap="round" stroke-linejoin="round"`;
+}
+
+// Standalone SVG sized in millimetres
+export function pageSvg(page: PlotPage): string {
+  const body = page.shapes.map((s) => {
+    if (s.type === "path") {
+      const points = s.points.map((p) => `${num(p.x)},${num(p.y)}`).join(" ");
+      return `<${s.closed ? "polygon" : "polyline"} points="${points}" ${paint(s)}/>`;
+    }
+    if (s.type === "circle") {
+      return `<circle cx="${num(s.x)}" cy="${num(s.y)}" r="${num(s.r)}" ${paint(s)}/>`;
+    }
+    const turn = (r = 0) => (r ? ` transform="rotate(${num(r)} ${num(s.x)} ${num(s.y)})"` : "");
+    if (s.type === "image") {
+      return (
+        `<image x="${num(s.x - s.w / 2)}" y="${num(s.y - s.h / 2)}" width="${num(s.w)}" height="${num(s.h)}"` +
+        ` preserveAspectRatio="none" href="${escapeXml(s.href)}"${turn(s.rotation)}/>`
+      );
+    }
+    const weight = s.bold ? ` font-weight="bold"` : "";
+    return (
+      `<text x="${num(s.x)}" y="${num(s.y)}" font-size="${num(s.size)}" text-anchor="${s.anchor}"` +
+      ` fill="${s.color}"${weight}${turn(s.rotation)}>${escapeXml(s.text)}</text>`
+    );
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${page.width}mm" height="${page.height}mm" viewBox="0 0 ${page.width} ${page.height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<title>${escapeXml(page.name)}</title>`,
+    `<rect width="${page.width}" height="${page.height}" fill="#fff"/>`,
+    ...body,
+    "</svg>",
+    "",
+  ].join("\n");
+}
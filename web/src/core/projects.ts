@@ -0,0 +1,242 @@
+import { nanoid } from "nanoid";
+import type { Design } from "./design";
+import type { HistoryEntry } from "./history";
+import { loadDesign, parseDesign } from "./normalize";
+
+// Named projects kept in the browser's IndexedDB: project details, the
+// working design with its undo history, and timestamped snapshots taken while
+// editing. Designs are stored as structured clones, and go through
+// loadDesign() when read so older saves are migrated like files.
+
+export type ProjectInfo = {
+  id: string;
+  name: string;
+  created: number;
+  modified: number;
+  // last time the project was opened; the most recent one opens on start
+  opened: number;
+};
+
+export type Snapshot = {
+  id: string;
+  projectId: string;
+  time: number;
+  design: Design;
+};
+
+type Saved = {
+  id: string;
+  design: Design;
+  past: HistoryEntry<Design>[];
+  future: HistoryEntry<Design>[];
+};
+
+// A snapshot is taken when the design changed and the last one is this old
+export const SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+// Oldest snapshots beyond this many per project are dropped
+export const SNAPSHOT_LIMIT = 30;
+
+const DB_NAME = "fluxlite";
+const DB_VERSION = 1;
+
+type Store = "projects" | "designs" | "snapshots";
+
+let connection: Promise<IDBDatabase> | null = null;
+
+function database(): Promise<IDBDatabase> {
+  connection ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore("projects", { keyPath: "id" });
+      db.createObjectStore("designs", { keyPath: "id" });
+      db.createObjectStore("snapshots", { keyPath: "id" }).createIndex("projectId", "projectId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return connection;
+}
+
+// Run `body` in one transaction; resolves with the result of the request it
+// returns once the transaction has committed
+async function transaction<T = undefined>(
+  stores: Store[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await database();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = body(tx);
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Storage transaction aborted"));
+  });
+}
+
+const byRecent = (a: ProjectInfo, b: ProjectInfo) => b.opened - a.opened;
+
+// Most recently opened first
+export async function listProjects(): Promise<ProjectInfo[]> {
+  const projects = await transaction<ProjectInfo[]>(["projects"], "readonly", (tx) =>
+    tx.objectStore("projects").getAll()
+  );
+  return projects.sort(byRecent);
+}
+
+export async function createProject(
+  name: string,
+  design: Design,
+  history: Pick<Saved, "past" | "future"> = { past: [], future: [] }
+): Promise<ProjectInfo> {
+  const now = Date.now();
+  const info: ProjectInfo = { id: nanoid(), name, created: now, modified: now, opened: now };
+  await transaction(["projects", "designs"], "readwrite", (tx) => {
+    tx.objectStore("projects").put(info);
+    tx.objectStore("designs").put({ id: info.id, design, ...history } satisfies Saved);
+  });
+  return info;
+}
+
+// Undo steps that no longer load are dropped rather than failing the project
+const upgrade = (entries: HistoryEntry<Design>[] = []) =>
+  entries.flatMap((e) => {
+    try {
+      return [{ ...e, value: loadDesign(e.value, { repair: true }).design }];
+    } catch {
+      return [];
+    }
+  });
+
+// Opens a project: its design and undo history, and marks it most recent.
+// Throws when the project is gone or its design no longer loads.
+export async function openProject(id: string) {
+  const [info, saved] = await Promise.all([
+    transaction<ProjectInfo | undefined>(["projects"], "readonly", (tx) =>
+      tx.objectStore("projects").get(id)
+    ),
+    transaction<Saved | undefined>(["designs"], "readonly", (tx) =>
+      tx.objectStore("designs").get(id)
+    ),
+  ]);
+  if (!info || !saved) throw new Error("Project not found");
+  const design = loadDesign(saved.design, { repair: true }).design;
+  const opened = { ...info, opened: Date.now() };
+  await transaction(["projects"], "readwrite", (tx) => {
+    tx.objectStore("projects").put(opened);
+  });
+  return { info: opened, design, past: upgrade(saved.past), future: upgrade(saved.future) };
+}
+
+export async function saveProject(
+  id: string,
+  design: Design,
+  history: Pick<Saved, "past" | "future">
+) {
+  await transaction(["projects", "designs"], "readwrite", (tx) => {
+    const projects = tx.objectStore("projects");
+    const request = projects.get(id);
+    request.onsuccess = () => {
+      // deleted meanwhile (e.g. from another tab): don't bring it back
+      if (!request.result) return;
+      projects.put({ ...request.result, modified: Date.now() });
+      tx.objectStore("designs").put({ id, design, ...history } satisfies Saved);
+    };
+  });
+}
+
+export async function renameProject(id: string, name: string) {
+  await transaction(["projects"], "readwrite", (tx) => {
+    const projects = tx.objectStore("projects");
+    const request = projects.get(id);
+    request.onsuccess = () => {
+      if (request.result) projects.put({ ...request.result, name });
+    };
+  });
+}
+
+// Copy of the design under a new name; history and snapshots stay behind
+export async function duplicateProject(id: string, name: string): Promise<ProjectInfo> {
+  const saved = await transaction<Saved | undefined>(["designs"], "readonly", (tx) =>
+    tx.objectStore("designs").get(id)
+  );
+  if (!saved) throw new Error("Project not found");
+  return createProject(name, saved.design);
+}
+
+export async function deleteProject(id: string) {
+  await transaction(["projects", "designs", "snapshots"], "readwrite", (tx) => {
+    tx.objectStore("projects").delete(id);
+    tx.objectStore("designs").delete(id);
+    const snapshots = tx.objectStore("snapshots");
+    const keys = snapshots.index("projectId").getAllKeys(id);
+    keys.onsuccess = () => keys.result.forEach((key) => snapshots.delete(key));
+  });
+}
+
+// Newest first
+export async function listSnapshots(projectId: string): Promise<Snapshot[]> {
+  const snapshots = await transaction<Snapshot[]>(["snapshots"], "readonly", (tx) =>
+    tx.objectStore("snapshots").index("projectId").getAll(projectId)
+  );
+  return snapshots
+    .sort((a, b) => b.time - a.time)
+    .flatMap((s) => {
+      try {
+        return [{ ...s, design: loadDesign(s.design, { repair: true }).design }];
+      } catch {
+        return [];
+      }
+    });
+}
+
+// Snapshot the design if it changed and the last snapshot is older than
+// SNAPSHOT_INTERVAL; returns whether one was taken
+export async function autoSnapshot(projectId: string, design: Design): Promise<boolean> {
+  const snapshots = await transaction<Snapshot[]>(["snapshots"], "readonly", (tx) =>
+    tx.objectStore("snapshots").index("projectId").getAll(projectId)
+  );
+  snapshots.sort((a, b) => b.time - a.time);
+  const now = Date.now();
+  const last = snapshots[0];
+  if (last && now - last.time < SNAPSHOT_INTERVAL) return false;
+  if (last && JSON.stringify(last.design) === JSON.stringify(design)) return false;
+  await transaction(["snapshots"], "readwrite", (tx) => {
+    const store = tx.objectStore("snapshots");
+    store.put({ id: nanoid(), projectId, time: now, design } satisfies Snapshot);
+    snapshots.slice(SNAPSHOT_LIMIT - 1).forEach((s) => store.delete(s.id));
+  });
+  return true;
+}
+
+// Designs saved by versions that kept a single design (and shared-link
+// forks) in localStorage become projects; the old keys are removed once
+// copied. Keys that do not load are left in place.
+export async function importLocalStorage(storage: Storage): Promise<string[]> {
+  const problems: string[] = [];
+  const slots = [{ key: "fluxlite-design", history: "fluxlite-history", name: "My design" }];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key?.startsWith("fluxlite-fork:") && !key.endsWith(":history")) {
+      slots.push({ key, history: `${key}:history`, name: "Fork of shared design" });
+    }
+  }
+  for (const slot of slots) {
+    const saved = storage.getItem(slot.key);
+    if (!saved) continue;
+    try {
+      const design = parseDesign(saved, { repair: true }).design;
+      const history = JSON.parse(storage.getItem(slot.history) ?? "{}");
+      await createProject(slot.name, design, {
+        past: upgrade(history.past),
+        future: upgrade(history.future),
+      });
+      storage.removeItem(slot.key);
+      storage.removeItem(slot.history);
+    } catch (err) {
+      problems.push(`${slot.name}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return problems;
+}
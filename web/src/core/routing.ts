@@ -0,0 +1,128 @@
+import type { Board, CopperLayer, Point } from "./design";
+import type { PlacedPad } from "./layout";
+
+export const VIA_DIAMETER = 0.6;
+export const VIA_DRILL = 0.3;
+
+// Points to append after `from` to reach `to` with 45°/90° segments:
+// a diagonal leg first, then a straight one along the major axis.
+export function route45(from: Point, to: Point): Point[] {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const d = Math.min(Math.abs(dx), Math.abs(dy));
+  if (d < 1e-9 || Math.abs(Math.abs(dx) - Math.abs(dy)) < 1e-9) return [to];
+  return [{ x: from.x + Math.sign(dx) * d, y: from.y + Math.sign(dy) * d }, to];
+}
+
+// Plated pads are on both layers, SMD pads only on the side the part sits on
+export function padOnLayer(p: PlacedPad, layer: CopperLayer) {
+  return !!p.pad.drill || p.side === layer;
+}
+
+// Approximate hit test: the pad's circumscribing circle
+export function padContains(p: PlacedPad, pt: Point) {
+  return Math.hypot(pt.x - p.x, pt.y - p.y) <= Math.max(p.pad.w, p.pad.h) / 2;
+}
+
+export function hitPad(pads: Iterable<PlacedPad>, pt: Point, layer?: CopperLayer) {
+  let best: PlacedPad | null = null;
+  for (const p of pads) {
+    if (layer && !padOnLayer(p, layer)) continue;
+    if (!padContains(p, pt)) continue;
+    if (!best || Math.hypot(pt.x - p.x, pt.y - p.y) < Math.hypot(pt.x - best.x, pt.y - best.y)) {
+      best = p;
+    }
+  }
+  return best;
+}
+
+export function distanceToSegment(p: Point, a: Point, b: Point) {
+  const lx = b.x - a.x;
+  const ly = b.y - a.y;
+  const len2 = lx * lx + ly * ly;
+  const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * lx + (p.y - a.y) * ly) / len2));
+  return Math.hypot(p.x - (a.x + t * lx), p.y - (a.y + t * ly));
+}
+
+const EPS = 0.01;
+
+// Union-find over pads, tracks and vias joined by copper. Items are keyed
+// "pad:<pinKey>", "track:<id>" and "via:<id>".
+function joinCopper(board: Board, pads: Map<string, PlacedPad>) {
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    let root = x;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(x, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(ra, rb);
+  };
+
+  for (const t of board.tracks) {
+    const id = `track:${t.id}`;
+    for (const v of t.points) {
+      for (const [k, p] of pads) {
+        if (padOnLayer(p, t.layer) && padContains(p, v)) union(id, `pad:${k}`);
+      }
+      for (const via of board.vias) {
+        if (Math.hypot(v.x - via.x, v.y - via.y) <= via.diameter / 2) union(id, `via:${via.id}`);
+      }
+    }
+  }
+  // tracks touching on the same layer, including T-joins onto a segment
+  for (let i = 0; i < board.tracks.length; i++) {
+    for (let j = i + 1; j < board.tracks.length; j++) {
+      const a = board.tracks[i];
+      const b = board.tracks[j];
+      if (a.layer !== b.layer) continue;
+      const touches = (x: typeof a, y: typeof b) =>
+        x.points.some((v) =>
+          y.points.some((_, s) => s > 0 && distanceToSegment(v, y.points[s - 1], y.points[s]) < EPS)
+        );
+      if (touches(a, b) || touches(b, a)) union(`track:${a.id}`, `track:${b.id}`);
+    }
+  }
+  for (const via of board.vias) {
+    for (const [k, p] of pads) {
+      if (padContains(p, via)) union(`via:${via.id}`, `pad:${k}`);
+    }
+  }
+  return find;
+}
+
+// Group pads that are joined by copper (tracks and vias). Returns a lookup
+// from pin key to a cluster id; pads in the same cluster are connected.
+export function copperClusters(board: Board, pads: Map<string, PlacedPad>) {
+  const find = joinCopper(board, pads);
+  return (pinKey: string) => find(`pad:${pinKey}`);
+}
+
+// Tracks and vias take the net of the pads they reach, so renaming a net in
+// the schematic carries over to copper that is already routed. Copper that
+// reaches no pad keeps the net it was drawn with.
+export function resolveCopperNets(
+  board: Board,
+  pads: Map<string, PlacedPad>,
+  netOfPin: Map<string, string>
+): Board {
+  const find = joinCopper(board, pads);
+  const netOfCluster = new Map<string, string>();
+  for (const k of pads.keys()) {
+    const net = netOfPin.get(k);
+    if (net) netOfCluster.set(find(`pad:${k}`), net);
+  }
+  let changed = false;
+  const resolve = <T extends { id: string; net: string }>(item: T, kind: string): T => {
+    const net = netOfCluster.get(find(`${kind}:${item.id}`));
+    if (!net || net === item.net) return item;
+    changed = true;
+    return { ...item, net };
+  };
+  const tracks = board.tracks.map((t) => resolve(t, "track"));
+  const vias = board.vias.map((v) => resolve(v, "via"));
+  return changed ? { ...board, tracks, vias } : board;
+}
@@ -0,0 +1,116 @@
+import { nanoid } from "nanoid";
+import type { Design, Point, Wire, WireEnd } from "./design";
+import { rotatePoint, snap } from "./geometry";
+import { LAYOUT_GRID, MM } from "./layout";
+import { pinPositions, storedPoints, wirePath } from "./wires";
+
+// A self-contained piece of a design: some components plus the wires
+// between them, and annotations
+export type Fragment = Pick<Design, "components" | "wires" | "annotations">;
+
+// Wires that go along with a group of parts: the selected wires and every
+// wire running between two selected parts
+export function wiresWith(wires: Wire[], ids: string[]) {
+  const selected = new Set(ids);
+  return wires.filter(
+    (w) =>
+      selected.has(w.id) ||
+      (w.from && w.to && selected.has(w.from.componentId) && selected.has(w.to.componentId))
+  );
+}
+
+// Selected components and annotations along with wiresWith(). A wire end
+// attached outside the selection is set free.
+export function extractFragment(source: Fragment, ids: string[]): Fragment {
+  const selected = new Set(ids);
+  const pins = pinPositions(source.components);
+  const inside = (end: WireEnd | null) => !end || selected.has(end.componentId);
+  return {
+    components: source.components.filter((c) => selected.has(c.id)),
+    wires: wiresWith(source.wires, ids).map((w) => {
+      if (inside(w.from) && inside(w.to)) return w;
+      const from = inside(w.from) ? w.from : null;
+      const to = inside(w.to) ? w.to : null;
+      return { ...w, from, to, points: storedPoints({ from, to }, wirePath(w, pins)) };
+    }),
+    annotations: source.annotations.filter((a) => selected.has(a.id)),
+  };
+}
+
+// Copy a fragment with fresh component, pin and wire ids, offset by (dx, dy).
+// Wires are re-pointed at the cloned pins. Sheet symbol and library part pins
+// keep their ids: they name ports of the child sheet or pins of the part.
+export function cloneFragment(fragment: Fragment, dx: number, dy: number): Fragment {
+  const componentIds = new Map<string, string>();
+  const pinIds = new Map<string, string>();
+  const components = fragment.components.map((c) => {
+    const id = nanoid();
+    componentIds.set(c.id, id);
+    return {
+      ...c,
+      id,
+      x: snap(c.x + dx),
+      y: snap(c.y + dy),
+      placement: {
+        ...c.placement,
+        x: snap(c.placement.x + dx / MM, LAYOUT_GRID),
+        y: snap(c.placement.y + dy / MM, LAYOUT_GRID),
+      },
+      pins: c.pins.map((p) => {
+        const pid = c.kind === "sheet" || c.kind === "part" ? p.id : nanoid();
+        pinIds.set(`${c.id}:${p.id}`, pid);
+        return { ...p, id: pid };
+      }),
+    };
+  });
+  const remap = (end: WireEnd | null) =>
+    end && {
+      componentId: componentIds.get(end.componentId)!,
+      pinId: pinIds.get(`${end.componentId}:${end.pinId}`)!,
+    };
+  const wires = fragment.wires.map((w) => ({
+    id: nanoid(),
+    from: remap(w.from),
+    to: remap(w.to),
+    points: w.points.map((p) => ({ x: snap(p.x + dx), y: snap(p.y + dy) })),
+  }));
+  const annotations = fragment.annotations.map((a) => ({
+    ...a,
+    id: nanoid(),
+    x: snap(a.x + dx),
+    y: snap(a.y + dy),
+  }));
+  return { components, wires, annotations };
+}
+
+type Turnable = { id: string; x: number; y: number; rotation: number };
+
+// Snapped centroid of the selected items, null when none is selected
+export function groupCentre(items: Turnable[], ids: string[]): Point | null {
+  const selected = items.filter((c) => ids.includes(c.id));
+  if (selected.length === 0) return null;
+  return {
+    x: snap(selected.reduce((s, c) => s + c.x, 0) / selected.length),
+    y: snap(selected.reduce((s, c) => s + c.y, 0) / selected.length),
+  };
+}
+
+// Rotate the selected items 90° about their centroid, or about `centre`
+// when parts and annotations turn as one group
+export function rotateGroup<T extends Turnable>(
+  items: T[],
+  ids: string[],
+  centre = groupCentre(items, ids)
+): T[] {
+  if (!centre) return items;
+  return items.map((c) => {
+    if (!ids.includes(c.id)) return c;
+    const p = rotatePoint(c.x - centre.x, c.y - centre.y, 90);
+    return {
+      ...c,
+      x: snap(centre.x + p.x),
+      y: snap(centre.y + p.y),
+      rotation: (c.rotation + 90) % 360,
+    };
+  });
+}
@@ -0,0 +1,101 @@
+// S-expressions as used by KiCad files. Atoms stay strings (numbers too);
+// quoted strings are wrapped so a writer can round-trip them.
+
+export type SExpr = string | { str: string } | SExpr[];
+
+export class SExprError extends Error {}
+
+export function parseSExpr(text: string): SExpr[] {
+  const stack: SExpr[][] = [[]];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "(") {
+      stack.push([]);
+      i++;
+    } else if (ch === ")") {
+      if (stack.length === 1) throw new SExprError(`Unbalanced ")" at offset ${i}`);
+      const done = stack.pop()!;
+      stack[stack.length - 1].push(done);
+      i++;
+    } else if (ch === '"') {
+      let s = "";
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === "\\" && i + 1 < text.length) {
+          const next = text[i + 1];
+          s += next === "n" ? "\n" : next === "t" ? "\t" : next;
+          i += 2;
+        } else {
+          s += text[i++];
+        }
+      }
+      if (i >= text.length) throw new SExprError("Unterminated string");
+      stack[stack.length - 1].push({ str: s });
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else {
+      let atom = "";
+      while (i < text.length && !/[\s()"]/.test(text[i])) atom += text[i++];
+      stack[stack.length - 1].push(atom);
+    }
+  }
+  if (stack.length !== 1) throw new SExprError("Missing closing parenthesis");
+  return stack[0];
+}
+
+// Atom or quoted string as text; "" for lists
+export function sText(x: SExpr | undefined): string {
+  if (x === undefined || Array.isArray(x)) return "";
+  return typeof x === "string" ? x : x.str;
+}
+
+export function sNum(x: SExpr | undefined): number {
+  const n = Number(sText(x));
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function sHead(x: SExpr): string {
+  return Array.isArray(x) ? sText(x[0]) : "";
+}
+
+// Child lists with the given head
+export function sFindAll(list: SExpr, head: string): SExpr[][] {
+  if (!Array.isArray(list)) return [];
+  return list.filter((x): x is SExpr[] => Array.isArray(x) && sHead(x) === head);
+}
+
+export function sFind(list: SExpr, head: string): SExpr[] | undefined {
+  return sFindAll(list, head)[0];
+}
+
+// Writer input: numbers are formatted, strings are atoms, { str } is quoted
+export type SOut = string | number | { str: string } | SOut[];
+
+export const q = (s: string) => ({ str: s });
+
+const fmt = (n: number) => String(Math.round(n * 10000) / 10000 || 0);
+
+function atom(x: Exclude<SOut, SOut[]>) {
+  if (typeof x === "number") return fmt(x);
+  if (typeof x === "string") return x;
+  return `"${x.str.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+const inline = (x: SOut): string => (Array.isArray(x) ? `(${x.map(inline).join(" ")})` : atom(x));
+
+// Short lists stay on one line; longer ones put each child list on its own
+export function writeSExpr(x: SOut, indent = ""): string {
+  if (!Array.isArray(x)) return atom(x);
+  const flat = inline(x);
+  if (flat.length + indent.length <= 100) return flat;
+  const atoms = x.filter((c) => !Array.isArray(c)) as Exclude<SOut, SOut[]>[];
+  const lists = x.filter((c) => Array.isArray(c)) as SOut[][];
+  const inner = indent + "  ";
+  return (
+    `(${atoms.map(atom).join(" ")}` +
+    lists.map((l) => `\n${inner}${writeSExpr(l, inner)}`).join("") +
+    `\n${indent})`
+  );
+}
@@ -0,0 +1,35 @@
+// Share links:
+//
+//   npx tsx --test src/core/share.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { emptyDesign } from "./design";
+import { connect, placeComponent } from "./edit";
+import { withSheet } from "./hierarchy";
+import { BUILTIN_LIBRARY } from "./library";
+import { normalizeDesign } from "./normalize";
+import { decodeShare, encodeShare } from "./share";
+
+test("a fork keeps wires on their pins when a built-in part is placed again", async () => {
+  const opamp = BUILTIN_LIBRARY.find((p) => p.id === "builtin:opamp")!;
+  // the resistor comes first so its ids are numbered before the op-amp's
+  let d = placeComponent(emptyDesign(), null, "resistor", { x: 100, y: 0 });
+  d = placeComponent(d, null, "part", { x: 0, y: 0 }, { part: opamp });
+  const [r, u] = d.components;
+  const out = u.pins.find((p) => p.name === "OUT")!;
+  d = withSheet(
+    d,
+    null,
+    connect(d, { componentId: u.id, pinId: out.id }, { componentId: r.id, pinId: r.pins[0].id })
+  );
+
+  const shared = await decodeShare(await encodeShare(d));
+  const fork = normalizeDesign(
+    placeComponent(shared, null, "part", { x: 0, y: 200 }, { part: opamp })
+  );
+  const [wire] = fork.wires;
+  const owner = fork.components.find((c) => c.id === wire.from?.componentId)!;
+  assert.equal(owner.partId, "builtin:opamp");
+  assert.equal(owner.pins.find((p) => p.id === wire.from!.pinId)?.name, "OUT");
+});
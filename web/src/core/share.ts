@@ -0,0 +1,91 @@
+import type { Design } from "./design";
+import { loadDesign, parseDesign } from "./normalize";
+
+// Share links carry the whole design in the URL fragment. Ids of parts,
+// wires, sheets and annotations (21-character nanoids, repeated in every
+// wire end) are renumbered to short base-36 ids, the JSON is deflated and
+// the bytes base64url-encoded behind a format tag: "<SHARE_FORMAT>.<payload>".
+// Links from before the format (plain base64 JSON) still open.
+
+export const SHARE_FORMAT = "1";
+
+// Chat tools and some browsers start truncating or refusing URLs around here
+export const SHARE_URL_WARN = 2000;
+
+const ID_FIELDS = new Set(["id", "componentId", "sheetId", "partId"]);
+
+// Same design with every id replaced by a short one. Built-in part ids are
+// kept so the parts still match the palette after a fork. Pin ids are kept
+// too: placing a built-in part again resets its instances' pins to the
+// palette's, and wire ends must still name the same pins.
+export function shortenIds(design: Design): Design {
+  const ids = new Map<string, string>();
+  const short = (id: string) => {
+    if (id.startsWith("builtin:")) return id;
+    let s = ids.get(id);
+    if (s === undefined) {
+      s = ids.size.toString(36);
+      ids.set(id, s);
+    }
+    return s;
+  };
+  const walk = (v: unknown, key?: string): unknown => {
+    if (Array.isArray(v)) return v.map((x) => walk(x));
+    if (v && typeof v === "object") {
+      return Object.fromEntries(
+        Object.entries(v).map(([k, x]) => [
+          k,
+          k === "pins" ? x : k === "instancePlacements" ? rekey(x) : walk(x, k),
+        ])
+      );
+    }
+    return typeof v === "string" && key && ID_FIELDS.has(key) ? short(v) : v;
+  };
+  // instance placements are keyed by flattened "<symbol>/<part>" ids
+  const rekey = (placements: unknown) =>
+    Object.fromEntries(
+      Object.entries(placements as Record<string, unknown>).map(([k, p]) => [
+        k.split("/").map(short).join("/"),
+        walk(p),
+      ])
+    );
+  return walk(design) as Design;
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: GenericTransformStream) {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+export async function encodeShare(design: Design): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(shortenIds(design)));
+  const packed = await transform(json, new CompressionStream("deflate"));
+  return `${SHARE_FORMAT}.${toBase64Url(packed)}`;
+}
+
+// Viewer link for an encoded design on the current page
+export const shareUrl = (encoded: string) =>
+  `${window.location.origin}${window.location.pathname}#view=${encoded}`;
+
+// Throws when the link is damaged or the design does not load
+export async function decodeShare(payload: string): Promise<Design> {
+  const [format, data] = payload.split(".", 2);
+  if (data === undefined) {
+    // pre-format links: base64 of the UTF-8 JSON
+    return parseDesign(decodeURIComponent(escape(atob(payload))), { repair: true }).design;
+  }
+  if (format !== SHARE_FORMAT) throw new Error(`Unknown share link format ${format}`);
+  const json = await transform(fromBase64Url(data), new DecompressionStream("deflate"));
+  return loadDesign(JSON.parse(new TextDecoder().decode(json)), { repair: true }).design;
+}
@@ -0,0 +1,34 @@
+// Circuit simulation:
+//
+//   npx tsx --test src/core/spice.test.ts
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { emptyDesign } from "./design";
+import { designNetlist, placeComponent } from "./edit";
+import { buildCircuit, parseValue } from "./spice";
+
+test("values parse with SI prefixes and an optional minus sign", () => {
+  assert.equal(parseValue("10k"), 10e3);
+  assert.equal(parseValue("4k7"), 4.7e3);
+  assert.equal(parseValue("3V3"), 3.3);
+  assert.equal(parseValue("-12V"), -12);
+  assert.equal(parseValue("-5"), -5);
+  assert.equal(parseValue("-4k7"), -4.7e3);
+  assert.equal(parseValue("--5"), null);
+  assert.equal(parseValue("5-"), null);
+});
+
+test("a negative supply drives its net", () => {
+  const d = placeComponent(emptyDesign(), null, "power", { x: 0, y: 0 });
+  const [vee] = d.components;
+  const design = {
+    ...d,
+    components: [{ ...vee, label: "VEE", props: { ...vee.props, value: "-12V" } }],
+  };
+  const circuit = buildCircuit(design, designNetlist(design));
+  assert.deepEqual(
+    circuit.elements.map((e) => [e.type, "value" in e ? e.value : null]),
+    [["V", -12]]
+  );
+});
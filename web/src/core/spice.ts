@@ -0,0 +1,310 @@
+import type { Design, SchematicComponent } from "./design";
+import { type Net, pinKey } from "./netlist";
+
+// Two-terminal elements the deck writer and the DC solver understand.
+// Node "0" is ground.
+export type CircuitElement =
+  | { type: "R" | "C"; name: string; componentId: string; a: string; b: string; value: number }
+  | { type: "D"; name: string; componentId: string; a: string; b: string }
+  | { type: "V"; name: string; componentId: string; a: string; b: string; value: number };
+
+export type Circuit = {
+  elements: CircuitElement[];
+  // net name -> SPICE node
+  nodeOfNet: Map<string, string>;
+  // human readable notes about parts that could not be simulated
+  skipped: string[];
+};
+
+// Generic red LED, roughly 1.9V at 10mA
+const LED_MODEL = { is: 1e-18, n: 2 };
+const THERMAL_VOLTAGE = 0.02585;
+
+const SI_PREFIX: Record<string, number> = {
+  f: 1e-15,
+  p: 1e-12,
+  n: 1e-9,
+  u: 1e-6,
+  "µ": 1e-6,
+  m: 1e-3,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  meg: 1e6,
+  G: 1e9,
+};
+
+// Parse EE-style values: "10k", "4k7", "220R", "100nF", "3V3", "1.5M" (mega), "2m" (milli),
+// and negative ones for supplies: "-12V"
+export function parseValue(input: string): number | null {
+  const s = input.trim().replace(/Ω|ohms?$/i, "");
+  const m = /^(-?\d+(?:\.\d+)?)(meg|[fpnuµmkKMGRVFA])?(\d+)?[a-zA-Z]*$/.exec(s);
+  if (!m) return null;
+  const [, whole, prefix, frac] = m;
+  let n = Number(frac ? `${whole}.${frac}` : whole);
+  if (prefix && prefix in SI_PREFIX) n *= SI_PREFIX[prefix];
+  return Number.isFinite(n) ? n : null;
+}
+
+export function formatSI(value: number, unit: string) {
+  const abs = Math.abs(value);
+  const steps: [number, string][] = [
+    [1e6, "M"],
+    [1e3, "k"],
+    [1, ""],
+    [1e-3, "m"],
+    [1e-6, "u"],
+    [1e-9, "n"],
+    [1e-12, "p"],
+  ];
+  if (abs === 0) return `0${unit}`;
+  for (const [scale, prefix] of steps) {
+    if (abs >= scale) return `${+(value / scale).toPrecision(3)}${prefix}${unit}`;
+  }
+  return `${value.toExponential(2)}${unit}`;
+}
+
+// Map the design onto circuit elements. Pins on a net with a ground symbol
+// become node 0; unwired pins get their own floating node.
+export function buildCircuit(design: Design, nets: Net[]): Circuit {
+  const netOfPin = new Map<string, string>();
+  for (const n of nets) for (const p of n.pins) netOfPin.set(p, n.name);
+
+  const nodeOfNet = new Map<string, string>();
+  // net names may hold characters SPICE does not accept in node names
+  for (const n of nets) nodeOfNet.set(n.name, n.name.replace(/[^\w/.+-]/g, "_"));
+  for (const c of design.components) {
+    if (c.kind !== "ground") continue;
+    for (const p of c.pins) {
+      const net = netOfPin.get(pinKey(c.id, p.id));
+      if (net) nodeOfNet.set(net, "0");
+    }
+  }
+
+  const nodeOf = (c: SchematicComponent, index: number) => {
+    const p = c.pins[index];
+    const net = p && netOfPin.get(pinKey(c.id, p.id));
+    if (net) return nodeOfNet.get(net)!;
+    return `NC_${c.ref || c.label}_${p?.name ?? index}`.replace(/[^\w]/g, "_");
+  };
+
+  const elements: CircuitElement[] = [];
+  const skipped: string[] = [];
+  let sources = 0;
+  const supplies = new Map<string, number>();
+  for (const c of design.components) {
+    const name = c.ref;
+    switch (c.kind) {
+      case "resistor":
+      case "capacitor": {
+        const value = parseValue(c.props.value);
+        if (value === null || value <= 0) {
+          skipped.push(`${name}: cannot parse value "${c.props.value}"`);
+          break;
+        }
+        const type = c.kind === "resistor" ? "R" : "C";
+        elements.push({ type, name, componentId: c.id, a: nodeOf(c, 0), b: nodeOf(c, 1), value });
+        break;
+      }
+      case "led":
+        elements.push({ type: "D", name, componentId: c.id, a: nodeOf(c, 0), b: nodeOf(c, 1) });
+        break;
+      case "power": {
+        const value = parseValue(c.props.value);
+        if (value === null) {
+          skipped.push(`${c.label}: cannot parse voltage "${c.props.value}"`);
+          break;
+        }
+        // power symbols sharing a net name drive it once
+        const node = nodeOf(c, 0);
+        const driven = supplies.get(node);
+        if (driven !== undefined) {
+          if (driven !== value) {
+            skipped.push(`${c.label}: conflicts with another ${formatSI(driven, "V")} supply`);
+          }
+          break;
+        }
+        supplies.set(node, value);
+        sources++;
+        elements.push({
+          type: "V",
+          name: `V${sources}`,
+          componentId: c.id,
+          a: node,
+          b: "0",
+          value,
+        });
+        break;
+      }
+      case "ground":
+      case "netlabel":
+      case "port":
+      case "sheet":
+        break;
+      case "ic":
+      case "part":
+        skipped.push(`${name}: no simulation model`);
+        break;
+    }
+  }
+  return { elements, nodeOfNet, skipped };
+}
+
+export function toSpiceDeck(circuit: Circuit, title = "FluxLite export"): string {
+  const lines = [`* ${title}`];
+  for (const note of circuit.skipped) lines.push(`* skipped ${note}`);
+  for (const e of circuit.elements) {
+    switch (e.type) {
+      case "R":
+      case "C":
+        lines.push(`${e.name} ${e.a} ${e.b} ${+e.value.toPrecision(6)}`);
+        break;
+      case "D":
+        lines.push(`${e.name} ${e.a} ${e.b} LED`);
+        break;
+      case "V":
+        lines.push(`${e.name} ${e.a} ${e.b} DC ${e.value}`);
+        break;
+    }
+  }
+  if (circuit.elements.some((e) => e.type === "D")) {
+    lines.push(`.model LED D(IS=${LED_MODEL.is} N=${LED_MODEL.n})`);
+  }
+  lines.push(".op", ".end");
+  return lines.join("\n") + "\n";
+}
+
+export type OperatingPoint =
+  | {
+      ok: true;
+      // SPICE node -> volts
+      voltages: Map<string, number>;
+      // component id -> amps flowing a -> b
+      currents: Map<string, number>;
+    }
+  | { ok: false; error: string };
+
+// Solve A x = b in place with partial pivoting; null when singular
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-15) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = a[r][col] / a[col][col];
+      if (f === 0) continue;
+      for (let k = col; k < n; k++) a[r][k] -= f * a[col][k];
+      b[r] -= f * b[col];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = b[r];
+    for (let k = r + 1; k < n; k++) sum -= a[r][k] * x[k];
+    x[r] = sum / a[r][r];
+  }
+  return x;
+}
+
+// Modified nodal analysis with Newton-Raphson for the LEDs.
+// Capacitors are open in DC; every node gets a tiny leak to ground (gmin)
+// so floating pins don't make the matrix singular.
+export function solveDcOperatingPoint(circuit: Circuit): OperatingPoint {
+  const nodes: string[] = [];
+  const index = new Map<string, number>();
+  for (const e of circuit.elements) {
+    for (const node of [e.a, e.b]) {
+      if (node !== "0" && !index.has(node)) {
+        index.set(node, nodes.length);
+        nodes.push(node);
+      }
+    }
+  }
+  const sources = circuit.elements.filter((e) => e.type === "V");
+  const diodes = circuit.elements.filter((e) => e.type === "D");
+  const size = nodes.length + sources.length;
+  const nvt = LED_MODEL.n * THERMAL_VOLTAGE;
+  const gmin = 1e-12;
+
+  const vAt = (x: number[], node: string) => (node === "0" ? 0 : x[index.get(node)!]);
+  let x = new Array<number>(size).fill(0);
+  // diode junction voltages for the current Newton iteration
+  const vd = new Map<string, number>(diodes.map((d) => [d.componentId, 0.6]));
+
+  for (let iter = 0; iter < 200; iter++) {
+    const a = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    const b = new Array<number>(size).fill(0);
+    const stampG = (n1: string, n2: string, g: number) => {
+      const i = index.get(n1);
+      const j = index.get(n2);
+      if (i !== undefined) a[i][i] += g;
+      if (j !== undefined) a[j][j] += g;
+      if (i !== undefined && j !== undefined) {
+        a[i][j] -= g;
+        a[j][i] -= g;
+      }
+    };
+    const stampI = (from: string, to: string, current: number) => {
+      const i = index.get(from);
+      const j = index.get(to);
+      if (i !== undefined) b[i] -= current;
+      if (j !== undefined) b[j] += current;
+    };
+    for (let i = 0; i < nodes.length; i++) a[i][i] += gmin;
+    for (const e of circuit.elements) {
+      if (e.type === "R") stampG(e.a, e.b, 1 / e.value);
+      if (e.type === "D") {
+        const v = vd.get(e.componentId)!;
+        const id = LED_MODEL.is * (Math.exp(v / nvt) - 1);
+        const gd = (LED_MODEL.is / nvt) * Math.exp(v / nvt) + gmin;
+        stampG(e.a, e.b, gd);
+        stampI(e.a, e.b, id - gd * v);
+      }
+    }
+    sources.forEach((s, k) => {
+      const row = nodes.length + k;
+      const i = index.get(s.a);
+      const j = index.get(s.b);
+      if (i !== undefined) {
+        a[i][row] += 1;
+        a[row][i] += 1;
+      }
+      if (j !== undefined) {
+        a[j][row] -= 1;
+        a[row][j] -= 1;
+      }
+      b[row] = s.value;
+    });
+
+    const next = solveLinear(a, b);
+    if (!next) return { ok: false, error: "Circuit matrix is singular (shorted or conflicting sources?)" };
+    x = next;
+
+    let converged = true;
+    for (const d of diodes) {
+      const target = vAt(x, d.a) - vAt(x, d.b);
+      const prev = vd.get(d.componentId)!;
+      // limit the step so exp() doesn't blow up
+      const step = Math.max(-0.1, Math.min(0.1, target - prev));
+      if (Math.abs(target - prev) > 1e-6) converged = false;
+      vd.set(d.componentId, prev + step);
+    }
+    if (converged) break;
+    if (iter === 199) return { ok: false, error: "DC solution did not converge" };
+  }
+
+  const voltages = new Map<string, number>([["0", 0]]);
+  for (const n of nodes) voltages.set(n, vAt(x, n));
+  const currents = new Map<string, number>();
+  for (const e of circuit.elements) {
+    const v = vAt(x, e.a) - vAt(x, e.b);
+    if (e.type === "R") currents.set(e.componentId, v / e.value);
+    if (e.type === "D") currents.set(e.componentId, LED_MODEL.is * (Math.exp(v / nvt) - 1));
+  }
+  return { ok: true, voltages, currents };
+}
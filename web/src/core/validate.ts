@@ -0,0 +1,295 @@
+import type { ComponentKind, Design, WireEnd } from "./design";
+import type { Fragment } from "./selection";
+import { PIN_TYPES } from "./library";
+import { KIND_FIELDS } from "./parts";
+
+// Runtime check of a design file against the current format, so a bad file
+// is turned away with a precise reason instead of crashing the editor.
+// Issues name the offending value by path, e.g. "sheets[1].wires[4].to".
+
+export type DesignIssue = {
+  path: string;
+  reason: string;
+  // a dangling reference that repair mode can drop instead of refusing the file
+  repairable?: boolean;
+};
+
+export const formatIssue = (issue: DesignIssue) => `${issue.path || "design"}: ${issue.reason}`;
+
+export class DesignFormatError extends Error {
+  constructor(readonly issues: DesignIssue[]) {
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(`${formatIssue(issues[0])}${more}`);
+  }
+
+  // true when loading again in repair mode would succeed
+  get repairable() {
+    return this.issues.every((i) => i.repairable);
+  }
+}
+
+type Check = (value: unknown, path: string, issues: DesignIssue[]) => void;
+
+export const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+function describe(v: unknown) {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "a list";
+  if (typeof v === "object") return "an object";
+  if (typeof v === "string") return JSON.stringify(v.length > 24 ? `${v.slice(0, 24)}…` : v);
+  return String(v);
+}
+
+const expect =
+  (what: string, ok: (v: unknown) => boolean): Check =>
+  (v, path, issues) => {
+    if (ok(v)) return;
+    issues.push({
+      path,
+      reason:
+        v === undefined ? `missing, expected ${what}` : `expected ${what}, got ${describe(v)}`,
+    });
+  };
+
+const num = expect("a number", (v) => typeof v === "number" && Number.isFinite(v));
+const str = expect("a string", (v) => typeof v === "string");
+const bool = expect("true or false", (v) => typeof v === "boolean");
+const oneOf = (values: readonly string[]) =>
+  expect(`one of ${values.join(", ")}`, (v) => values.includes(v as string));
+
+const optional =
+  (check: Check): Check =>
+  (v, path, issues) => {
+    if (v !== undefined) check(v, path, issues);
+  };
+
+const nullable =
+  (check: Check): Check =>
+  (v, path, issues) => {
+    if (v !== null) check(v, path, issues);
+  };
+
+function join(path: string, key: string) {
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) return `${path}[${JSON.stringify(key)}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+const list =
+  (item: Check): Check =>
+  (v, path, issues) => {
+    if (!Array.isArray(v)) return expect("a list", () => false)(v, path, issues);
+    v.forEach((x, i) => item(x, `${path}[${i}]`, issues));
+  };
+
+const record =
+  (item: Check): Check =>
+  (v, path, issues) => {
+    if (!isObject(v)) return expect("an object", () => false)(v, path, issues);
+    for (const [k, x] of Object.entries(v)) item(x, join(path, k), issues);
+  };
+
+const shape =
+  (fields: Record<string, Check>): Check =>
+  (v, path, issues) => {
+    if (!isObject(v)) return expect("an object", () => false)(v, path, issues);
+    for (const [k, check] of Object.entries(fields)) check(v[k], join(path, k), issues);
+  };
+
+// Object whose fields depend on its `key` field
+const variant =
+  (key: string, cases: Record<string, Record<string, Check>>): Check =>
+  (v, path, issues) => {
+    if (!isObject(v)) return expect("an object", () => false)(v, path, issues);
+    const fields = cases[v[key] as string];
+    if (!fields) return oneOf(Object.keys(cases))(v[key], join(path, key), issues);
+    shape(fields)(v, path, issues);
+  };
+
+const KINDS = Object.keys(KIND_FIELDS) as ComponentKind[];
+
+const point = shape({ x: num, y: num });
+const placement = shape({ x: num, y: num, rotation: num, side: oneOf(["top", "bottom"]) });
+const pin = shape({
+  id: str,
+  name: str,
+  x: num,
+  y: num,
+  number: optional(str),
+  type: optional(oneOf(PIN_TYPES.map((t) => t.id))),
+});
+const component = shape({
+  id: str,
+  kind: oneOf(KINDS),
+  x: num,
+  y: num,
+  rotation: num,
+  label: str,
+  ref: str,
+  props: shape({ value: str, tolerance: str, footprint: str, mpn: str, manufacturer: str }),
+  pins: list(pin),
+  placement,
+  sheetId: optional(str),
+  partId: optional(str),
+});
+const wireEnd = nullable(shape({ componentId: str, pinId: str }));
+const wire = shape({ id: str, from: wireEnd, to: wireEnd, points: list(point) });
+const annotationAt = { id: str, x: num, y: num, rotation: num };
+const annotation = variant("type", {
+  text: { ...annotationAt, text: str, size: num },
+  line: { ...annotationAt, dx: num, dy: num },
+  arrow: { ...annotationAt, dx: num, dy: num },
+  rect: { ...annotationAt, w: num, h: num },
+  image: {
+    ...annotationAt,
+    href: expect("an image data: URL", (v) => typeof v === "string" && v.startsWith("data:image/")),
+    w: num,
+    h: num,
+  },
+  "no-connect": { ...annotationAt, name: str },
+});
+const fill = optional(bool);
+const graphic = variant("type", {
+  rect: { x: num, y: num, w: num, h: num, fill },
+  polyline: { points: list(point), fill },
+  circle: { x: num, y: num, r: num, fill },
+  text: { x: num, y: num, text: str, size: num },
+});
+const libraryPart = shape({
+  id: str,
+  name: str,
+  description: str,
+  prefix: str,
+  footprint: str,
+  props: record(str),
+  pins: list(pin),
+  graphics: list(graphic),
+});
+const copperLayer = oneOf(["top", "bottom"]);
+const board = shape({
+  outline: list(point),
+  tracks: list(shape({ id: str, net: str, layer: copperLayer, width: num, points: list(point) })),
+  vias: list(shape({ id: str, net: str, x: num, y: num, diameter: num, drill: num })),
+  netWidths: record(num),
+  drcRules: shape({
+    clearance: num,
+    minTrackWidth: num,
+    minAnnularRing: num,
+    minHoleSize: num,
+    edgeClearance: num,
+  }),
+  instancePlacements: record(placement),
+});
+const design = shape({
+  version: num,
+  components: list(component),
+  wires: list(wire),
+  annotations: list(annotation),
+  sheets: list(
+    shape({
+      id: str,
+      name: str,
+      components: list(component),
+      wires: list(wire),
+      annotations: list(annotation),
+    })
+  ),
+  library: list(libraryPart),
+  board,
+});
+
+const contents = (d: Design) => [
+  { path: "", content: d as Fragment },
+  ...d.sheets.map((s, i) => ({ path: `sheets[${i}].`, content: s as Fragment })),
+];
+
+// Ids used twice where references need them unique: components and wires
+// within a sheet, pins within a component
+function duplicateIds(d: Design): DesignIssue[] {
+  const issues: DesignIssue[] = [];
+  const unique = (items: { id: string }[], path: string, what: string) => {
+    const first = new Map<string, number>();
+    items.forEach((item, i) => {
+      const seen = first.get(item.id);
+      if (seen === undefined) {
+        first.set(item.id, i);
+        return;
+      }
+      issues.push({
+        path: `${path}[${i}].id`,
+        reason: `${what} id ${describe(item.id)} is already used by ${path}[${seen}]`,
+      });
+    });
+  };
+  for (const { path, content } of contents(d)) {
+    unique(content.components, `${path}components`, "component");
+    content.components.forEach((c, i) => unique(c.pins, `${path}components[${i}].pins`, "pin"));
+    unique(content.wires, `${path}wires`, "wire");
+  }
+  return issues;
+}
+
+// Structural problems: wrong or missing fields anywhere in the file, then
+// ids that are not unique
+export function validateDesign(data: unknown): DesignIssue[] {
+  const issues: DesignIssue[] = [];
+  design(data, "", issues);
+  return issues.length ? issues : duplicateIds(data as Design);
+}
+
+// References that point nowhere: wire ends at missing components or pins,
+// sheet symbols placing a sheet that is not in the file
+export function danglingReferences(d: Design): DesignIssue[] {
+  const sheetIds = new Set(d.sheets.map((s) => s.id));
+  const issues: DesignIssue[] = [];
+  for (const { path, content } of contents(d)) {
+    const pins = new Map(content.components.map((c) => [c.id, new Set(c.pins.map((p) => p.id))]));
+    content.components.forEach((c, i) => {
+      if (c.kind !== "sheet" || (c.sheetId && sheetIds.has(c.sheetId))) return;
+      issues.push({
+        path: `${path}components[${i}].sheetId`,
+        reason: `sheet symbol ${c.label || c.id} places a sheet that is not in the file`,
+        repairable: true,
+      });
+    });
+    content.wires.forEach((w, i) => {
+      for (const side of ["from", "to"] as const) {
+        const end = w[side];
+        if (!end) continue;
+        const owner = pins.get(end.componentId);
+        if (owner?.has(end.pinId)) continue;
+        issues.push({
+          path: `${path}wires[${i}].${side}`,
+          reason: owner
+            ? `component ${end.componentId} has no pin ${end.pinId}`
+            : `no component ${end.componentId} on this sheet`,
+          repairable: true,
+        });
+      }
+    });
+  }
+  return issues;
+}
+
+// Drop what danglingReferences() reports: sheet symbols without a sheet,
+// then every wire with an end that points nowhere
+export function repairReferences(d: Design): Design {
+  const sheetIds = new Set(d.sheets.map((s) => s.id));
+  const repair = (content: Fragment): Fragment => {
+    const components = content.components.filter(
+      (c) => c.kind !== "sheet" || (!!c.sheetId && sheetIds.has(c.sheetId))
+    );
+    const pins = new Map(components.map((c) => [c.id, new Set(c.pins.map((p) => p.id))]));
+    const ok = (end: WireEnd | null) => !end || !!pins.get(end.componentId)?.has(end.pinId);
+    return {
+      ...content,
+      components,
+      wires: content.wires.filter((w) => ok(w.from) && ok(w.to)),
+    };
+  };
+  return {
+    ...d,
+    ...repair(d),
+    sheets: d.sheets.map((s) => ({ ...s, ...repair(s) })),
+  };
+}
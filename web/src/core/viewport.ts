@@ -0,0 +1,70 @@
+import type { Point } from "./design";
+
+// The canvas view: content is drawn scaled by `zoom` and shifted by `pan`
+// pixels, so canvas point p shows at p * zoom + pan.
+
+export type View = { pan: Point; zoom: number };
+
+export type Bounds = { x: number; y: number; w: number; h: number };
+
+export const ZOOM_MIN = 0.1;
+export const ZOOM_MAX = 8;
+
+export const clampZoom = (zoom: number) => Math.min(ZOOM_MAX, Math.max(ZOOM_MIN, zoom));
+
+// Smallest box holding all the points, null when there are none
+export function boundsOf(points: Iterable<Point>): Bounds | null {
+  let [left, top, right, bottom] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const p of points) {
+    left = Math.min(left, p.x);
+    top = Math.min(top, p.y);
+    right = Math.max(right, p.x);
+    bottom = Math.max(bottom, p.y);
+  }
+  return left <= right ? { x: left, y: top, w: right - left, h: bottom - top } : null;
+}
+
+// Canvas area a view shows in a canvas of the given size in pixels
+export function visibleArea(view: View, width: number, height: number): Bounds {
+  return {
+    x: -view.pan.x / view.zoom,
+    y: -view.pan.y / view.zoom,
+    w: width / view.zoom,
+    h: height / view.zoom,
+  };
+}
+
+// Zoom to `zoom` keeping the canvas point under `at` (pixels from the
+// canvas' top left) where it is
+export function zoomAbout(view: View, zoom: number, at: Point): View {
+  const next = clampZoom(zoom);
+  const k = next / view.zoom;
+  return {
+    zoom: next,
+    pan: { x: at.x - (at.x - view.pan.x) * k, y: at.y - (at.y - view.pan.y) * k },
+  };
+}
+
+// Pan so canvas point `at` sits in the middle of the canvas
+export function centerOn(view: View, at: Point, width: number, height: number): View {
+  return {
+    zoom: view.zoom,
+    pan: { x: width / 2 - at.x * view.zoom, y: height / 2 - at.y * view.zoom },
+  };
+}
+
+// View showing `b` whole and centred, `margin` pixels clear of the edges.
+// A single point or a thin box is not zoomed in further than `maxZoom`.
+export function fitView(b: Bounds, width: number, height: number, margin = 40, maxZoom = 2): View {
+  const fit = Math.min(
+    (width - 2 * margin) / Math.max(b.w, 1),
+    (height - 2 * margin) / Math.max(b.h, 1)
+  );
+  const zoom = clampZoom(Math.min(fit, maxZoom));
+  return centerOn(
+    { pan: { x: 0, y: 0 }, zoom },
+    { x: b.x + b.w / 2, y: b.y + b.h / 2 },
+    width,
+    height
+  );
+}
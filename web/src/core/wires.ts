@@ -0,0 +1,238 @@
+import type { Design, Point, Wire, WireEnd } from "./design";
+import { pinAbsPosition } from "./geometry";
+
+// Schematic wire geometry. A wire is an orthogonal polyline; an end attached
+// to a pin follows that pin, a free end is the first/last stored vertex.
+// A free end joins whatever it lands on: a pin, or another wire at a vertex
+// or anywhere along a segment (a T-junction). Pins only connect at wire ends.
+
+type Content = Pick<Design, "components" | "wires">;
+
+const EPS = 1e-6;
+
+const samePoint = (a: Point, b: Point) => Math.abs(a.x - b.x) < EPS && Math.abs(a.y - b.y) < EPS;
+
+// Orthogonal path from one point to another: horizontal first, then vertical
+export function route90(from: Point, to: Point): Point[] {
+  if (Math.abs(from.x - to.x) < EPS || Math.abs(from.y - to.y) < EPS) return [to];
+  return [{ x: to.x, y: from.y }, to];
+}
+
+// Drop repeated vertices and vertices in the middle of a straight run
+export function simplifyPath(points: Point[]): Point[] {
+  const out: Point[] = [];
+  for (const p of points) {
+    if (out.length && samePoint(out[out.length - 1], p)) continue;
+    if (out.length >= 2) {
+      const a = out[out.length - 2];
+      const b = out[out.length - 1];
+      const straight =
+        (Math.abs(a.x - b.x) < EPS && Math.abs(b.x - p.x) < EPS) ||
+        (Math.abs(a.y - b.y) < EPS && Math.abs(b.y - p.y) < EPS);
+      if (straight) out.pop();
+    }
+    out.push(p);
+  }
+  return out;
+}
+
+// Absolute position of every pin, by "componentId:pinId"
+export function pinPositions(components: Content["components"]) {
+  const map = new Map<string, Point>();
+  for (const c of components) for (const p of c.pins) map.set(`${c.id}:${p.id}`, pinAbsPosition(c, p));
+  return map;
+}
+
+// Full vertex list of a wire with its attached ends at their pins
+export function wirePath(w: Wire, pins: Map<string, Point>): Point[] {
+  const at = (end: WireEnd | null) => (end ? pins.get(`${end.componentId}:${end.pinId}`) : undefined);
+  const start = at(w.from);
+  const end = at(w.to);
+  const raw = [...(start ? [start] : []), ...w.points, ...(end ? [end] : [])];
+  const path: Point[] = [];
+  for (const p of raw) {
+    const last = path[path.length - 1];
+    path.push(...(last ? route90(last, p) : [p]));
+  }
+  return simplifyPath(path);
+}
+
+// Inverse of wirePath: the vertices to store for a path drawn or edited on screen
+export function storedPoints(w: Pick<Wire, "from" | "to">, path: Point[]): Point[] {
+  const points = simplifyPath(path);
+  return points.slice(w.from ? 1 : 0, w.to ? points.length - 1 : points.length);
+}
+
+function onSegment(p: Point, a: Point, b: Point) {
+  const cross = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+  if (Math.abs(cross) > EPS) return false;
+  return (
+    p.x >= Math.min(a.x, b.x) - EPS &&
+    p.x <= Math.max(a.x, b.x) + EPS &&
+    p.y >= Math.min(a.y, b.y) - EPS &&
+    p.y <= Math.max(a.y, b.y) + EPS
+  );
+}
+
+export function pathContains(path: Point[], p: Point) {
+  if (path.length === 1) return samePoint(path[0], p);
+  return path.some((a, i) => i > 0 && onSegment(p, path[i - 1], a));
+}
+
+// Index of the segment of `path` nearest to `p` within `tolerance`, or -1
+export function hitSegment(path: Point[], p: Point, tolerance: number) {
+  let best = -1;
+  let bestD = tolerance;
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const lx = b.x - a.x;
+    const ly = b.y - a.y;
+    const len2 = lx * lx + ly * ly;
+    const t = len2 ? Math.max(0, Math.min(1, ((p.x - a.x) * lx + (p.y - a.y) * ly) / len2)) : 0;
+    const d = Math.hypot(p.x - (a.x + t * lx), p.y - (a.y + t * ly));
+    if (d <= bestD) {
+      best = i - 1;
+      bestD = d;
+    }
+  }
+  return best;
+}
+
+export type WireLinkItem = { wire: string } | { pin: WireEnd };
+
+export type WireAnalysis = {
+  paths: Map<string, Point[]>;
+  // items joined by wiring: a wire and the pins/wires it touches
+  links: [WireLinkItem, WireLinkItem][];
+  // free wire ends that touch nothing
+  openEnds: { wireId: string; at: Point }[];
+  // points where three or more wire ends/segments meet
+  junctions: Point[];
+};
+
+// Ids of parts inside sheet instances carry a "<symbol>/" prefix. Geometry
+// only connects items of the same instance.
+const scopeOf = (id: string) => id.slice(0, id.lastIndexOf("/") + 1);
+
+const CELL = 100;
+
+// Uniform grid over item bounds, so a point is only tested against the few
+// items near it. Returns the indices of candidates in item order.
+function pointIndex(items: Point[][]) {
+  const cells = new Map<string, number[]>();
+  const cell = (v: number) => Math.floor(v / CELL);
+  items.forEach((points, i) => {
+    if (!points.length) return;
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    for (let cx = cell(Math.min(...xs) - EPS); cx <= cell(Math.max(...xs) + EPS); cx++) {
+      for (let cy = cell(Math.min(...ys) - EPS); cy <= cell(Math.max(...ys) + EPS); cy++) {
+        const key = `${cx},${cy}`;
+        const list = cells.get(key);
+        if (list) list.push(i);
+        else cells.set(key, [i]);
+      }
+    }
+  });
+  return (p: Point) => cells.get(`${cell(p.x)},${cell(p.y)}`) ?? [];
+}
+
+export function analyzeWires(content: Content): WireAnalysis {
+  const pins = pinPositions(content.components);
+  const paths = new Map(content.wires.map((w) => [w.id, wirePath(w, pins)]));
+  const links: [WireLinkItem, WireLinkItem][] = [];
+  const openEnds: { wireId: string; at: Point }[] = [];
+
+  const pinList = content.components.flatMap((c) =>
+    c.pins.map((p) => ({
+      scope: scopeOf(c.id),
+      end: { componentId: c.id, pinId: p.id },
+      at: pins.get(`${c.id}:${p.id}`)!,
+    }))
+  );
+  const wireList = content.wires.map((w) => ({
+    ...w,
+    scope: scopeOf(w.id),
+    path: paths.get(w.id)!,
+  }));
+  const pinsNear = pointIndex(pinList.map((p) => [p.at]));
+  const wiresNear = pointIndex(wireList.map((w) => w.path));
+
+  for (const w of wireList) {
+    const { path, scope } = w;
+    for (const end of [w.from, w.to]) if (end) links.push([{ wire: w.id }, { pin: end }]);
+    if (path.length < 2) continue;
+    const free = [...(w.from ? [] : [path[0]]), ...(w.to ? [] : [path[path.length - 1]])];
+    for (const at of free) {
+      let touched = false;
+      for (const i of pinsNear(at)) {
+        const p = pinList[i];
+        if (p.scope === scope && samePoint(p.at, at)) {
+          links.push([{ wire: w.id }, { pin: p.end }]);
+          touched = true;
+        }
+      }
+      for (const i of wiresNear(at)) {
+        const other = wireList[i];
+        if (other.id === w.id || other.scope !== scope) continue;
+        if (pathContains(other.path, at)) {
+          links.push([{ wire: w.id }, { wire: other.id }]);
+          touched = true;
+        }
+      }
+      if (!touched) openEnds.push({ wireId: w.id, at });
+    }
+  }
+
+  // Junction dots: count wire ends at a point, twice for a wire running through it
+  const junctions: Point[] = [];
+  const seen = new Set<string>();
+  for (const w of wireList) {
+    const { path, scope } = w;
+    if (path.length < 2) continue;
+    for (const at of [path[0], path[path.length - 1]]) {
+      const key = `${scope}${at.x},${at.y}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      let degree = 0;
+      for (const i of wiresNear(at)) {
+        const other = wireList[i];
+        if (other.scope !== scope) continue;
+        const p = other.path;
+        if (p.length < 2) continue;
+        if (samePoint(p[0], at) || samePoint(p[p.length - 1], at)) degree++;
+        else if (pathContains(p, at)) degree += 2;
+      }
+      if (degree >= 3) junctions.push(at);
+    }
+  }
+
+  return { paths, links, openEnds, junctions };
+}
+
+// Wires and pins joined to the starting items through the wiring of one
+// sheet; pins as pinKey() strings
+export function wireGroup(analysis: WireAnalysis, start: WireLinkItem[]) {
+  const key = (item: WireLinkItem) =>
+    "wire" in item ? `wire:${item.wire}` : `${item.pin.componentId}:${item.pin.pinId}`;
+  const adjacent = new Map<string, WireLinkItem[]>();
+  for (const [a, b] of analysis.links) {
+    adjacent.set(key(a), [...(adjacent.get(key(a)) ?? []), b]);
+    adjacent.set(key(b), [...(adjacent.get(key(b)) ?? []), a]);
+  }
+  const wires = new Set<string>();
+  const pins = new Set<string>();
+  const seen = new Set<string>();
+  const queue = [...start];
+  while (queue.length) {
+    const item = queue.pop()!;
+    const k = key(item);
+    if (seen.has(k)) continue;
+    seen.add(k);
+    if ("wire" in item) wires.add(item.wire);
+    else pins.add(k);
+    queue.push(...(adjacent.get(k) ?? []));
+  }
+  return { wires, pins };
+}